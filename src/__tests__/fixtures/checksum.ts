@@ -0,0 +1,73 @@
+import type { CardBrand } from '../../rules/checksum'
+
+/**
+ * Номера для проверки правил с контрольными суммами.
+ * Карты — тестовые номера платёжных систем, IBAN — примеры из реестра SWIFT
+ */
+export const cards: Array<[number: string, brand: CardBrand | null]> = [
+  ['4111 1111 1111 1111', 'visa'],
+  ['4012888888881881', 'visa'],
+  ['4222222222222', 'visa'],
+  ['5555-5555-5555-4444', 'mastercard'],
+  ['2223003122003222', 'mastercard'],
+  ['2200000000000004', 'mir'],
+  ['2204123456789015', 'mir'],
+  ['378282246310005', 'amex'],
+  ['6011111111111117', 'discover'],
+  ['3530111333300000', 'jcb'],
+  ['30569309025904', 'diners'],
+  ['6200000000000005', 'unionpay'],
+  ['6759649826438453', 'maestro'],
+]
+
+export const invalidCards = [
+  '4111111111111112', // контрольная сумма
+  '37828224631000', // Amex из 14 цифр
+  '4111111111111111111111', // больше 19 цифр
+  '4111-1111-1111-111a',
+  '0000000000',
+]
+
+export const ibans = [
+  'DE89370400440532013000',
+  'DE89 3704 0044 0532 0130 00',
+  'gb82west12345698765432',
+  'KZ86125KZT5004100100',
+  'FR1420041010050500013M02606',
+  'NO9386011117947',
+  'RU0204452560040702810412345678901',
+]
+
+export const invalidIbans = [
+  'DE89370400440532013001', // контрольная сумма
+  'KZ86125KZT500410010', // длина для KZ
+  'XX89370400440532013000', // неизвестная страна
+  'DE8937040044053201300!',
+]
+
+export const isbns: Array<[value: string, version: 10 | 13]> = [
+  ['0-306-40615-2', 10],
+  ['080442957X', 10],
+  ['978-0-306-40615-7', 13],
+  ['979 10 90636 07 1', 13],
+]
+
+export const invalidIsbns = [
+  '0-306-40615-3',
+  '080442957Y',
+  '978-0-306-40615-8',
+  '123-0-306-40615-7', // не 978/979
+]
+
+export const gtins: Array<[value: string, isEan: boolean]> = [
+  ['4006381333931', true],
+  ['73513537', true],
+  ['036000291452', false], // UPC-A
+  ['10012345678902', false], // GTIN-14
+]
+
+export const invalidGtins = ['4006381333932', '7351353', '036000291453']
+
+export const bics = ['DEUTDEFF', 'DEUTDEFF500', 'hsbkkzkx', 'NWBKGB2L']
+
+export const invalidBics = ['DEUTDEF', 'DEUTDEFF50', 'DEU1DEFF', 'DEUTDEFF5000']
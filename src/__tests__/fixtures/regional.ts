@@ -0,0 +1,54 @@
+/**
+ * Номера для проверки региональных правил. Контрольные разряды рассчитаны
+ * по алгоритмам КГД РК и ФНС/СФР РФ; 7707083893 и 1027700132195 — ИНН и ОГРН
+ * реальной организации
+ */
+export const iins = [
+  '900515300127',
+  '000229501234', // 29 февраля 2000
+  '051231600453',
+  '881231456786',
+]
+
+export const invalidIins = [
+  '900515300128', // контрольный разряд
+  '90051530012', // 11 цифр
+  '9005153001a7',
+]
+
+/** Контрольный разряд верен, но дата рождения — нет */
+export const iinsWithInvalidBirthDate = [
+  '900231300123', // 31 февраля
+  '991231000004', // век не указан
+  '990101600012', // 2099 год
+]
+
+export const bins = ['040540003782', '191241001238', '120365005557']
+
+export const invalidBins = [
+  '040540003783', // контрольный разряд
+  '900515300127', // ИИН, а не БИН
+  '041340003782', // 13-й месяц
+]
+
+export const inns: Array<[value: string, type: 'legal' | 'individual']> = [
+  ['7707083893', 'legal'],
+  ['5001007329', 'legal'],
+  ['774301390193', 'individual'],
+  ['500100732001', 'individual'],
+]
+
+export const invalidInns = ['7707083894', '774301390194', '77070838']
+
+export const snilses = ['112-233-445 95', '12345678964', '98765432183']
+
+export const invalidSnilses = ['112-233-445 96', '1122334459', '11223344595 1']
+
+export const ogrns: Array<[value: string, type: 'legal' | 'individual']> = [
+  ['1027700132195', 'legal'],
+  ['1157746277633', 'legal'],
+  ['304770000000008', 'individual'],
+  ['316774600112341', 'individual'],
+]
+
+export const invalidOgrns = ['1027700132196', '316774600112342', '10277001321']
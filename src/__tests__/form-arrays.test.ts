@@ -1,8 +1,13 @@
 import { describe, it, expect, vi, afterEach } from 'vitest'
 import { effectScope } from 'vue'
 import { createForm } from '../forms/core'
-import { required } from '../rules/basic'
-import { arrayMinLength, arrayRequired } from '../rules/array'
+import { required, minValue } from '../rules/basic'
+import {
+  arrayMinLength,
+  arrayRequired,
+  arrayEach,
+  arrayUnique,
+} from '../rules/array'
 import type { FormInstance } from '../forms/types'
 
 let _scope: ReturnType<typeof effectScope>
@@ -43,6 +48,111 @@ describe('addArrayItem / removeArrayItem', () => {
   })
 })
 
+describe('insert / move / swap / replace / update', () => {
+  function makeContactsForm() {
+    return setup(() => {
+      const f = createForm({
+        initialValues: {
+          contacts: [{ email: '' }, { email: 'b@b.b' }, { email: '' }],
+        },
+      })
+      f.setRules({ 'contacts.*.email': [required('Email')] } as any)
+      return f
+    })
+  }
+
+  it('prepend/insert сдвигают ошибки и touched вслед за элементами', async () => {
+    const form = makeContactsForm()
+    await form.validateForm()
+    expect(form.hasError('contacts.0.email')).toBe(true)
+
+    form.prependArrayItem('contacts', { email: 'new@b.b' })
+    expect(form.hasError('contacts.0.email')).toBe(false)
+    expect(form.isTouched('contacts.0.email')).toBe(false)
+    expect(form.error('contacts.1.email')).toBe('Email')
+    expect(form.hasError('contacts.2.email')).toBe(false)
+    expect(form.error('contacts.3.email')).toBe('Email')
+
+    form.insertArrayItem('contacts', 2, { email: 'x@b.b' })
+    expect(form.values.value.contacts.map(c => c.email)).toEqual([
+      'new@b.b',
+      '',
+      'x@b.b',
+      'b@b.b',
+      '',
+    ])
+    expect(form.error('contacts.4.email')).toBe('Email')
+  })
+
+  it('moveArrayItem и swapArrayItems переносят состояние', async () => {
+    const form = makeContactsForm()
+    await form.validateForm()
+
+    form.moveArrayItem('contacts', 0, 2)
+    expect(form.values.value.contacts.map(c => c.email)).toEqual([
+      'b@b.b',
+      '',
+      '',
+    ])
+    expect(form.hasError('contacts.0.email')).toBe(false)
+    expect(form.hasError('contacts.1.email')).toBe(true)
+    expect(form.hasError('contacts.2.email')).toBe(true)
+
+    form.swapArrayItems('contacts', 0, 2)
+    expect(form.hasError('contacts.0.email')).toBe(true)
+    expect(form.hasError('contacts.2.email')).toBe(false)
+  })
+
+  it('removeArrayItem сохраняет состояние следующих элементов', async () => {
+    const form = makeContactsForm()
+    await form.validateForm()
+
+    form.removeArrayItem('contacts', 1)
+    expect(form.error('contacts.1.email')).toBe('Email')
+    expect(form.isTouched('contacts.1.email')).toBe(true)
+    expect(form.hasError('contacts.2.email')).toBe(false)
+  })
+
+  it('replaceArray сбрасывает вложенное состояние, updateArrayItem ревалидирует', async () => {
+    const form = makeContactsForm()
+    await form.validateForm()
+
+    form.replaceArray('contacts', [{ email: '' }])
+    expect(form.hasError('contacts.0.email')).toBe(false)
+    expect(form.isTouched('contacts.0.email')).toBe(false)
+
+    form.touch('contacts.0.email')
+    await vi.waitFor(() => expect(form.hasError('contacts.0.email')).toBe(true))
+
+    form.updateArrayItem('contacts', 0, { email: 'ok@b.b' })
+    await vi.waitFor(() =>
+      expect(form.hasError('contacts.0.email')).toBe(false)
+    )
+  })
+})
+
+describe('arrayKey', () => {
+  it('ключ следует за элементом и не попадает в значения', () => {
+    const form = setup(() =>
+      createForm({ initialValues: { items: ['a', 'b', 'c'] } })
+    )
+
+    const keys = [0, 1, 2].map(i => form.arrayKey('items', i))
+    expect(new Set(keys).size).toBe(3)
+
+    form.moveArrayItem('items', 2, 0)
+    expect(form.arrayKey('items', 0)).toBe(keys[2])
+    expect(form.arrayKey('items', 1)).toBe(keys[0])
+
+    form.removeArrayItem('items', 0)
+    expect(form.arrayKey('items', 0)).toBe(keys[0])
+
+    form.addArrayItem('items', 'd')
+    expect(keys).not.toContain(form.arrayKey('items', 2))
+    expect(form.getValues()).toEqual({ items: ['a', 'b', 'd'] })
+  })
+})
+
 describe('toggleArrayItem', () => {
   it('добавляет/убирает элемент и корректно ревалидирует', async () => {
     const form = setup(() => {
@@ -173,6 +283,85 @@ describe('wildcard-правила', () => {
   })
 })
 
+describe('многоуровневые wildcard-правила', () => {
+  it('валидирует вложенные массивы и словари', async () => {
+    const form = setup(() => {
+      const f = createForm({
+        initialValues: {
+          orders: [
+            { items: [{ qty: 1 }, { qty: 0 }] },
+            { items: [{ qty: 0 }] },
+          ],
+          prices: { usd: 10, eur: -1 } as Record<string, number>,
+        },
+      })
+      f.setRules({
+        'orders.*.items.*.qty': [minValue(1, 'Минимум 1')],
+        'prices.*': [minValue(0, 'Не меньше 0')],
+      } as any)
+      return f
+    })
+
+    expect(await form.validateForm()).toBe(false)
+    expect(form.hasError('orders.0.items.0.qty')).toBe(false)
+    expect(form.error('orders.0.items.1.qty')).toBe('Минимум 1')
+    expect(form.error('orders.1.items.0.qty')).toBe('Минимум 1')
+    expect(form.hasError('prices.usd')).toBe(false)
+    expect(form.error('prices.eur')).toBe('Не меньше 0')
+  })
+
+  it('применяет wildcard-правило к ключу, добавленному прямым присваиванием', async () => {
+    const form = setup(() => {
+      const f = createForm({
+        initialValues: { prices: { usd: 10 } as Record<string, number> },
+        validateOn: 'input',
+      })
+      f.setRules({ 'prices.*': [minValue(0, 'Не меньше 0')] } as any)
+      return f
+    })
+
+    expect(await form.validateForm()).toBe(true)
+    form.val.prices.eur = -5
+    await new Promise(r => setTimeout(r, 0))
+    expect(form.error('prices.eur')).toBe('Не меньше 0')
+    expect(await form.validateField('prices.eur' as any)).toEqual([
+      'Не меньше 0',
+    ])
+  })
+
+  it('кросс-полевая зависимость между уровнями ревалидирует нужную строку', async () => {
+    const rule = vi.fn(() => null)
+    const ruleWithDeps = Object.assign(rule, {
+      __crossField: { dependsOn: ['orders.*.items.*.qty'] },
+    })
+    const form = setup(() => {
+      const f = createForm({
+        initialValues: {
+          orders: [
+            {
+              items: [
+                { qty: 1, note: '' },
+                { qty: 2, note: '' },
+              ],
+            },
+          ],
+        },
+      })
+      f.setRules({ 'orders.*.items.*.note': [ruleWithDeps] } as any)
+      return f
+    })
+
+    await form.validateForm()
+    rule.mockClear()
+
+    form.val.orders[0].items[1].qty = 5
+    await vi.waitFor(() => expect(rule).toHaveBeenCalled())
+    expect(rule.mock.calls.map(c => (c as any[])[2].fieldPath)).toEqual([
+      'orders.0.items.1.note',
+    ])
+  })
+})
+
 describe('nested touch / clear / reset', () => {
   it('touch помечает конкретное вложенное поле', () => {
     const form = setup(() =>
@@ -212,3 +401,37 @@ describe('nested touch / clear / reset', () => {
     expect(form.isTouched('contacts.0.name' as any)).toBe(false)
   })
 })
+
+describe('form.failedItems', () => {
+  it('возвращает индексы элементов, пока поле показывает ошибку', async () => {
+    const form = setup(() => {
+      const f = createForm({
+        initialValues: {
+          emails: ['a@x.io', '', 'a@x.io'],
+          participants: [{ email: 'p@x.io' }, { email: 'p@x.io' }],
+        },
+      })
+      f.setRules({
+        emails: [arrayMinLength(4, 'Мало'), arrayEach(required('Пусто'))],
+        participants: [arrayUnique('email')],
+      })
+      return f
+    })
+
+    expect(form.failedItems('participants')).toEqual([])
+    await form.validateForm()
+    expect(form.failedItems('participants')).toEqual([1])
+    // Ошибку показывает arrayMinLength, arrayEach ещё не выполнялось
+    expect(form.error('emails')).toBe('Мало')
+    expect(form.failedItems('emails')).toEqual([])
+
+    form.addArrayItem('emails', '')
+    await form.validateField('emails')
+    expect(form.error('emails')).toBe('Items 2, 4 are invalid')
+    expect(form.failedItems('emails')).toEqual([1, 3])
+
+    form.updateArrayItem('participants', 1, { email: 'q@x.io' })
+    await form.validateField('participants')
+    expect(form.failedItems('participants')).toEqual([])
+  })
+})
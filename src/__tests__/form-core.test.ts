@@ -1,8 +1,10 @@
 import { describe, it, expect, vi, afterEach } from 'vitest'
-import { effectScope, nextTick } from 'vue'
+import { effectScope, nextTick, ref } from 'vue'
 import { createForm } from '../forms/core'
-import { required, email } from '../rules/basic'
-import { requiredIf } from '../rules/advanced'
+import { required, email, minLength, regex } from '../rules/basic'
+import { requiredIf, asWarning } from '../rules/advanced'
+import { businessDay } from '../rules/date'
+import { createRules } from '../rules/builders'
 import type { FormInstance } from '../forms/types'
 
 let _scope: ReturnType<typeof effectScope>
@@ -120,6 +122,77 @@ describe('submit', () => {
     expect(submittingDuringCallback).toBe(true)
     expect(form.isSubmitting.value).toBe(false)
   })
+
+  it('возвращает структурированный результат и считает попытки', async () => {
+    const onInvalidSubmit = vi.fn()
+    const form = setup(() => {
+      const f = createForm({
+        initialValues: { name: '' },
+        onSubmit: vi.fn(),
+        onInvalidSubmit,
+      })
+      f.setRules({ name: [required('Обязательно')] })
+      return f
+    })
+
+    expect(form.isSubmitted.value).toBe(false)
+    expect(await form.submit()).toEqual({
+      status: 'invalid',
+      errors: { name: ['Обязательно'] },
+    })
+    expect(onInvalidSubmit).toHaveBeenCalledWith({ name: ['Обязательно'] })
+    expect(form.submitCount.value).toBe(1)
+    expect(form.isSubmitted.value).toBe(true)
+    expect(form.submitSucceeded.value).toBe(false)
+
+    form.val.name = 'Alice'
+    expect(await form.submit()).toEqual({
+      status: 'success',
+      values: { name: 'Alice' },
+    })
+    expect(form.submitCount.value).toBe(2)
+    expect(form.submitSucceeded.value).toBe(true)
+
+    form.reset()
+    expect(form.submitCount.value).toBe(0)
+    expect(form.submitSucceeded.value).toBe(false)
+  })
+
+  it('onSubmit может вернуть серверные ошибки по вложенным путям', async () => {
+    const form = setup(() =>
+      createForm({
+        initialValues: { email: 'a@b.c', contacts: [{ phone: '1' }] },
+        onSubmit: () => ({
+          errors: {
+            email: ['Уже занят'],
+            'contacts.0.phone': ['Неверный номер'],
+          },
+        }),
+      })
+    )
+
+    const result = await form.submit()
+    expect(result.status).toBe('server-error')
+    expect(form.error('email')).toBe('Уже занят')
+    expect(form.error('contacts.0.phone')).toBe('Неверный номер')
+    expect(form.submitSucceeded.value).toBe(false)
+  })
+
+  it('исключение в onSubmit попадает в lastSubmitError', async () => {
+    const failure = new Error('network')
+    const form = setup(() =>
+      createForm({
+        initialValues: { name: 'ok' },
+        onSubmit: async () => {
+          throw failure
+        },
+      })
+    )
+
+    expect(await form.submit()).toEqual({ status: 'error', error: failure })
+    expect(form.lastSubmitError.value).toBe(failure)
+    expect(form.isSubmitting.value).toBe(false)
+  })
 })
 
 describe('setValues / getValues', () => {
@@ -365,6 +438,229 @@ describe('watcher auto-revalidation', () => {
   })
 })
 
+describe('validateOn / revalidateOn', () => {
+  it("validateOn: 'input' валидирует untouched поле при вводе", async () => {
+    const form = setup(() => {
+      const f = createForm({
+        initialValues: { name: 'x' },
+        validateOn: 'input',
+      })
+      f.setRules({ name: [required('Обязательно')] })
+      return f
+    })
+
+    form.val.name = ''
+    await vi.waitFor(() => expect(form.error('name')).toBe('Обязательно'))
+    expect(form.isTouched('name')).toBe(false)
+  })
+
+  it("validateOn: 'submit' — touch и ввод не валидируют до submit", async () => {
+    const rule = vi.fn((v: string) => (v === '' ? 'err' : null))
+    const form = setup(() => {
+      const f = createForm({
+        initialValues: { name: '' },
+        validateOn: 'submit',
+      })
+      f.setRules({ name: [rule] })
+      return f
+    })
+
+    form.touch('name')
+    form.val.name = 'a'
+    form.val.name = ''
+    await nextTick()
+    await nextTick()
+    expect(rule).not.toHaveBeenCalled()
+
+    await form.submit()
+    expect(form.hasError('name')).toBe(true)
+
+    // После submit действует revalidateOn (по умолчанию 'input')
+    form.val.name = 'Alice'
+    await vi.waitFor(() => expect(form.hasError('name')).toBe(false))
+  })
+
+  it("validateOn: 'mount' валидирует сразу после установки правил", async () => {
+    const form = setup(() => {
+      const f = createForm({
+        initialValues: { name: '' },
+        validateOn: 'mount',
+      })
+      f.setRules({ name: [required('Обязательно')] })
+      return f
+    })
+
+    await vi.waitFor(() => expect(form.error('name')).toBe('Обязательно'))
+    expect(form.isTouched('name')).toBe(false)
+  })
+
+  it("revalidateOn: 'blur' — после submit ревалидирует только на touch", async () => {
+    const form = setup(() => {
+      const f = createForm({
+        initialValues: { name: '' },
+        revalidateOn: 'blur',
+      })
+      f.setRules({ name: [required('Обязательно')] })
+      return f
+    })
+
+    await form.submit()
+    expect(form.hasError('name')).toBe(true)
+
+    form.val.name = 'Alice'
+    await nextTick()
+    await nextTick()
+    expect(form.hasError('name')).toBe(true)
+
+    form.touch('name')
+    await vi.waitFor(() => expect(form.hasError('name')).toBe(false))
+  })
+
+  it('fieldTriggers переопределяет режим для поля и wildcard-пути', async () => {
+    const form = setup(() => {
+      const f = createForm({
+        initialValues: {
+          name: 'x',
+          password: 'x',
+          contacts: [{ email: 'a@b.c' }],
+        },
+        validateOn: 'submit',
+        fieldTriggers: {
+          password: { validateOn: 'input' },
+          'contacts.*.email': { validateOn: 'input' },
+        },
+      })
+      f.setRules({
+        name: [required('name')],
+        password: [required('password')],
+        'contacts.*.email': [required('email')],
+      } as any)
+      return f
+    })
+
+    form.val.name = ''
+    form.val.password = ''
+    form.val.contacts[0].email = ''
+    await vi.waitFor(() => {
+      expect(form.error('password')).toBe('password')
+      expect(form.error('contacts.0.email')).toBe('email')
+    })
+    expect(form.hasError('name')).toBe(false)
+  })
+
+  it('reset возвращает форму в фазу validateOn', async () => {
+    const rule = vi.fn((v: string) => (v === '' ? 'err' : null))
+    const form = setup(() => {
+      const f = createForm({
+        initialValues: { name: '' },
+        validateOn: 'submit',
+      })
+      f.setRules({ name: [rule] })
+      return f
+    })
+
+    await form.submit()
+    form.reset()
+    rule.mockClear()
+
+    form.val.name = 'a'
+    await nextTick()
+    await nextTick()
+    expect(rule).not.toHaveBeenCalled()
+  })
+})
+
+describe('warnings', () => {
+  it('предупреждения хранятся отдельно и не влияют на isValid', async () => {
+    const rules = createRules()
+    const form = setup(() => {
+      const f = createForm({ initialValues: { password: 'abc123' } })
+      f.setRules({
+        password: [
+          rules.required(),
+          rules.minLength(12, 'Слабый пароль').asWarning(),
+        ],
+      })
+      return f
+    })
+
+    expect(await form.validateField('password')).toEqual([])
+    expect(form.warning('password')).toBe('Слабый пароль')
+    expect(form.hasWarning('password')).toBe(true)
+    expect(form.hasError('password')).toBe(false)
+    expect(form.isValid.value).toBe(true)
+    expect(form.getFieldStatus('password').warning).toBe('Слабый пароль')
+  })
+
+  it('ошибка не отменяет проверку warning-правил', async () => {
+    const form = setup(() => {
+      const f = createForm({ initialValues: { name: 'ab' } })
+      f.setRules({
+        name: [
+          minLength(3, 'Коротко'),
+          asWarning(regex(/^[A-Z]/, 'С заглавной')),
+        ],
+      })
+      return f
+    })
+
+    await form.validateField('name')
+    expect(form.error('name')).toBe('Коротко')
+    expect(form.warning('name')).toBe('С заглавной')
+  })
+
+  it('submit вызывает onSubmit несмотря на предупреждения', async () => {
+    const onSubmit = vi.fn()
+    const form = setup(() => {
+      const f = createForm({ initialValues: { name: 'bob' }, onSubmit })
+      f.setRules({ name: [asWarning(minLength(5, 'Коротко'))] })
+      return f
+    })
+
+    await form.submit()
+    expect(onSubmit).toHaveBeenCalled()
+    expect(form.warning('name')).toBe('Коротко')
+  })
+
+  it('общее правило остаётся ошибкой на одном поле и предупреждением на другом', async () => {
+    const rules = createRules()
+    const notEmpty = required('Заполните')
+    const form = setup(() => {
+      const f = createForm({ initialValues: { name: '', nick: '', bio: '' } })
+      f.setRules({
+        name: [notEmpty],
+        nick: [asWarning(notEmpty)],
+        bio: rules.maxLength(200).and(notEmpty).asWarning(),
+      })
+      return f
+    })
+
+    await form.validateForm()
+    expect(form.error('name')).toBe('Заполните')
+    expect(form.hasError('nick')).toBe(false)
+    expect(form.warning('nick')).toBe('Заполните')
+    expect(form.hasError('bio')).toBe(false)
+    expect(form.warning('bio')).toBe('Заполните')
+    expect(form.isValid.value).toBe(false)
+    expect((notEmpty as any).__warning).toBeUndefined()
+    expect(form.describe('nick')).toEqual([
+      { name: 'required', params: {}, warning: true },
+    ])
+  })
+
+  it('reset очищает предупреждения', async () => {
+    const form = setup(() => {
+      const f = createForm({ initialValues: { name: 'bob' } })
+      f.setRules({ name: [asWarning(minLength(5, 'Коротко'))] })
+      return f
+    })
+
+    await form.validateField('name')
+    form.reset()
+    expect(form.hasWarning('name')).toBe(false)
+  })
+})
+
 describe('clearCache', () => {
   it('сброс кэша заставляет ревалидировать заново', async () => {
     const rule = vi.fn((v: string) => (v === '' ? 'err' : null))
@@ -384,6 +680,21 @@ describe('clearCache', () => {
     await form.validateField('name')
     expect(rule.mock.calls.length).toBe(callsAfterFirst + 1)
   })
+
+  it('изменение загружаемого списка в ref делает кэш устаревшим', async () => {
+    const holidays = ref<string[]>([])
+    const form = setup(() => {
+      const f = createForm({ initialValues: { day: '2024-05-09' } })
+      f.setRules({ day: [businessDay(holidays)] })
+      return f
+    })
+
+    expect(await form.validateField('day')).toEqual([])
+    holidays.value = ['2024-05-09']
+    expect(await form.validateField('day')).toEqual([
+      'Date must be a business day',
+    ])
+  })
 })
 
 describe('dispose', () => {
@@ -408,3 +719,31 @@ describe('dispose', () => {
     expect(rule.mock.calls.length).toBe(callsBefore)
   })
 })
+
+describe('AbortSignal в правилах', () => {
+  it('новая валидация и dispose отменяют signal предыдущей', async () => {
+    const signals: AbortSignal[] = []
+    const form = setup(() => {
+      const f = createForm({ initialValues: { name: '' } })
+      f.setRules({
+        name: [
+          (_v, _values, meta) => {
+            signals.push(meta!.signal!)
+            return new Promise(resolve => setTimeout(() => resolve(null), 10))
+          },
+        ],
+      })
+      return f
+    })
+
+    const first = form.validateField('name')
+    form.val.name = 'a'
+    const second = form.validateField('name')
+    expect(signals[0].aborted).toBe(true)
+    expect(signals[1].aborted).toBe(false)
+
+    form.dispose()
+    expect(signals[1].aborted).toBe(true)
+    await Promise.all([first, second])
+  })
+})
@@ -2,7 +2,14 @@ import { describe, it, expect, vi, afterEach } from 'vitest'
 import { effectScope } from 'vue'
 import { createForm } from '../forms/core'
 import { required, minLength } from '../rules/basic'
-import { sameAs, requiredIf, dateAfter } from '../rules/advanced'
+import {
+  sameAs,
+  requiredIf,
+  dateAfter,
+  uniqueAmong,
+  sumOf,
+} from '../rules/advanced'
+import { maxRangeDays } from '../rules/date'
 import type { FormInstance } from '../forms/types'
 
 let _scope: ReturnType<typeof effectScope>
@@ -101,6 +108,38 @@ describe('dateAfter', () => {
   })
 })
 
+describe('правила дат внутри wildcard-правил', () => {
+  it('смена начала поездки ревалидирует конец в том же элементе', async () => {
+    const form = setup(() => {
+      const f = createForm({
+        initialValues: {
+          trips: [
+            { from: '2024-07-01', to: '2024-07-05' },
+            { from: '2024-07-01', to: '2024-07-20' },
+          ],
+        },
+      })
+      f.setRules({
+        'trips.*.to': [
+          dateAfter('trips.*.from', 'Конец раньше начала'),
+          maxRangeDays('trips.*.from', 14, 'Не больше двух недель'),
+        ],
+      } as any)
+      return f
+    })
+
+    await form.validateForm()
+    expect(form.hasError('trips.0.to' as any)).toBe(false)
+    expect(form.error('trips.1.to' as any)).toBe('Не больше двух недель')
+
+    form.touch('trips.0.to' as any)
+    form.val.trips[0].from = '2024-07-06'
+    await vi.waitFor(() =>
+      expect(form.error('trips.0.to' as any)).toBe('Конец раньше начала')
+    )
+  })
+})
+
 describe('sameAs внутри wildcard-правил', () => {
   it('confirmEmail проверяется против email в том же элементе массива', async () => {
     const form = setup(() => {
@@ -179,3 +218,82 @@ describe('sameAs внутри wildcard-правил', () => {
     expect(form.error('contacts.0.confirmEmail' as any)).toBe('Не совпадает')
   })
 })
+
+describe('зависимость от всех соседних элементов', () => {
+  it('uniqueAmong: правка одного email ревалидирует touched-соседей', async () => {
+    const form = setup(() => {
+      const f = createForm({
+        initialValues: {
+          participants: [{ email: 'a@b.com' }, { email: '' }, { email: '' }],
+        },
+      })
+      f.setRules({
+        'participants.*.email': [
+          uniqueAmong('participants.*.email', 'Email уже указан'),
+        ],
+      } as any)
+      return f
+    })
+    form.touch('participants.0.email' as any)
+    form.touch('participants.1.email' as any)
+
+    form.val.participants[1].email = 'a@b.com'
+    await vi.waitFor(() => {
+      expect(form.error('participants.0.email' as any)).toBe('Email уже указан')
+      expect(form.error('participants.1.email' as any)).toBe('Email уже указан')
+    })
+    // Не touched элемент не получает ошибку до blur
+    expect(form.hasError('participants.2.email' as any)).toBe(false)
+
+    form.val.participants[1].email = 'x@y.com'
+    await vi.waitFor(() =>
+      expect(form.hasError('participants.0.email' as any)).toBe(false)
+    )
+  })
+
+  it('sumOf: доли ревалидируются при изменении любой из них и длины массива', async () => {
+    const form = setup(() => {
+      const f = createForm({
+        initialValues: { items: [{ percent: 50 }, { percent: 30 }] },
+      })
+      f.setRules({
+        'items.*.percent': [sumOf('items.*.percent', 100)],
+      } as any)
+      return f
+    })
+    expect(await form.validateForm()).toBe(false)
+    expect(form.error('items.0.percent' as any)).toBe(
+      'Total must be 100 (now 80)'
+    )
+
+    form.val.items[1].percent = 50
+    await vi.waitFor(() => {
+      expect(form.hasError('items.0.percent' as any)).toBe(false)
+      expect(form.hasError('items.1.percent' as any)).toBe(false)
+    })
+
+    form.val.items.push({ percent: 10 })
+    expect(await form.validateForm()).toBe(false)
+    expect(form.error('items.0.percent' as any)).toBe(
+      'Total must be 100 (now 110)'
+    )
+  })
+
+  it('правило на обычном поле зависит от всех элементов массива', async () => {
+    const form = setup(() => {
+      const f = createForm({
+        initialValues: { total: 10, items: [{ amount: 4 }, { amount: 6 }] },
+      })
+      f.setRules({ total: [sumOf('items.*.amount', 10)] } as any)
+      return f
+    })
+    form.touch('total')
+    await form.validateField('total')
+    expect(form.hasError('total')).toBe(false)
+
+    form.val.items[0].amount = 5
+    await vi.waitFor(() =>
+      expect(form.error('total')).toBe('Total must be 10 (now 11)')
+    )
+  })
+})
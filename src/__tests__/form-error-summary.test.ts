@@ -0,0 +1,163 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { ref } from 'vue'
+import { createForm } from '../forms/core'
+import { required, email } from '../rules/basic'
+
+function input(name: string) {
+  const el = document.createElement('input')
+  el.name = name
+  document.body.appendChild(el)
+  return el
+}
+
+describe('errorSummary', () => {
+  afterEach(() => {
+    document.body.innerHTML = ''
+    // jsdom не реализует scrollIntoView — убираем заглушку
+    delete (HTMLElement.prototype as any).scrollIntoView
+  })
+
+  it('перечисляет ошибки в порядке полей, включая вложенные пути', async () => {
+    const form = createForm({
+      initialValues: {
+        name: '',
+        participants: [
+          { email: 'ok@mail.com' },
+          { email: 'bad' },
+          { email: 'bad' },
+        ],
+        agree: false,
+      },
+    })
+    form.setRules({
+      name: [required()],
+      'participants.*.email': [email()],
+      agree: [(v: boolean) => (v ? null : 'Required')],
+    } as any)
+
+    await form.validateForm()
+    expect(form.errorSummary.value.map(item => item.path)).toEqual([
+      'name',
+      'participants.1.email',
+      'participants.2.email',
+      'agree',
+    ])
+    expect(form.errorSummary.value[1]).toEqual({
+      path: 'participants.1.email',
+      label: 'participants.1.email',
+      message: 'Invalid email address',
+    })
+    form.dispose()
+  })
+
+  it('берёт подписи из labels, в том числе по wildcard-паттернам', async () => {
+    const nameLabel = ref('Name')
+    const form = createForm({
+      initialValues: { name: '', contacts: [{ email: 'x' }] },
+      labels: {
+        name: nameLabel,
+        'contacts.*.email': () => 'Contact email',
+      },
+    })
+    form.setRules({
+      name: [required()],
+      'contacts.*.email': [email()],
+    } as any)
+
+    await form.validateForm()
+    expect(form.errorSummary.value.map(item => item.label)).toEqual([
+      'Name',
+      'Contact email',
+    ])
+
+    nameLabel.value = 'Имя'
+    expect(form.errorSummary.value[0].label).toBe('Имя')
+
+    form.values.value.name = 'John'
+    await form.validateField('name')
+    expect(form.errorSummary.value.map(item => item.path)).toEqual([
+      'contacts.0.email',
+    ])
+    form.dispose()
+  })
+
+  it('focusFirstError() фокусирует первое по документу поле с ошибкой', async () => {
+    const scrollIntoView = vi.fn()
+    HTMLElement.prototype.scrollIntoView = scrollIntoView
+
+    const form = createForm({
+      initialValues: { name: '', address: { city: '' }, email: '' },
+    })
+    form.setRules({
+      name: [required()],
+      'address.city': [required()],
+      email: [required()],
+    } as any)
+
+    const emailEl = input('email')
+    const wrapper = document.createElement('fieldset')
+    const cityEl = document.createElement('input')
+    wrapper.appendChild(cityEl)
+    document.body.appendChild(wrapper)
+
+    form.registerField('email', emailEl)
+    // Элемент родителя используется для вложенных полей
+    form.fieldRef('address')(wrapper)
+
+    expect(form.focusFirstError()).toBeNull()
+
+    await form.validateForm()
+    expect(form.focusFirstError()).toBe('email')
+    expect(document.activeElement).toBe(emailEl)
+    expect(scrollIntoView).toHaveBeenCalledWith({
+      block: 'center',
+      behavior: 'smooth',
+    })
+
+    form.values.value.email = 'a@b.c'
+    await form.validateField('email')
+    expect(form.focusFirstError(false)).toBe('address.city')
+    expect(document.activeElement).toBe(cityEl)
+    expect(scrollIntoView).toHaveBeenCalledTimes(1)
+    form.dispose()
+  })
+
+  it('снятая регистрация и отключённые элементы пропускаются', async () => {
+    const form = createForm({ initialValues: { a: '', b: '' } })
+    form.setRules({ a: [required()], b: [required()] })
+    const a = input('a')
+    const b = input('b')
+    const unregister = form.registerField('a', a)
+    form.registerField('b', b)
+    await form.validateForm()
+
+    unregister()
+    expect(form.focusFirstError(false)).toBe('b')
+
+    form.registerField('a', a)
+    a.remove()
+    b.blur()
+    expect(form.focusFirstError(false)).toBe('b')
+    expect(document.activeElement).toBe(b)
+    form.dispose()
+  })
+
+  it('focusOnError фокусирует поле при неудачном submit()', async () => {
+    const form = createForm({
+      initialValues: { name: '', email: '' },
+      focusOnError: { block: 'start' },
+    })
+    form.setRules({ name: [required()], email: [required()] })
+    const scrollIntoView = vi.fn()
+    const nameEl = input('name')
+    nameEl.scrollIntoView = scrollIntoView
+    form.registerField('email', input('email'))
+    form.registerField('name', nameEl)
+
+    const result = await form.submit()
+    expect(result.status).toBe('invalid')
+    expect(document.activeElement).toBe(nameEl)
+    expect(scrollIntoView).toHaveBeenCalledWith({ block: 'start' })
+    form.dispose()
+  })
+})
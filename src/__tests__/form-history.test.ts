@@ -0,0 +1,211 @@
+import { describe, it, expect } from 'vitest'
+import { nextTick } from 'vue'
+import { createForm } from '../forms/core'
+import { required } from '../rules/basic'
+
+describe('history', () => {
+  it('объединяет последовательные правки одного поля в один шаг', async () => {
+    const form = createForm({
+      initialValues: { name: '', email: '' },
+      history: true,
+    })
+    expect(form.canUndo.value).toBe(false)
+
+    form.values.value.name = 'J'
+    await nextTick()
+    form.values.value.name = 'Jo'
+    await nextTick()
+    form.values.value.email = 'a@b.c'
+    await nextTick()
+    expect(form.canUndo.value).toBe(true)
+
+    form.undo()
+    expect(form.values.value).toEqual({ name: 'Jo', email: '' })
+    form.undo()
+    expect(form.values.value).toEqual({ name: '', email: '' })
+    expect(form.canUndo.value).toBe(false)
+    expect(form.canRedo.value).toBe(true)
+
+    form.redo()
+    expect(form.values.value).toEqual({ name: 'Jo', email: '' })
+    form.redo()
+    expect(form.values.value).toEqual({ name: 'Jo', email: 'a@b.c' })
+    expect(form.canRedo.value).toBe(false)
+    form.dispose()
+  })
+
+  it('checkpoint() разделяет правки одного поля на шаги', async () => {
+    const form = createForm({ initialValues: { name: '' }, history: true })
+
+    form.values.value.name = 'John'
+    await nextTick()
+    form.checkpoint()
+    form.values.value.name = 'John Doe'
+    await nextTick()
+
+    form.undo()
+    expect(form.values.value.name).toBe('John')
+    form.dispose()
+  })
+
+  it('новая правка после undo сбрасывает redo', async () => {
+    const form = createForm({ initialValues: { name: '' }, history: true })
+
+    form.values.value.name = 'John'
+    await nextTick()
+    form.undo()
+    form.values.value.name = 'Ann'
+    await nextTick()
+
+    expect(form.canRedo.value).toBe(false)
+    form.dispose()
+  })
+
+  it('ограничивает глубину истории', async () => {
+    const form = createForm({
+      initialValues: { a: '', b: '', c: '' },
+      history: { depth: 2 },
+    })
+
+    form.values.value.a = '1'
+    await nextTick()
+    form.values.value.b = '2'
+    await nextTick()
+    form.values.value.c = '3'
+    await nextTick()
+
+    form.undo()
+    form.undo()
+    expect(form.canUndo.value).toBe(false)
+    expect(form.values.value).toEqual({ a: '1', b: '', c: '' })
+    form.dispose()
+  })
+
+  it("в режиме 'manual' шаги создаются только через checkpoint()", async () => {
+    const form = createForm({
+      initialValues: { name: '', email: '' },
+      history: { mode: 'manual' },
+    })
+
+    form.values.value.name = 'John'
+    await nextTick()
+    form.values.value.email = 'a@b.c'
+    await nextTick()
+    form.checkpoint()
+    form.values.value.name = 'Ann'
+    await nextTick()
+    expect(form.canUndo.value).toBe(true)
+
+    form.undo()
+    expect(form.values.value).toEqual({ name: 'John', email: 'a@b.c' })
+    form.undo()
+    expect(form.values.value).toEqual({ name: '', email: '' })
+    form.redo()
+    form.redo()
+    expect(form.values.value).toEqual({ name: 'Ann', email: 'a@b.c' })
+    form.dispose()
+  })
+
+  it('операции с массивами — отдельные шаги', async () => {
+    const form = createForm({
+      initialValues: { tags: [] as string[] },
+      history: true,
+    })
+
+    form.addArrayItem('tags', 'a')
+    form.addArrayItem('tags', 'b')
+    form.moveArrayItem('tags', 0, 1)
+    await nextTick()
+    expect(form.values.value.tags).toEqual(['b', 'a'])
+
+    form.undo()
+    expect(form.values.value.tags).toEqual(['a', 'b'])
+    form.undo()
+    expect(form.values.value.tags).toEqual(['a'])
+    form.undo()
+    expect(form.values.value.tags).toEqual([])
+    form.dispose()
+  })
+
+  it('undo/redo операций с массивом возвращает ошибки, touched и ключи на свои элементы', async () => {
+    const form = createForm({
+      initialValues: { rows: [{ name: '' }, { name: 'B' }, { name: 'C' }] },
+      history: true,
+    })
+    form.setRules({ 'rows.*.name': [required('Required')] } as any)
+    await form.validateForm()
+    const keys = [0, 1, 2].map(i => form.arrayKey('rows', i))
+
+    form.moveArrayItem('rows', 0, 2)
+    await nextTick()
+    expect(form.error('rows.2.name' as any)).toBe('Required')
+
+    form.undo()
+    await nextTick()
+    await nextTick()
+    expect(form.values.value.rows.map(r => r.name)).toEqual(['', 'B', 'C'])
+    expect(form.error('rows.0.name' as any)).toBe('Required')
+    expect(form.hasError('rows.2.name' as any)).toBe(false)
+    expect(form.isTouched('rows.0.name' as any)).toBe(true)
+    expect([0, 1, 2].map(i => form.arrayKey('rows', i))).toEqual(keys)
+
+    form.redo()
+    await nextTick()
+    await nextTick()
+    expect(form.error('rows.2.name' as any)).toBe('Required')
+    expect(form.hasError('rows.0.name' as any)).toBe(false)
+    expect(form.arrayKey('rows', 2)).toBe(keys[0])
+
+    form.undo()
+    form.removeArrayItem('rows', 1)
+    await nextTick()
+    form.undo()
+    await nextTick()
+    expect([0, 1, 2].map(i => form.arrayKey('rows', i))).toEqual(keys)
+    expect(form.error('rows.0.name' as any)).toBe('Required')
+    form.dispose()
+  })
+
+  it('восстанавливает значения через setValues: dirty и ошибки актуальны', async () => {
+    const form = createForm({ initialValues: { name: '' }, history: true })
+    form.setRules({ name: [required('Required')] })
+
+    form.values.value.name = 'John'
+    form.touch('name')
+    await nextTick()
+    await form.validateField('name')
+    expect(form.isFieldDirty('name')).toBe(true)
+
+    form.undo()
+    await nextTick()
+    await nextTick()
+    expect(form.isFieldDirty('name')).toBe(false)
+    expect(form.error('name')).toBe('Required')
+    form.dispose()
+  })
+
+  it('reset() очищает историю', async () => {
+    const form = createForm({ initialValues: { name: '' }, history: true })
+
+    form.values.value.name = 'John'
+    await nextTick()
+    form.reset()
+    await nextTick()
+
+    expect(form.canUndo.value).toBe(false)
+    expect(form.canRedo.value).toBe(false)
+    form.dispose()
+  })
+
+  it('без опции history методы ничего не делают', async () => {
+    const form = createForm({ initialValues: { name: '' } })
+
+    form.values.value.name = 'John'
+    await nextTick()
+    form.undo()
+
+    expect(form.values.value.name).toBe('John')
+    expect(form.canUndo.value).toBe(false)
+    form.dispose()
+  })
+})
@@ -125,7 +125,7 @@ describe('двойной submit', () => {
 
     resolveSubmit()
     await first
-    await second
+    expect(await second).toEqual({ status: 'skipped' })
 
     expect(onSubmit).toHaveBeenCalledTimes(1)
     expect(form.isSubmitting.value).toBe(false)
@@ -0,0 +1,261 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { nextTick } from 'vue'
+import { createForm } from '../forms/core'
+import { createMemoryStorage, localStorageAdapter } from '../utils/storage'
+import type { StorageAdapter } from '../utils/storage'
+
+function draftOf(storage: StorageAdapter, key = 'draft') {
+  const raw = storage.getItem(key) as string | null
+  return raw ? JSON.parse(raw) : null
+}
+
+function saveDraft(
+  storage: StorageAdapter,
+  values: Record<string, any>,
+  version = 1,
+  key = 'draft'
+) {
+  storage.setItem(key, JSON.stringify({ version, savedAt: 0, values }))
+}
+
+describe('persist', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+    window.localStorage.clear()
+  })
+
+  it('сохраняет черновик с версией после debounce', async () => {
+    vi.useFakeTimers()
+    const storage = createMemoryStorage()
+    const form = createForm({
+      initialValues: { name: '', age: 0 },
+      persist: { key: 'draft', storage, version: 2, debounce: 100 },
+    })
+
+    form.values.value.name = 'John'
+    await nextTick()
+    expect(draftOf(storage)).toBeNull()
+
+    vi.advanceTimersByTime(100)
+    expect(draftOf(storage)).toMatchObject({
+      version: 2,
+      values: { name: 'John', age: 0 },
+    })
+    form.dispose()
+  })
+
+  it('восстанавливает черновик при создании формы и помечает поля dirty', async () => {
+    const storage = createMemoryStorage()
+    saveDraft(storage, { name: 'Restored' })
+
+    const form = createForm({
+      initialValues: { name: '', age: 0 },
+      persist: { key: 'draft', storage },
+    })
+
+    expect(form.values.value.name).toBe('Restored')
+    expect(await form.draft.ready).toBe(true)
+    await nextTick()
+    expect(form.isFieldDirty('name')).toBe(true)
+    expect(form.isFieldDirty('age')).toBe(false)
+    form.dispose()
+  })
+
+  it('восстанавливает Date и оставляет файлы начальными значениями', async () => {
+    const storage = createMemoryStorage()
+    const file = new File(['x'], 'a.png', { type: 'image/png' })
+    const form = createForm({
+      initialValues: {
+        birthDate: null as Date | null,
+        avatar: null as File | null,
+        documents: [] as File[],
+        profile: { bio: '', photo: null as File | null },
+      },
+      persist: { key: 'draft', storage },
+    })
+
+    form.values.value.birthDate = new Date('2000-01-02T00:00:00.000Z')
+    form.values.value.avatar = file
+    form.values.value.documents = [file]
+    form.values.value.profile = { bio: 'Hi', photo: file }
+    await form.draft.save()
+
+    const restored = createForm({
+      initialValues: {
+        birthDate: null as Date | null,
+        avatar: null as File | null,
+        documents: [] as File[],
+        profile: { bio: '', photo: null as File | null },
+      },
+      persist: { key: 'draft', storage },
+    })
+
+    expect(restored.values.value.birthDate).toBeInstanceOf(Date)
+    expect(restored.values.value.birthDate?.toISOString()).toBe(
+      '2000-01-02T00:00:00.000Z'
+    )
+    expect(restored.values.value.avatar).toBeNull()
+    expect(restored.values.value.documents).toEqual([])
+    expect(restored.values.value.profile).toEqual({ bio: 'Hi', photo: null })
+    expect(restored.getValues().birthDate).toBeInstanceOf(Date)
+    form.dispose()
+    restored.dispose()
+  })
+
+  it('include и exclude поддерживают wildcard-пути', async () => {
+    const storage = createMemoryStorage()
+    const form = createForm({
+      initialValues: {
+        name: '',
+        password: '',
+        contacts: [] as Array<{ email: string; token: string }>,
+      },
+      persist: {
+        key: 'draft',
+        storage,
+        exclude: ['password', 'contacts.*.token'],
+      },
+    })
+
+    form.values.value.name = 'John'
+    form.values.value.password = 'secret'
+    form.values.value.contacts = [{ email: 'a@b.c', token: 't' }]
+    await form.draft.save()
+    expect(draftOf(storage).values).toEqual({
+      name: 'John',
+      contacts: [{ email: 'a@b.c' }],
+    })
+
+    const partial = createForm({
+      initialValues: { name: '', password: '', address: { city: '', zip: '' } },
+      persist: {
+        key: 'partial',
+        storage,
+        include: ['name', 'address.city'],
+      },
+    })
+    partial.values.value.name = 'Ann'
+    partial.values.value.password = 'secret'
+    partial.values.value.address.city = 'Almaty'
+    partial.values.value.address.zip = '050000'
+    await partial.draft.save()
+    expect(draftOf(storage, 'partial').values).toEqual({
+      name: 'Ann',
+      address: { city: 'Almaty' },
+    })
+    form.dispose()
+    partial.dispose()
+  })
+
+  it('мигрирует черновик другой версии через migrate', async () => {
+    const storage = createMemoryStorage()
+    saveDraft(storage, { fullName: 'John Doe' }, 1)
+    const migrate = vi.fn((_version: number, data: Record<string, any>) => ({
+      firstName: data.fullName.split(' ')[0],
+    }))
+
+    const form = createForm({
+      initialValues: { firstName: '' },
+      persist: { key: 'draft', storage, version: 2, migrate },
+    })
+
+    expect(migrate).toHaveBeenCalledWith(1, { fullName: 'John Doe' })
+    expect(form.values.value.firstName).toBe('John')
+    form.dispose()
+  })
+
+  it('отбрасывает черновик другой версии без migrate', async () => {
+    const storage = createMemoryStorage()
+    saveDraft(storage, { name: 'Old' }, 1)
+
+    const form = createForm({
+      initialValues: { name: '' },
+      persist: { key: 'draft', storage, version: 2 },
+    })
+
+    expect(await form.draft.ready).toBe(false)
+    expect(form.values.value.name).toBe('')
+    form.dispose()
+  })
+
+  it('поддерживает асинхронное хранилище', async () => {
+    const memory = createMemoryStorage()
+    saveDraft(memory, { name: 'Async' })
+    const storage: StorageAdapter = {
+      getItem: async key => memory.getItem(key),
+      setItem: async (key, value) => memory.setItem(key, value),
+      removeItem: async key => memory.removeItem(key),
+    }
+
+    const form = createForm({
+      initialValues: { name: '' },
+      persist: { key: 'draft', storage },
+    })
+
+    expect(form.values.value.name).toBe('')
+    expect(await form.draft.ready).toBe(true)
+    expect(form.values.value.name).toBe('Async')
+    form.dispose()
+  })
+
+  it('не роняет форму, если асинхронное хранилище не удаляет битый черновик', async () => {
+    const removed: string[] = []
+    // Необработанный reject vitest считает ошибкой прогона; vi.fn подписался бы
+    // на промис сам и скрыл его
+    const storage: StorageAdapter = {
+      getItem: async () => '{broken',
+      setItem: async () => {},
+      removeItem: async key => {
+        removed.push(key)
+        throw new Error('quota')
+      },
+    }
+
+    const form = createForm({
+      initialValues: { name: '' },
+      persist: { key: 'draft', storage },
+    })
+
+    expect(await form.draft.ready).toBe(false)
+    expect(removed).toEqual(['draft'])
+    // Даём reject всплыть до конца теста
+    await new Promise(resolve => setTimeout(resolve))
+    form.dispose()
+  })
+
+  it('удаляет черновик после reset и успешного submit', async () => {
+    const storage = createMemoryStorage()
+    const form = createForm({
+      initialValues: { name: '' },
+      persist: { key: 'draft', storage },
+    })
+
+    form.values.value.name = 'John'
+    await form.draft.save()
+    expect(draftOf(storage)).not.toBeNull()
+
+    form.reset()
+    await form.draft.save()
+    expect(draftOf(storage)).toBeNull()
+
+    form.values.value.name = 'Ann'
+    await form.draft.save()
+    await form.submit()
+    expect(draftOf(storage)).toBeNull()
+    form.dispose()
+  })
+
+  it('сохраняет ожидающие изменения при dispose', async () => {
+    vi.useFakeTimers()
+    const form = createForm({
+      initialValues: { name: '' },
+      persist: { key: 'draft', storage: localStorageAdapter() },
+    })
+
+    form.values.value.name = 'John'
+    await nextTick()
+    form.dispose()
+
+    expect(draftOf(localStorageAdapter())?.values).toEqual({ name: 'John' })
+  })
+})
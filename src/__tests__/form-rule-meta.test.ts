@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest'
+import { createForm } from '../forms'
+import { createForm as createFormCore } from '../forms/core'
+import { normalizeFormRules } from '../forms/normalizeRules'
+import { createRules, registerRules } from '../rules/builders'
+import { describeRules, ruleAttrs } from '../rules/meta'
+import { minLength, regex } from '../rules/basic'
+
+describe('метаданные правил', () => {
+  it('переживают цепочки и normalizeFormRules', () => {
+    const r = createRules()
+    const chain = r
+      .required()
+      .maxLength(500)
+      .and(minLength(3))
+      .and(r.minLength(10, 'Слишком коротко').asWarning())
+    const { bio } = normalizeFormRules({ bio: chain })
+
+    expect(describeRules(bio!)).toEqual([
+      { name: 'required', params: {}, warning: false },
+      { name: 'maxLength', params: { max: 500 }, warning: false },
+      { name: 'minLength', params: { min: 3 }, warning: false },
+      { name: 'minLength', params: { min: 10 }, warning: true },
+    ])
+    expect(describeRules([() => null])).toEqual([
+      { name: 'anonymous', params: {}, warning: false },
+    ])
+  })
+
+  it('пользовательские фабрики получают имя и аргументы', () => {
+    registerRules({ evenLength: () => () => null })
+    const r = createRules() as any
+    expect(describeRules(r.evenLength(2).toArray())).toEqual([
+      { name: 'evenLength', params: { args: [2] }, warning: false },
+    ])
+  })
+
+  it('ruleAttrs переводит pattern в формат атрибута', () => {
+    expect(ruleAttrs([regex(/^\d{6}$/)])).toEqual({ pattern: '\\d{6}' })
+    expect(ruleAttrs([regex(/abc/)])).toEqual({
+      pattern: '[\\s\\S]*(?:abc)[\\s\\S]*',
+    })
+    // Флаги в атрибуте pattern не выразить
+    expect(ruleAttrs([regex(/abc/i)])).toEqual({})
+  })
+})
+
+describe('form.describe / form.attrs', () => {
+  it('выводит нативные атрибуты из правил', () => {
+    const form = createForm(
+      {
+        bio: '',
+        pin: '',
+        qty: 1,
+        price: 0,
+        age: 18,
+        avatar: null as File | null,
+        company: '',
+        type: 'personal',
+        contacts: [{ email: '' }],
+      },
+      r => ({
+        bio: r.required().minLength(10).maxLength(500).maxLength(300),
+        pin: r.length(4),
+        qty: r.integer().nonNegative(),
+        price: r.multipleOf(0.01),
+        age: r.between(18, 99).minValue(21),
+        avatar: r.fileRequired().fileType(['image/*', '.pdf']),
+        company: r.requiredIf('type', 'business'),
+        'contacts.*.email': r.required().email().asWarning(),
+      })
+    )
+
+    expect(form.attrs('bio')).toEqual({
+      required: true,
+      minlength: 10,
+      maxlength: 300,
+    })
+    expect(form.attrs('pin')).toEqual({ minlength: 4, maxlength: 4 })
+    expect(form.attrs('qty')).toEqual({ step: 1, min: 0 })
+    expect(form.attrs('price')).toEqual({ step: 0.01 })
+    expect(form.attrs('age')).toEqual({ min: 21, max: 99 })
+    expect(form.attrs('avatar')).toEqual({
+      required: true,
+      accept: 'image/*,.pdf',
+    })
+    // Предупреждения не делают поле обязательным
+    expect(form.attrs('contacts.0.email')).toEqual({})
+    expect(form.describe('contacts.3.email').map(d => d.name)).toEqual([
+      'required',
+      'email',
+    ])
+    expect(form.describe('unknown')).toEqual([])
+
+    expect(form.attrs('company')).toEqual({})
+    form.values.value.type = 'business'
+    expect(form.attrs('company')).toEqual({ required: true })
+    form.dispose()
+  })
+
+  it('cardBrand возвращает платёжную систему поля с creditCard()', () => {
+    const form = createForm({ card: '', name: '' }, r => ({
+      card: r.required().creditCard(),
+      name: r.required(),
+    }))
+    expect(form.cardBrand('card')).toBeNull()
+
+    form.values.value.card = '2200 1234'
+    expect(form.cardBrand('card')).toBe('mir')
+    form.values.value.card = '4111 1111 1111 1111'
+    expect(form.cardBrand('card')).toBe('visa')
+    // Без правила creditCard() платёжная система не определяется
+    form.values.value.name = '4111 1111 1111 1111'
+    expect(form.cardBrand('name')).toBeNull()
+    form.dispose()
+  })
+
+  it('обновляется после setRules', () => {
+    const form = createFormCore({ initialValues: { name: '' } })
+    expect(form.describe('name')).toEqual([])
+
+    form.setRules({ name: [minLength(2)] })
+    expect(form.describe('name')).toEqual([
+      { name: 'minLength', params: { min: 2 }, warning: false },
+    ])
+    expect(form.attrs('name')).toEqual({ minlength: 2 })
+    form.dispose()
+  })
+})
@@ -0,0 +1,267 @@
+import { describe, it, expect } from 'vitest'
+import { computed } from 'vue'
+import { toJsonSchema } from '../schema'
+import { createRules } from '../rules/builders'
+import { required, minLength } from '../rules/basic'
+import type { JsonSchema } from '../schema'
+
+describe('toJsonSchema', () => {
+  it('переводит правила в ключевые слова draft 2020-12', () => {
+    const { schema, unsupported } = toJsonSchema(
+      {
+        name: '',
+        age: 0,
+        role: 'user',
+        zip: '',
+        tags: [] as string[],
+        contacts: [{ email: '', phone: '' }],
+      },
+      r => ({
+        name: r.required().minLength(2).maxLength(50),
+        age: r.between(18, 99),
+        role: r.oneOf(['user', 'admin']),
+        zip: r.regex(/^\d{6}$/).numeric(),
+        tags: r.arrayRequired().arrayMaxLength(5),
+        'contacts.*.email': r.required().email(),
+        'contacts.*.phone': r.minLength(5).asWarning(),
+      })
+    )
+
+    expect(unsupported).toEqual([])
+    expect(schema).toEqual({
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      type: 'object',
+      required: ['name', 'tags'],
+      properties: {
+        name: { type: 'string', minLength: 2, maxLength: 50 },
+        age: { type: 'number', minimum: 18, maximum: 99 },
+        role: {
+          type: 'string',
+          anyOf: [{ const: '' }, { enum: ['user', 'admin'] }],
+        },
+        zip: {
+          type: 'string',
+          anyOf: [
+            { const: '' },
+            {
+              pattern: '^\\d{6}$',
+              allOf: [{ pattern: '^-?\\d*\\.?\\d+$' }],
+            },
+          ],
+        },
+        tags: {
+          type: 'array',
+          minItems: 1,
+          maxItems: 5,
+        },
+        contacts: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['email'],
+            properties: {
+              email: { type: 'string', minLength: 1, format: 'email' },
+              phone: { type: 'string' },
+            },
+          },
+        },
+      },
+    })
+  })
+
+  it('строковые правила становятся форматами и шаблонами', () => {
+    const { schema, unsupported } = toJsonSchema(
+      { site: '', id: '', ip: '', code: '', tag: '', loose: '', swift: '' },
+      r => ({
+        site: r.url({ protocols: ['https'] }),
+        id: r.uuid(4),
+        ip: r.ipv4(),
+        code: r.length(6).startsWith('A.'),
+        tag: r.slug().noWhitespace(),
+        loose: r.url({ requireProtocol: false }),
+        swift: r.bic(),
+      })
+    )
+
+    const optional = (constraints: JsonSchema) => ({
+      type: 'string',
+      anyOf: [{ const: '' }, constraints],
+    })
+    expect(schema.properties).toEqual({
+      site: optional({ format: 'uri', pattern: '^(?:https):' }),
+      id: optional({ format: 'uuid', pattern: '^[\\da-fA-F-]{14}4' }),
+      ip: optional({ format: 'ipv4' }),
+      code: optional({ minLength: 6, maxLength: 6, pattern: '^A\\.' }),
+      tag: optional({
+        pattern: '^[a-z\\d]+(?:-[a-z\\d]+)*$',
+        allOf: [{ pattern: '^\\S*$' }],
+      }),
+      loose: { type: 'string' },
+      swift: optional({
+        pattern: '^[A-Za-z]{6}[A-Za-z\\d]{2}(?:[A-Za-z\\d]{3})?$',
+      }),
+    })
+    expect(unsupported).toEqual([{ path: 'loose', rule: 'url' }])
+  })
+
+  it('числовые правила и формат даты', () => {
+    const { schema, unsupported } = toJsonSchema(
+      { qty: 0, price: 0, delta: 0, code: '', day: '', ruDay: '' },
+      r => ({
+        qty: r.integer().positive(),
+        price: r.nonNegative().multipleOf(0.01).decimalPlaces(2),
+        delta: r.negative(),
+        code: r.integer(),
+        day: r.date('YYYY-MM-DD'),
+        ruDay: r.date('DD.MM.YYYY'),
+      })
+    )
+
+    expect(schema.properties).toEqual({
+      qty: { type: 'integer', exclusiveMinimum: 0 },
+      price: { type: 'number', minimum: 0, multipleOf: 0.01 },
+      delta: { type: 'number', exclusiveMaximum: 0 },
+      code: { type: 'string' },
+      day: { type: 'string', anyOf: [{ const: '' }, { format: 'date' }] },
+      ruDay: { type: 'string' },
+    })
+    expect(unsupported).toEqual([
+      { path: 'price', rule: 'decimalPlaces' },
+      { path: 'code', rule: 'integer' },
+      { path: 'ruDay', rule: 'date' },
+    ])
+  })
+
+  it('правила содержимого массивов', () => {
+    const { schema, unsupported } = toJsonSchema(
+      { tags: [] as string[], roles: [] as string[], people: [{ email: '' }] },
+      r => ({
+        tags: r.arrayUnique(),
+        roles: r.arrayContains('admin'),
+        people: r.arrayUnique('email').arrayEach(() => null),
+      })
+    )
+
+    expect(schema.properties!.tags).toEqual({
+      type: 'array',
+      uniqueItems: true,
+    })
+    expect(schema.properties!.roles).toMatchObject({
+      type: 'array',
+      contains: { const: 'admin' },
+    })
+    expect(unsupported).toEqual([
+      { path: 'people', rule: 'arrayUnique' },
+      { path: 'people', rule: 'arrayEach' },
+    ])
+  })
+
+  it('явно сообщает о непереводимых правилах', () => {
+    const { schema, unsupported } = toJsonSchema(
+      {
+        username: '',
+        password: '',
+        confirm: '',
+        code: '',
+        avatar: null as File | null,
+        items: [{ qty: 0 }],
+      },
+      r => ({
+        username: r.required().remote(async () => true),
+        password: r.custom(v => v !== '123'),
+        confirm: r.sameAs('password'),
+        code: [r.regex(/abc/i), () => null],
+        avatar: r.fileRequired(),
+        'items.0.qty': r.minValue(1),
+      })
+    )
+
+    expect(unsupported).toEqual([
+      { path: 'username', rule: 'remote' },
+      { path: 'password', rule: 'custom' },
+      { path: 'confirm', rule: 'sameAs' },
+      { path: 'code', rule: 'regex' },
+      { path: 'code', rule: 'anonymous' },
+      { path: 'avatar', rule: 'fileRequired' },
+      { path: 'items.0.qty', rule: 'minValue' },
+    ])
+    expect(schema.required).toEqual(['username'])
+  })
+
+  it('необязательное строковое поле принимает пустую строку, как и правила формы', () => {
+    const { schema } = toJsonSchema(
+      { zip: '', city: '', note: '', type: 'personal', company: '' },
+      r => ({
+        zip: r.regex(/^\d{6}$/),
+        city: r.required().minLength(2),
+        note: r.maxLength(200),
+        company: r.requiredIf('type', 'business').minLength(2),
+      })
+    )
+    const { zip, city, note, company } = schema.properties!
+
+    // '' проходит первую ветку anyOf, остальные значения — ограничения правил
+    expect(zip.anyOf).toEqual([{ const: '' }, { pattern: '^\\d{6}$' }])
+    expect(zip.pattern).toBeUndefined()
+    expect(city).toEqual({ type: 'string', minLength: 2 })
+    expect(note).toEqual({ type: 'string', maxLength: 200 })
+    // requiredIf требует значение только при выполненном условии
+    expect(company.anyOf).toEqual([{ const: '' }, { minLength: 2 }])
+    expect(schema.allOf![0].then).toEqual({
+      required: ['company'],
+      properties: { company: { minLength: 1 } },
+    })
+  })
+
+  it('requiredIf по соседнему полю превращается в if/then', () => {
+    const { schema, unsupported } = toJsonSchema(
+      { type: 'personal', company: '', details: { vat: '' } },
+      r => ({
+        company: r.requiredIf('type', 'business'),
+        'details.vat': r.requiredIf('type', 'business'),
+      })
+    )
+
+    expect(schema.allOf).toEqual([
+      {
+        if: { properties: { type: { const: 'business' } }, required: ['type'] },
+        then: {
+          required: ['company'],
+          properties: { company: { minLength: 1 } },
+        },
+      },
+    ])
+    expect(unsupported).toEqual([{ path: 'details.vat', rule: 'requiredIf' }])
+  })
+
+  it('принимает объект правил, computed и словари с wildcard', () => {
+    const rules = { name: [required()], 'prices.*': [minLength(1)] }
+    const plain = toJsonSchema({ name: '', prices: { usd: '' } }, rules)
+    const reactive = toJsonSchema(
+      { name: '', prices: { usd: '' } },
+      computed(() => rules)
+    )
+
+    expect(plain).toEqual(reactive)
+    expect(plain.schema.properties!.prices).toEqual({
+      type: 'object',
+      properties: { usd: { type: 'string' } },
+      additionalProperties: {
+        type: 'string',
+        anyOf: [{ const: '' }, { minLength: 1 }],
+      },
+    })
+    // Структура без начальных значений выводится из путей правил
+    const r = createRules()
+    const { schema } = toJsonSchema({} as Record<string, any>, {
+      'address.city': r.required(),
+    })
+    expect(schema.properties).toEqual({
+      address: {
+        type: 'object',
+        required: ['city'],
+        properties: { city: {} },
+      },
+    })
+  })
+})
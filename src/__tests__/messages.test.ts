@@ -0,0 +1,74 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import { nextTick } from 'vue'
+import {
+  setLocale,
+  getLocale,
+  registerMessages,
+  formatMessage,
+  interpolate,
+} from '../messages'
+import { required, minLength, between } from '../rules/basic'
+import { arrayMinLength } from '../rules/array'
+import { fileCount } from '../rules/file'
+import { createForm } from '../forms/core'
+
+describe('каталог сообщений', () => {
+  afterEach(() => {
+    setLocale('en')
+  })
+
+  it('подставляет параметры и выбирает форму множественного числа', () => {
+    expect(minLength(3)('ab')).toBe('Minimum 3 characters')
+    expect(arrayMinLength(1)([])).toBe('Minimum 1 item required')
+    expect(between(1, 5)('9')).toBe('Value must be between 1 and 5')
+  })
+
+  it('переключает локаль во время работы', () => {
+    setLocale('ru')
+    expect(getLocale()).toBe('ru')
+    expect(required()('')).toBe('Обязательное поле')
+    expect(minLength(2)('a')).toBe('Минимум 2 символа')
+    expect(minLength(5)('a')).toBe('Минимум 5 символов')
+    expect(arrayMinLength(21)([])).toBe('Нужен минимум 21 элемент')
+    expect(
+      fileCount(undefined, 1)([new File([''], 'a'), new File([''], 'b')])
+    ).toBe('Максимум файлов: 1')
+  })
+
+  it('явное сообщение имеет приоритет над каталогом', () => {
+    setLocale('ru')
+    expect(required('Заполните')('')).toBe('Заполните')
+    expect(minLength(3, () => 'Короче некуда')('a')).toBe('Короче некуда')
+  })
+
+  it('registerMessages добавляет локаль с откатом на en', () => {
+    registerMessages('kk', {
+      required: '{field} міндетті',
+      minLength: ({ min }) => `Кемінде ${min}`,
+    })
+    setLocale('kk')
+
+    expect(required()('', {}, { fieldPath: 'name' })).toBe('name міндетті')
+    expect(minLength(4)('a')).toBe('Кемінде 4')
+    expect(between(1, 2)('3')).toBe('Value must be between 1 and 2')
+  })
+
+  it('formatMessage и interpolate', () => {
+    expect(formatMessage('maxValue', { max: 10 })).toBe('Maximum value: 10')
+    expect(formatMessage('unknown.key')).toBe('unknown.key')
+    expect(interpolate('{a} and {b}', { a: 1 })).toBe('1 and {b}')
+  })
+
+  it('форма обновляет ошибки при смене локали', async () => {
+    const form = createForm({ initialValues: { name: '' } })
+    form.setRules({ name: [required()] })
+    await form.validateField('name')
+    expect(form.error('name')).toBe('This field is required')
+
+    setLocale('ru')
+    await nextTick()
+    await nextTick()
+    expect(form.error('name')).toBe('Обязательное поле')
+    form.dispose()
+  })
+})
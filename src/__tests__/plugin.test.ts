@@ -0,0 +1,157 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { createApp, h, nextTick } from 'vue'
+import { mount } from '@vue/test-utils'
+import { createForm as createFormCore } from '../forms/core'
+import {
+  createForm,
+  FormValidatorPlugin,
+  setFormDefaults,
+  provideForm,
+  useFormContext,
+  createFormContextKey,
+} from '../forms'
+import type { FormValidatorOptions } from '../forms'
+import type { FormInstance, RuleChain } from '../forms/types'
+import { remote } from '../rules/advanced'
+import { setLocale } from '../messages'
+
+declare module '../index' {
+  interface CustomRuleChainHelpers {
+    evenLength(_msg?: string): RuleChain<string>
+  }
+}
+
+function installPlugin(options: FormValidatorOptions) {
+  const app = createApp(() => null)
+  app.use(FormValidatorPlugin, options)
+  return app
+}
+
+describe('FormValidatorPlugin', () => {
+  afterEach(() => {
+    setFormDefaults({
+      validateOn: undefined,
+      revalidateOn: undefined,
+      remoteDelay: undefined,
+    })
+    setLocale('en')
+    vi.useRealTimers()
+  })
+
+  it('применяет режимы валидации по умолчанию', async () => {
+    installPlugin({ validateOn: 'input' })
+    const form = createFormCore({ initialValues: { name: '' } })
+    form.setRules({ name: [v => (v.length < 2 ? 'short' : null)] })
+
+    form.values.value.name = 'a'
+    await vi.waitFor(() => expect(form.error('name')).toBe('short'))
+
+    const explicit = createFormCore({
+      initialValues: { name: '' },
+      validateOn: 'submit',
+    })
+    explicit.setRules({ name: [v => (v.length < 2 ? 'short' : null)] })
+    explicit.values.value.name = 'a'
+    await nextTick()
+    await nextTick()
+    expect(explicit.hasError('name')).toBe(false)
+    form.dispose()
+    explicit.dispose()
+  })
+
+  it('задаёт задержку remote() по умолчанию', async () => {
+    vi.useFakeTimers()
+    installPlugin({ remoteDelay: 50 })
+    const check = vi.fn(async () => true)
+    const rule = remote(check)
+
+    void rule('value', {})
+    await vi.advanceTimersByTimeAsync(50)
+    expect(check).toHaveBeenCalledTimes(1)
+  })
+
+  it('регистрирует пользовательские правила в строителе', () => {
+    installPlugin({
+      rules: {
+        evenLength: (msg?: string) => (v: string) =>
+          v && v.length % 2 !== 0 ? (msg ?? 'odd') : null,
+      },
+    })
+
+    const form = createForm({ code: '' }, r => ({
+      code: r.required().evenLength('Нужна чётная длина'),
+    }))
+    return form.validateField('code').then(async errors => {
+      expect(errors).toEqual(['This field is required'])
+      form.values.value.code = 'abc'
+      expect(await form.validateField('code')).toEqual(['Нужна чётная длина'])
+      form.dispose()
+    })
+  })
+
+  it('регистрирует сообщения и локаль', () => {
+    installPlugin({
+      locale: 'kk',
+      messages: { kk: { required: 'Міндетті өріс' } },
+    })
+    const form = createForm({ name: '' }, r => ({ name: r.required() }))
+
+    return form.validateField('name').then(errors => {
+      expect(errors).toEqual(['Міндетті өріс'])
+      form.dispose()
+    })
+  })
+})
+
+describe('provideForm / useFormContext', () => {
+  it('передаёт экземпляр формы вложенным компонентам', () => {
+    let parentForm: FormInstance<{ name: string }> | null = null
+    let childForm: FormInstance<{ name: string }> | null = null
+
+    const Child = () => {
+      childForm = useFormContext<{ name: string }>()
+      return null
+    }
+    const Parent = {
+      setup() {
+        parentForm = provideForm(createForm({ name: 'John' }))
+        return () => h(Child)
+      },
+    }
+
+    const wrapper = mount(Parent)
+    expect(childForm).toBe(parentForm)
+    expect(childForm!.values.value.name).toBe('John')
+    wrapper.unmount()
+  })
+
+  it('поддерживает отдельные типизированные ключи', () => {
+    const key = createFormContextKey<{ city: string }>()
+    let city = ''
+
+    const Child = () => {
+      city = useFormContext(key).values.value.city
+      return null
+    }
+    const Parent = {
+      setup() {
+        provideForm(createForm({ name: '' }))
+        provideForm(createForm({ city: 'Almaty' }), key)
+        return () => h(Child)
+      },
+    }
+
+    const wrapper = mount(Parent)
+    expect(city).toBe('Almaty')
+    wrapper.unmount()
+  })
+
+  it('бросает ошибку без provideForm', () => {
+    const Child = () => {
+      useFormContext()
+      return null
+    }
+
+    expect(() => mount(Child)).toThrow(Error)
+  })
+})
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest'
+import {
+  creditCard,
+  detectCardBrand,
+  iban,
+  isbn,
+  ean,
+  gtin,
+  bic,
+} from '../rules/checksum'
+import { createRules } from '../rules/builders'
+import {
+  cards,
+  invalidCards,
+  ibans,
+  invalidIbans,
+  isbns,
+  invalidIsbns,
+  gtins,
+  invalidGtins,
+  bics,
+  invalidBics,
+} from './fixtures/checksum'
+
+describe('creditCard', () => {
+  it.each(cards)('%s — валидная карта %s', (number, brand) => {
+    expect(creditCard()(number)).toBeNull()
+    expect(detectCardBrand(number)).toBe(brand)
+  })
+
+  it.each(invalidCards)('%s — невалидна', number => {
+    expect(creditCard()(number)).toBe('Invalid card number')
+  })
+
+  it('ограничивает платёжные системы', () => {
+    const rule = creditCard({ brands: ['visa', 'mir'] })
+    expect(rule('4111111111111111')).toBeNull()
+    expect(rule('2200000000000004')).toBeNull()
+    expect(rule('5555555555554444')).toBe(
+      'Cards of this type are not accepted. Allowed: visa, mir'
+    )
+    expect(rule('4111111111111112')).toBe('Invalid card number')
+    expect(detectCardBrand('abc')).toBeNull()
+  })
+})
+
+describe('iban', () => {
+  it.each(ibans)('%s — валиден', value => {
+    expect(iban()(value)).toBeNull()
+  })
+
+  it.each(invalidIbans)('%s — невалиден', value => {
+    expect(iban()(value)).toBe('Invalid IBAN')
+  })
+
+  it('ограничивает страны', () => {
+    expect(iban(['kz'])('KZ86125KZT5004100100')).toBeNull()
+    expect(iban(['KZ'])('DE89370400440532013000')).toBe('Invalid IBAN')
+  })
+})
+
+describe('isbn', () => {
+  it.each(isbns)('%s — валидный ISBN-%i', (value, version) => {
+    expect(isbn()(value)).toBeNull()
+    expect(isbn(version)(value)).toBeNull()
+    expect(isbn(version === 10 ? 13 : 10)(value)).toBe('Invalid ISBN')
+  })
+
+  it.each(invalidIsbns)('%s — невалиден', value => {
+    expect(isbn()(value)).toBe('Invalid ISBN')
+  })
+})
+
+describe('ean / gtin', () => {
+  it.each(gtins)('%s — валидный GTIN (EAN: %s)', (value, isEan) => {
+    expect(gtin()(value)).toBeNull()
+    expect(ean()(value)).toBe(isEan ? null : 'Invalid EAN barcode')
+  })
+
+  it.each(invalidGtins)('%s — невалиден', value => {
+    expect(gtin()(value)).toBe('Invalid GTIN')
+    expect(ean()(value)).toBe('Invalid EAN barcode')
+  })
+})
+
+describe('bic', () => {
+  it.each(bics)('%s — валиден', value => {
+    expect(bic()(value)).toBeNull()
+  })
+
+  it.each(invalidBics)('%s — невалиден', value => {
+    expect(bic()(value)).toBe('Invalid BIC/SWIFT code')
+  })
+})
+
+describe('правила с контрольными суммами в строителе', () => {
+  it('цепляются и пропускают пустые значения', async () => {
+    const r = createRules()
+    const rules = r
+      .required()
+      .creditCard({ brands: ['visa'] })
+      .toArray()
+    expect(rules).toHaveLength(2)
+    expect(await rules[1]('')).toBeNull()
+    expect(r.iban().bic().toArray()).toHaveLength(2)
+    expect(r.isbn(13).ean().gtin().toArray()).toHaveLength(3)
+  })
+})
@@ -0,0 +1,202 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { computed, effectScope, nextTick, ref } from 'vue'
+import { password, passwordStrength } from '../rules/password'
+import { createRules } from '../rules/builders'
+import { ruleAttrs } from '../rules/meta'
+import { createForm } from '../forms'
+import { setLocale } from '../messages'
+import type { FormInstance } from '../forms/types'
+
+let _scope: ReturnType<typeof effectScope>
+function setup<T extends Record<string, any>>(fn: () => FormInstance<T>) {
+  _scope = effectScope()
+  return _scope.run(fn)!
+}
+afterEach(() => {
+  _scope?.stop()
+  setLocale('en')
+})
+
+describe('passwordStrength', () => {
+  it.each([
+    ['', 0],
+    ['password', 0],
+    ['P@ssw0rd', 0],
+    ['aaaaaaaa', 0],
+    ['12345678', 0],
+    ['qwerty123', 0],
+    ['Tr0ub4dor&3', 3],
+    ['Zk7!pQ2#wR9@', 3],
+    ['correcthorsebatterystaple', 4],
+  ] as const)('%s → %i', (value, score) => {
+    expect(passwordStrength(value).score).toBe(score)
+  })
+
+  it('подсказывает, что улучшить', () => {
+    expect(passwordStrength('aaaaaa').hints).toEqual([
+      'length',
+      'classes',
+      'repeat',
+    ])
+    expect(passwordStrength('abcdef1').hints).toContain('sequence')
+    expect(passwordStrength('Password1!').hints).toEqual(['length', 'common'])
+    expect(passwordStrength('correcthorsebatterystaple').hints).toEqual([])
+  })
+
+  it('учитывает запрещённые слова и личные данные', () => {
+    const plain = passwordStrength('acmeCorp#2024')
+    const banned = passwordStrength('acmeCorp#2024', { bannedWords: ['ACME'] })
+    expect(banned.entropy).toBeLessThan(plain.entropy)
+    expect(banned.hints).toContain('common')
+
+    const personal = passwordStrength('john.smith2024', {
+      userInputs: ['john.smith@mail.com'],
+    })
+    expect(personal.entropy).toBeLessThan(
+      passwordStrength('john.smith2024').entropy
+    )
+    expect(personal.hints).toContain('personal')
+  })
+})
+
+describe('password', () => {
+  it('проверяет длину и классы символов', () => {
+    const rule = password({ minLength: 10, classes: ['upper', 'digit'] })
+    expect(rule('')).toBeNull()
+    expect(rule('Short1')).toBe('Password must be at least 10 characters')
+    expect(rule('longenough1')).toBe(
+      'Password must contain an uppercase letter'
+    )
+    expect(rule('LongEnough!')).toBe('Password must contain a digit')
+    expect(rule('LongEnough1')).toBeNull()
+  })
+
+  it('отклоняет запрещённые слова с учётом замен букв', () => {
+    const rule = password({ bannedWords: ['acme'] })
+    expect(rule('my-@cme-pass')).toBe('Password contains a forbidden word')
+    expect(rule('my-own-pass')).toBeNull()
+  })
+
+  it('проверяет минимальную энтропию', () => {
+    const rule = password({ minEntropy: 60 })
+    expect(rule('Password1!')).toBe('Password is too easy to guess')
+    expect(rule('Tr0ub4dor&3')).toBeNull()
+  })
+
+  it('не допускает email и логин из других полей', () => {
+    const rule = password({ notContaining: ['email', 'username'] })
+    const values = { email: 'John.Smith@mail.com', username: 'rivercat' }
+    expect((rule as any).__crossField).toEqual({
+      dependsOn: ['email', 'username'],
+    })
+    expect(rule('smith-2024-xyz', values)).toBe(
+      'Password must not contain your email'
+    )
+    expect(rule('RiverC@t-2024', values)).toBe(
+      'Password must not contain your username'
+    )
+    expect(rule('River-Stone-42', values)).toBeNull()
+  })
+
+  it('цепляется в строителе и задаёт minlength', () => {
+    const r = createRules()
+    const rules = r.required().password({ minLength: 12 }).toArray()
+    expect(rules[1]('short')).toBe('Password must be at least 12 characters')
+    expect(ruleAttrs(rules)).toEqual({ required: true, minlength: 12 })
+  })
+})
+
+describe('form.strength', () => {
+  it('реактивно возвращает оценку и подсказки на текущем языке', async () => {
+    const form = setup(() =>
+      createForm({ email: '', password: '' }, r => ({
+        password: r.password({ notContaining: ['email'] }),
+      }))
+    )
+    const score = computed(() => form.strength('password')?.score)
+    expect(form.strength('email')).toBeNull()
+    expect(form.strength('password')).toEqual({
+      score: 0,
+      entropy: 0,
+      hints: [],
+      messages: [],
+    })
+
+    form.val.password = 'aaaaaa'
+    expect(score.value).toBe(0)
+    expect(form.strength('password')!.messages).toEqual([
+      'Use at least 12 characters',
+      'Mix uppercase and lowercase letters, digits and symbols',
+      'Avoid repeated characters like "aaa"',
+    ])
+    setLocale('ru')
+    expect(form.strength('password')!.messages[0]).toBe(
+      'Используйте не менее 12 символов'
+    )
+
+    form.val.password = 'correcthorsebatterystaple'
+    expect(score.value).toBe(4)
+    // Поле из notContaining тоже влияет на оценку
+    form.val.email = 'correcthorse@mail.com'
+    expect(score.value).toBeLessThan(4)
+  })
+
+  it('считает оценку один раз на значение через кэш валидации', async () => {
+    const rule = password({ bannedWords: () => ['acme'] })
+    const estimate = vi.spyOn(rule as any, '__strength')
+    const form = setup(() =>
+      createForm({ password: '' }, () => ({ password: [rule] }))
+    )
+
+    form.val.password = 'Tr0ub4dor&3'
+    await nextTick()
+    await form.validateField('password')
+    const calls = estimate.mock.calls.length
+    form.strength('password')
+    form.strength('password')
+    await form.validateField('password')
+    expect(estimate).toHaveBeenCalledTimes(calls)
+
+    form.val.password = 'Tr0ub4dor&4'
+    form.strength('password')
+    expect(estimate.mock.calls.length).toBeGreaterThan(calls)
+  })
+
+  it('загруженный позже список запрещённых слов сбрасывает кэш', async () => {
+    const banned = ref<string[]>([])
+    const form = setup(() =>
+      createForm({ pw: '' }, r => ({
+        pw: r.password({ bannedWords: banned, minEntropy: 60 }),
+      }))
+    )
+    form.val.pw = 'Summer2024!xyz'
+    await nextTick()
+    expect(await form.validateField('pw')).toEqual([])
+    const score = form.strength('pw')!.score
+
+    banned.value = ['summer']
+    expect(await form.validateField('pw')).toEqual([
+      'Password contains a forbidden word',
+    ])
+    expect(form.strength('pw')!.score).toBeLessThan(score)
+    expect((await form.submit()).status).not.toBe('success')
+  })
+
+  it('ревалидирует пароль при изменении email', async () => {
+    const form = setup(() =>
+      createForm({ email: '', password: 'River-Stone-42' }, r => ({
+        password: r.password({ notContaining: ['email'] }),
+      }))
+    )
+    form.touch('password')
+    await form.validateField('password')
+    expect(form.error('password')).toBeFalsy()
+
+    form.val.email = 'river@mail.com'
+    await vi.waitFor(() =>
+      expect(form.error('password')).toBe(
+        'Password must not contain your email'
+      )
+    )
+  })
+})
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest'
+import {
+  phone,
+  parsePhone,
+  normalizePhone,
+  createPhoneRules,
+  PHONE_COUNTRIES,
+  PHONE_KZ,
+  PHONE_DE,
+} from '../rules/phone'
+import { createRules } from '../rules/builders'
+
+describe('parsePhone / normalizePhone', () => {
+  it.each([
+    ['+77011234567', undefined, '+77011234567', 'KZ'],
+    ['+7 (701) 123-45-67', undefined, '+77011234567', 'KZ'],
+    ['+7 912 345 67 89', undefined, '+79123456789', 'RU'],
+    ['8 (701) 123-45-67', 'KZ', '+77011234567', 'KZ'],
+    ['8 912 345-67-89', 'RU', '+79123456789', 'RU'],
+    ['79123456789', 'RU', '+79123456789', 'RU'],
+    ['7011234567', 'KZ', '+77011234567', 'KZ'],
+    ['0049 1512 3456789', undefined, '+4915123456789', 'DE'],
+    ['+44 7911 123456', undefined, '+447911123456', 'GB'],
+    ['+1 (415) 555-2671', undefined, '+14155552671', 'US'],
+    ['(415) 555.2671', 'CA', '+14155552671', 'CA'],
+    ['8 029 123-45-67', 'BY', '+375291234567', 'BY'],
+  ] as const)('%s (%s) → %s', (input, country, e164, resolved) => {
+    expect(normalizePhone(input, country)).toBe(e164)
+    expect(parsePhone(input, country)?.country).toBe(resolved)
+  })
+
+  it.each([
+    ['+7701123456', undefined], // короткий
+    ['+999 123456789', undefined], // неизвестный код
+    ['8 701 123 45 67', undefined], // без страны по умолчанию
+    ['+7 701 ABC 45 67', undefined],
+    ['+7 (101) 123-45-67', undefined], // ни KZ, ни RU
+    ['12345', 'KZ'],
+  ] as const)('%s (%s) — некорректен', (input, country) => {
+    expect(parsePhone(input, country)).toBeNull()
+    expect(normalizePhone(input, country)).toBeNull()
+  })
+
+  it('определяет тип номера', () => {
+    expect(parsePhone('+77011234567')!.type).toBe('mobile')
+    expect(parsePhone('+77172123456')!.type).toBe('fixed')
+    expect(parsePhone('+74951234567')!.type).toBe('fixed')
+    expect(parsePhone('+14155552671')!.type).toBe('unknown')
+  })
+
+  it('таблица стран согласована', () => {
+    for (const spec of Object.values(PHONE_COUNTRIES)) {
+      expect(spec.callingCode).toMatch(/^[1-9]\d{0,2}$/)
+      expect(spec.lengths.length).toBeGreaterThan(0)
+    }
+  })
+})
+
+describe('phone', () => {
+  it('принимает E.164 и форматированный ввод', () => {
+    const rule = phone()
+    expect(rule('+77011234567')).toBeNull()
+    expect(rule('+49 30 123456')).toBeNull()
+    expect(rule('8 701 123 45 67')).toBe('Invalid phone number')
+    expect(phone({ country: 'KZ' })('8 701 123 45 67')).toBeNull()
+    expect(rule('')).toBeNull()
+  })
+
+  it('ограничивает страны', () => {
+    const rule = phone({ allowedCountries: ['KZ', 'RU'] })
+    expect(rule('+77011234567')).toBeNull()
+    expect(rule('+79123456789')).toBeNull()
+    expect(rule('+375291234567')).toBe(
+      'Phone numbers from this country are not accepted. Allowed: KZ, RU'
+    )
+    // Общий код +1 разрешается в пользу разрешённой страны
+    expect(phone({ allowedCountries: ['CA'] })('+1 415 555 2671')).toBeNull()
+  })
+
+  it('проверяет тип номера, если страна их различает', () => {
+    const mobile = phone({ type: 'mobile' })
+    expect(mobile('+77011234567')).toBeNull()
+    expect(mobile('+77172123456')).toBe('Enter a mobile phone number')
+    expect(mobile('+14155552671')).toBeNull()
+    expect(phone({ type: 'fixed' })('+79123456789')).toBe(
+      'Enter a landline phone number'
+    )
+  })
+
+  it('createPhoneRules проверяет только переданные страны', () => {
+    const custom = createPhoneRules({ KZ: PHONE_KZ, DE: PHONE_DE })
+    expect(PHONE_COUNTRIES.KZ).toBe(PHONE_KZ)
+
+    const rule = custom.phone({ country: 'KZ' })
+    expect(rule('8 (701) 123-45-67')).toBeNull()
+    expect(rule('+49 1512 3456789')).toBeNull()
+    // RU с тем же кодом +7 в таблице нет
+    expect(rule('+7 912 345 67 89')).toBe('Invalid phone number')
+    expect(custom.phone()('+1 415 555 2671')).toBe('Invalid phone number')
+
+    expect(custom.normalizePhone('8 701 123 45 67', 'KZ')).toBe('+77011234567')
+    expect(custom.parsePhone('+4915123456789')).toMatchObject({
+      country: 'DE',
+      type: 'mobile',
+    })
+  })
+
+  it('цепляется в строителе', () => {
+    const r = createRules()
+    const [, rule] = r.required().phone({ country: 'RU' }).toArray()
+    expect(rule('8 (912) 345-67-89')).toBeNull()
+  })
+})
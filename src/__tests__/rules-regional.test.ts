@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest'
+import { iin, bin, inn, snils, ogrn } from '../rules/regional'
+import { createRules } from '../rules/builders'
+import { setLocale } from '../messages/catalog'
+import {
+  iins,
+  invalidIins,
+  iinsWithInvalidBirthDate,
+  bins,
+  invalidBins,
+  inns,
+  invalidInns,
+  snilses,
+  invalidSnilses,
+  ogrns,
+  invalidOgrns,
+} from './fixtures/regional'
+
+describe('iin / bin', () => {
+  it.each(iins)('ИИН %s валиден', value => {
+    expect(iin()(value)).toBeNull()
+    expect(iin({ checkBirthDate: true })(value)).toBeNull()
+  })
+
+  it.each(invalidIins)('ИИН %s невалиден', value => {
+    expect(iin()(value)).toBe('Invalid IIN')
+  })
+
+  it.each(iinsWithInvalidBirthDate)(
+    'ИИН %s: дата рождения проверяется по опции',
+    value => {
+      expect(iin()(value)).toBeNull()
+      expect(iin({ checkBirthDate: true })(value)).toBe(
+        'IIN contains an invalid birth date'
+      )
+    }
+  )
+
+  it.each(bins)('БИН %s валиден', value => {
+    expect(bin()(value)).toBeNull()
+  })
+
+  it.each(invalidBins)('БИН %s невалиден', value => {
+    expect(bin()(value)).toBe('Invalid BIN')
+  })
+})
+
+describe('inn / snils / ogrn', () => {
+  it.each(inns)('ИНН %s валиден (%s)', (value, type) => {
+    expect(inn()(value)).toBeNull()
+    expect(inn(type)(value)).toBeNull()
+    expect(inn(type === 'legal' ? 'individual' : 'legal')(value)).toBe(
+      'Invalid INN'
+    )
+  })
+
+  it.each(invalidInns)('ИНН %s невалиден', value => {
+    expect(inn()(value)).toBe('Invalid INN')
+  })
+
+  it.each(snilses)('СНИЛС %s валиден', value => {
+    expect(snils()(value)).toBeNull()
+  })
+
+  it.each(invalidSnilses)('СНИЛС %s невалиден', value => {
+    expect(snils()(value)).toBe('Invalid SNILS')
+  })
+
+  it.each(ogrns)('ОГРН %s валиден (%s)', (value, type) => {
+    expect(ogrn()(value)).toBeNull()
+    expect(ogrn(type)(value)).toBeNull()
+    expect(ogrn(type === 'legal' ? 'individual' : 'legal')(value)).toBe(
+      'Invalid OGRN'
+    )
+  })
+
+  it.each(invalidOgrns)('ОГРН %s невалиден', value => {
+    expect(ogrn()(value)).toBe('Invalid OGRN')
+  })
+})
+
+describe('региональные правила в строителе', () => {
+  it('цепляются и получают русские сообщения по умолчанию', async () => {
+    const r = createRules()
+    const [required, rule] = r
+      .required()
+      .iin({ checkBirthDate: true })
+      .toArray()
+    expect(await required('900515300127')).toBeNull()
+    expect(await rule('')).toBeNull()
+
+    setLocale('ru')
+    try {
+      expect(await rule('900231300123')).toBe(
+        'ИИН содержит некорректную дату рождения'
+      )
+      expect(r.bin().toArray()[0]('1')).toBe('Некорректный БИН')
+      expect(r.inn().toArray()[0]('1')).toBe('Некорректный ИНН')
+      expect(r.snils().toArray()[0]('1')).toBe('Некорректный СНИЛС')
+      expect(r.ogrn().toArray()[0]('1')).toBe('Некорректный ОГРН')
+    } finally {
+      setLocale('en')
+    }
+  })
+})
@@ -1,4 +1,5 @@
-import { describe, it, expect, vi } from 'vitest'
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { ref } from 'vue'
 import {
   required,
   minLength,
@@ -11,15 +12,67 @@ import {
   minValue,
   maxValue,
 } from '../rules/basic'
+import {
+  integer,
+  positive,
+  negative,
+  nonNegative,
+  multipleOf,
+  decimalPlaces,
+  safeInteger,
+} from '../rules/number'
+import { setFormDefaults } from '../forms/defaults'
+import {
+  date,
+  dateBefore,
+  dateBetween,
+  notInPast,
+  notInFuture,
+  minAge,
+  maxAge,
+  weekday,
+  businessDay,
+  maxRangeDays,
+} from '../rules/date'
+import {
+  url,
+  uuid,
+  ipv4,
+  ipv6,
+  alpha,
+  alphaNum,
+  slug,
+  hexColor,
+  startsWith,
+  endsWith,
+  contains,
+  noWhitespace,
+  length,
+} from '../rules/string'
 import { fileRequired, fileSize, fileType, fileCount } from '../rules/file'
-import { arrayMinLength, arrayRequired, arrayMaxLength } from '../rules/array'
+import {
+  arrayMinLength,
+  arrayRequired,
+  arrayMaxLength,
+  arrayUnique,
+  arrayEach,
+  arrayContains,
+} from '../rules/array'
 import {
   custom,
   sameAs,
+  uniqueAmong,
+  sumOf,
   requiredIf,
   dateAfter,
   remote,
 } from '../rules/advanced'
+import { createRules } from '../rules/builders'
+import {
+  createRemoteCache,
+  invalidateRemote,
+  clearRemoteCache,
+} from '../rules/remoteCache'
 
 describe('required', () => {
   const rule = required()
@@ -163,6 +216,415 @@ describe('minValue / maxValue', () => {
   })
 })
 
+describe('integer / positive / negative / nonNegative / safeInteger', () => {
+  it('принимают числа и числовые строки', () => {
+    expect(integer()(5)).toBeNull()
+    expect(integer()('-12')).toBeNull()
+    expect(integer()('1.0')).toBeNull()
+    expect(integer()(1.5)).toBe('Must be a whole number')
+    expect(integer()('abc')).toBe('Must be a whole number')
+    expect(integer()(' ')).toBe('Must be a whole number')
+    expect(integer()('')).toBeNull()
+
+    expect(positive()('0.01')).toBeNull()
+    expect(positive()(0)).toBe('Must be greater than 0')
+    expect(negative()(-1)).toBeNull()
+    expect(negative()('0')).toBe('Must be less than 0')
+    expect(nonNegative()(0)).toBeNull()
+    expect(nonNegative()('-0.5')).toBe('Must be 0 or greater')
+  })
+
+  it('safeInteger и бесконечность', () => {
+    expect(safeInteger()(Number.MAX_SAFE_INTEGER)).toBeNull()
+    expect(safeInteger()('9007199254740993')).toBe(
+      'Must be a whole number from -9007199254740991 to 9007199254740991'
+    )
+    expect(positive()(Infinity)).toBeTruthy()
+    expect(integer()('Infinity')).toBeTruthy()
+  })
+})
+
+describe('multipleOf / decimalPlaces', () => {
+  it('multipleOf без погрешности float', () => {
+    const cents = multipleOf(0.01)
+    expect(cents(0.3)).toBeNull()
+    expect(cents('19.99')).toBeNull()
+    expect(cents(1.005)).toBe('Must be a multiple of 0.01')
+    expect(multipleOf(0.1)(0.1 + 0.2)).toBeTruthy()
+    expect(multipleOf(0.1)(0.3)).toBeNull()
+    expect(multipleOf(5)('-15')).toBeNull()
+    expect(multipleOf(5)(12)).toBeTruthy()
+    expect(multipleOf(1e-7)(3e-7)).toBeNull()
+    expect(() => multipleOf(0)).toThrow()
+  })
+
+  it('decimalPlaces считает введённые знаки', () => {
+    const price = decimalPlaces(2)
+    expect(price('10')).toBeNull()
+    expect(price(10.5)).toBeNull()
+    expect(price('10.50')).toBeNull()
+    expect(price('10.505')).toBe('Maximum 2 decimal places')
+    expect(decimalPlaces(1)(1.25)).toBe('Maximum 1 decimal place')
+    expect(decimalPlaces(0)('3')).toBeNull()
+    expect(price('abc')).toBeTruthy()
+  })
+})
+
+describe('правила дат', () => {
+  // Среда, 15 мая 2024, 23:30 по локальному времени
+  const now = new Date(2024, 4, 15, 23, 30)
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(now)
+  })
+  afterEach(() => vi.useRealTimers())
+
+  it('принимают Date, ISO-строки и timestamp', () => {
+    const rule = dateBefore(new Date(2024, 5, 1))
+    expect(rule('2024-05-31')).toBeNull()
+    expect(rule(new Date(2024, 4, 31, 23, 59))).toBeNull()
+    expect(rule(new Date(2024, 4, 20).getTime())).toBeNull()
+    expect(rule('2024-06-01')).toBe('Date must be before 2024-06-01')
+    expect(rule('2024-02-31')).toBeTruthy()
+    expect(rule('не дата')).toBeTruthy()
+    expect(rule('')).toBeNull()
+  })
+
+  it.each([
+    ['dateAfter', dateAfter('start')],
+    ['dateBefore', dateBefore('end')],
+    ['dateBetween', dateBetween('start', 'end')],
+    ['notInPast', notInPast()],
+    ['notInFuture', notInFuture()],
+    ['minAge', minAge(18)],
+    ['maxAge', maxAge(65)],
+    ['weekday', weekday()],
+    ['businessDay', businessDay()],
+    ['maxRangeDays', maxRangeDays('start', 7)],
+  ])('%s сообщает о некорректной дате без плейсхолдеров', (_name, rule) => {
+    const values = { start: '2024-05-01', end: '2024-05-31' }
+    expect(rule('не дата', values)).toBe(
+      'Invalid date, expected format YYYY-MM-DD'
+    )
+    expect(rule('2024-02-31', values)).toBe(
+      'Invalid date, expected format YYYY-MM-DD'
+    )
+    setFormDefaults({ dateFormat: 'DD.MM.YYYY' })
+    try {
+      expect(rule('xx', values)).toBe(
+        'Invalid date, expected format DD.MM.YYYY'
+      )
+    } finally {
+      setFormDefaults({ dateFormat: undefined })
+    }
+  })
+
+  it('dateBefore / dateAfter сравнивают календарные дни', () => {
+    const values = { start: '2024-05-10T18:00', end: '2024-05-10T09:00' }
+    expect(dateAfter('start')(values.end, values)).toBe(
+      'Date must be after start'
+    )
+    expect(dateAfter('start')('2024-05-11T01:00', values)).toBeNull()
+    expect(dateBefore('end')('2024-05-09', values)).toBeNull()
+    expect(dateBefore('end')(values.start, values)).toBeTruthy()
+    // Пустая граница не проверяется
+    expect(dateBefore('end')('2030-01-01', { end: '' })).toBeNull()
+  })
+
+  it('строка с датой — фиксированная граница, а не поле', () => {
+    const rule = dateBefore('2025-01-01')
+    expect(rule('2024-12-31')).toBeNull()
+    expect(rule('2025-01-01', {})).toBe('Date must be before 2025-01-01')
+    expect(rule('2025-03-01', { name: '' })).toBeTruthy()
+    expect((rule as any).__crossField).toBeUndefined()
+    expect(dateBetween('2024-01-01', '2024-12-31T18:00')('2025-01-01')).toBe(
+      'Date must be between 2024-01-01 and 2024-12-31'
+    )
+
+    setFormDefaults({ dateFormat: 'DD.MM.YYYY' })
+    try {
+      const ru = dateAfter('01.06.2024')
+      expect(ru('02.06.2024')).toBeNull()
+      expect(ru('01.06.2024')).toBe('Date must be after 01.06.2024')
+      expect((ru as any).__crossField).toBeUndefined()
+    } finally {
+      setFormDefaults({ dateFormat: undefined })
+    }
+  })
+
+  it('строка без даты — поле формы', () => {
+    const rule = dateBefore('deadline')
+    expect((rule as any).__crossField.dependsOn).toEqual(['deadline'])
+    expect(rule('2024-06-01', { deadline: '2024-06-02' })).toBeNull()
+    expect(rule('2024-06-02', { deadline: '2024-06-02' })).toBe(
+      'Date must be before deadline'
+    )
+    // Поля нет в значениях и строка не дата — граница не проверяется
+    expect(rule('2030-01-01', {})).toBeNull()
+  })
+
+  it('dateBetween включает границы и подставляет wildcard', () => {
+    const values = { trips: [{ from: '2024-07-01', to: '2024-07-10' }] }
+    const rule = dateBetween('trips.*.from', 'trips.*.to')
+    const meta = { fieldPath: 'trips.0.visit' }
+    expect(rule('2024-07-01', values, meta)).toBeNull()
+    expect(rule('2024-07-10', values, meta)).toBeNull()
+    expect(rule('2024-07-11', values, meta)).toBe(
+      'Date must be between trips.*.from and trips.*.to'
+    )
+    expect((rule as any).__crossField.dependsOn).toEqual([
+      'trips.*.from',
+      'trips.*.to',
+    ])
+    expect((dateBetween(0, new Date()) as any).__crossField).toBeUndefined()
+  })
+
+  it('notInPast / notInFuture считают сегодняшний день допустимым', () => {
+    expect(notInPast()('2024-05-15')).toBeNull()
+    expect(notInPast()(new Date(2024, 4, 15, 0, 1))).toBeNull()
+    expect(notInPast()('2024-05-14')).toBe('Date cannot be in the past')
+    expect(notInFuture()('2024-05-15')).toBeNull()
+    expect(notInFuture()('2024-05-16')).toBe('Date cannot be in the future')
+  })
+
+  it('minAge / maxAge считают полные годы', () => {
+    expect(minAge(18)('2006-05-15')).toBeNull()
+    expect(minAge(18)('2006-05-16')).toBe('Must be at least 18 years old')
+    expect(maxAge(65)('1958-05-16')).toBeNull()
+    expect(maxAge(65)('1958-05-15')).toBe('Must be at most 65 years old')
+    expect(minAge(1)('2024-01-01')).toBe('Must be at least 1 year old')
+  })
+
+  it('weekday / businessDay', () => {
+    expect(weekday()('2024-05-17')).toBeNull()
+    expect(weekday()('2024-05-18')).toBe('Date must be a weekday')
+
+    const holidays = ref(['2024-05-09'])
+    const rule = businessDay(holidays)
+    expect(rule('2024-05-08')).toBeNull()
+    expect(rule('2024-05-09')).toBe('Date must be a business day')
+    expect(rule('2024-05-19')).toBeTruthy()
+    holidays.value = [new Date(2024, 4, 8).toISOString()]
+    expect(rule('2024-05-08')).toBeTruthy()
+    expect(rule('2024-05-09')).toBeNull()
+  })
+
+  it('date(format) строго проверяет календарь', () => {
+    const ru = date('DD.MM.YYYY')
+    expect(ru('31.12.2024')).toBeNull()
+    expect(ru('31.02.2024')).toBe('Invalid date, expected format DD.MM.YYYY')
+    expect(ru('2024-12-31')).toBeTruthy()
+    expect(ru(new Date(2024, 0, 1))).toBeNull()
+    expect(ru(new Date(NaN))).toBeTruthy()
+    expect(ru('')).toBeNull()
+    expect(date()('2024-02-30')).toBe(
+      'Invalid date, expected format YYYY-MM-DD'
+    )
+    expect(date(['DD.MM.YYYY', 'YYYY-MM-DD'])('2024-12-31')).toBeNull()
+  })
+
+  it('dateFormat из setFormDefaults используется всеми сравнениями', () => {
+    setFormDefaults({ dateFormat: 'DD.MM.YYYY' })
+    try {
+      const values = { start: '10.05.2024' }
+      // new Date() прочитал бы '09.06.2024' как 6 сентября, а start — как 5 октября
+      expect(dateAfter('start')('09.06.2024', values)).toBeNull()
+      expect(dateAfter('start')('09.05.2024', values)).toBe(
+        'Date must be after start'
+      )
+      expect(dateBefore(new Date(2024, 5, 1))('01.06.2024')).toBe(
+        'Date must be before 01.06.2024'
+      )
+      expect(notInPast()('2024-05-20')).toBeTruthy()
+      expect(date()('31.12.2024')).toBeNull()
+    } finally {
+      setFormDefaults({ dateFormat: undefined })
+    }
+  })
+
+  it('сравнения принимают формат, отличный от dateFormat', async () => {
+    const format = 'DD.MM.YYYY'
+    const values = { start: '10.12.2024' }
+    const rules = [date(format), dateAfter('start', undefined, { format })]
+    for (const rule of rules) expect(rule('31.12.2024', values)).toBeNull()
+    expect(rules[1]('01.12.2024', values)).toBe('Date must be after start')
+    expect(rules[1]('2024-12-31', values)).toBe(
+      'Invalid date, expected format DD.MM.YYYY'
+    )
+    expect(
+      dateBetween('01.12.2024', '31.12.2024', undefined, { format })(
+        '01.01.2025'
+      )
+    ).toBe('Date must be between 01.12.2024 and 31.12.2024')
+    expect(minAge(18, undefined, { format })('15.05.2006')).toBeNull()
+
+    const chain = createRules()
+      .date(format)
+      .dateAfter('start', undefined, { format })
+    for (const rule of chain.toArray()) {
+      expect(await rule('31.12.2024', values)).toBeNull()
+    }
+  })
+
+  it('maxRangeDays', () => {
+    const rule = maxRangeDays('start', 14)
+    const values = { start: '2024-03-20' }
+    // Через переход на летнее время
+    expect(rule('2024-04-03', values)).toBeNull()
+    expect(rule('2024-04-04', values)).toBe('Range cannot exceed 14 days')
+    expect(rule('2024-04-04', { start: '' })).toBeNull()
+  })
+})
+
+describe('url', () => {
+  it('по умолчанию http/https с доменом', () => {
+    const rule = url()
+    for (const v of [
+      'https://example.com',
+      'http://localhost:3000/path?q=1#x',
+      'https://sub.домен.рф',
+      'http://[::1]:8080',
+    ]) {
+      expect(rule(v)).toBeNull()
+    }
+    for (const v of [
+      'example.com',
+      'ftp://example.com',
+      'https://exa mple.com',
+      'http://intranet',
+      'https://',
+    ]) {
+      expect(rule(v)).toBe('Invalid URL')
+    }
+    expect(rule('')).toBeNull()
+  })
+
+  it('опции протоколов и необязательного протокола', () => {
+    expect(url({ protocols: ['ftp'] })('ftp://files.example.com')).toBeNull()
+    expect(url({ protocols: ['https'] })('http://example.com')).toBeTruthy()
+    const loose = url({ requireProtocol: false })
+    expect(loose('example.com/page')).toBeNull()
+    expect(loose('ftp://example.com')).toBeTruthy()
+  })
+})
+
+describe('uuid', () => {
+  it('любая версия и конкретная версия', () => {
+    const v4 = '9b2c4f1e-3a5d-4c8e-9f7a-1b2c3d4e5f60'
+    const v7 = '01890a5d-ac96-774b-bcce-b302099a8057'
+    expect(uuid()(v4)).toBeNull()
+    expect(uuid()(v7.toUpperCase())).toBeNull()
+    expect(uuid(4)(v4)).toBeNull()
+    expect(uuid(4)(v7)).toBe('Invalid UUID')
+    expect(uuid()('9b2c4f1e-3a5d-0c8e-9f7a-1b2c3d4e5f60')).toBeTruthy()
+    expect(uuid()('not-a-uuid')).toBeTruthy()
+  })
+})
+
+describe('ipv4 / ipv6', () => {
+  it('ipv4: октеты 0-255 без ведущих нулей', () => {
+    const rule = ipv4()
+    for (const v of ['192.168.0.1', '0.0.0.0', '255.255.255.255']) {
+      expect(rule(v)).toBeNull()
+    }
+    for (const v of [
+      '256.1.1.1',
+      '1.2.3',
+      '01.2.3.4',
+      '1.2.3.4.5',
+      'a.b.c.d',
+    ]) {
+      expect(rule(v)).toBe('Invalid IPv4 address')
+    }
+  })
+
+  it('ipv6: полная, сокращённая запись и IPv4-окончание', () => {
+    const rule = ipv6()
+    for (const v of [
+      '2001:0db8:85a3:0000:0000:8a2e:0370:7334',
+      '2001:db8::1',
+      '::1',
+      '::',
+      '::ffff:192.0.2.1',
+    ]) {
+      expect(rule(v)).toBeNull()
+    }
+    for (const v of [
+      '2001:db8:::1',
+      '1:2:3:4:5:6:7:8:9',
+      '192.168.0.1',
+      'gggg::1',
+      '[::1]',
+    ]) {
+      expect(rule(v)).toBe('Invalid IPv6 address')
+    }
+  })
+})
+
+describe('alpha / alphaNum / slug / hexColor', () => {
+  it('alpha и alphaNum учитывают Unicode', () => {
+    expect(alpha()('Привет')).toBeNull()
+    expect(alpha()('Ёжик')).toBeNull()
+    expect(alpha()('Straße')).toBeNull()
+    expect(alpha()('abc1')).toBe('Only letters are allowed')
+    expect(alpha()('two words')).toBeTruthy()
+    expect(alphaNum()('Кафе42')).toBeNull()
+    expect(alphaNum()('a-b')).toBe('Only letters and digits are allowed')
+  })
+
+  it('slug', () => {
+    expect(slug()('my-post-2')).toBeNull()
+    for (const v of ['My-Post', 'my--post', '-post', 'post-', 'пост']) {
+      expect(slug()(v)).toBeTruthy()
+    }
+  })
+
+  it('hexColor', () => {
+    for (const v of ['#fff', '#FFFA', '#a1b2c3', '#a1b2c3d4']) {
+      expect(hexColor()(v)).toBeNull()
+    }
+    for (const v of ['fff', '#ff', '#abcde', '#gggggg']) {
+      expect(hexColor()(v)).toBe('Invalid HEX color')
+    }
+  })
+})
+
+describe('startsWith / endsWith / contains / noWhitespace / length', () => {
+  it('проверяют подстроки с учётом регистра', () => {
+    expect(startsWith('+7')('+7 701')).toBeNull()
+    expect(startsWith('+7')('8 701')).toBe('Must start with "+7"')
+    expect(endsWith('.kz')('site.kz')).toBeNull()
+    expect(endsWith('.kz')('site.KZ')).toBe('Must end with ".kz"')
+    expect(contains('@')('a@b')).toBeNull()
+    expect(contains('@')('ab')).toBe('Must contain "@"')
+  })
+
+  it('noWhitespace', () => {
+    expect(noWhitespace()('login')).toBeNull()
+    expect(noWhitespace()('log in')).toBe('Spaces are not allowed')
+    expect(noWhitespace()('login\t')).toBeTruthy()
+  })
+
+  it('length: точная длина с формой множественного числа', () => {
+    expect(length(6)('123456')).toBeNull()
+    expect(length(6)('12345')).toBe('Must be exactly 6 characters')
+    expect(length(1)('12')).toBe('Must be exactly 1 character')
+    expect(length(6)('')).toBeNull()
+    expect(() => length(-1)).toThrow()
+  })
+
+  it('цепочка строителя', () => {
+    const r = createRules()
+    const rules = r.required().length(6).noWhitespace().toArray()
+    expect(rules.map(rule => rule('12 45'))).toEqual([
+      null,
+      'Must be exactly 6 characters',
+      'Spaces are not allowed',
+    ])
+  })
+})
+
 describe('fileRequired', () => {
   const rule = fileRequired()
 
@@ -296,6 +758,66 @@ describe('arrayMinLength / arrayMaxLength / arrayRequired', () => {
   })
 })
 
+describe('arrayUnique / arrayEach / arrayContains', () => {
+  it('arrayUnique сравнивает примитивы и объекты по значению', () => {
+    const rule = arrayUnique()
+    expect(rule(['a', 'b'])).toBeNull()
+    expect(rule(['a', 'b', 'a', 'a'])).toBe('Duplicate items: 3, 4')
+    expect(rule([{ id: 1 }, { id: 1 }])).toBe('Duplicate items: 2')
+    expect(rule(null as any)).toBeNull()
+  })
+
+  it('arrayUnique по ключу и селектору, пустые ключи не повторы', () => {
+    const people = [
+      { email: 'a@x.io' },
+      { email: '' },
+      { email: '' },
+      { email: 'A@x.io' },
+    ]
+    expect(arrayUnique('email')(people)).toBeNull()
+    expect(
+      arrayUnique<{ email: string }>(p => p.email.toLowerCase())(people)
+    ).toBe('Duplicate items: 4')
+    expect(
+      arrayUnique('address.city')([
+        { address: { city: 'Almaty' } },
+        { address: { city: 'Almaty' } },
+      ])
+    ).toBe('Duplicate items: 2')
+  })
+
+  it('arrayEach применяет цепочку к каждому элементу', () => {
+    const r = createRules()
+    const rule = arrayEach(r.required().email())
+    expect(rule(['a@x.io', 'b@x.io'])).toBeNull()
+    expect(rule(['a@x.io', 'oops'])).toBe('Item 2: Invalid email address')
+    expect(rule(['', 'a@x.io', 'oops'])).toBe('Items 1, 3 are invalid')
+    expect(rule([])).toBeNull()
+  })
+
+  it('arrayEach передаёт путь элемента и ждёт асинхронные правила', async () => {
+    const paths: Array<string | undefined> = []
+    const rule = arrayEach([
+      (_v: number, _values, meta) => {
+        paths.push(meta?.fieldPath)
+        return null
+      },
+      async (v: number) => (v > 10 ? 'Слишком много' : null),
+    ])
+    const result = rule([5, 20], {}, { fieldPath: 'qty' })
+    expect(result).toBeInstanceOf(Promise)
+    expect(await result).toBe('Item 2: Слишком много')
+    expect(paths).toEqual(['qty.0', 'qty.1'])
+  })
+
+  it('arrayContains', () => {
+    const rule = arrayContains('admin')
+    expect(rule(['user', 'admin'])).toBeNull()
+    expect(rule(['user'])).toBe('Must include admin')
+    expect(arrayContains({ id: 1 })([{ id: 1 }])).toBeNull()
+  })
+})
+
 describe('custom', () => {
   it('синхронный boolean — возвращает string|null, НЕ промис', () => {
     const rule = custom(v => v === 'ok')
@@ -342,6 +864,71 @@ describe('sameAs', () => {
   })
 })
 
+describe('uniqueAmong', () => {
+  const rule = uniqueAmong('participants.*.email', 'Email уже указан')
+  const values = {
+    participants: [{ email: 'a@b.com' }, { email: 'x@y.com' }, { email: '' }],
+  }
+  const meta = (fieldPath: string) => ({ fieldPath })
+
+  it('сравнивает с соседями, исключая само поле', () => {
+    expect(rule('a@b.com', values, meta('participants.0.email'))).toBeNull()
+    expect(rule('a@b.com', values, meta('participants.1.email'))).toBe(
+      'Email уже указан'
+    )
+  })
+
+  it('пустое значение не проверяется', () => {
+    expect(rule('', values, meta('participants.2.email'))).toBeNull()
+  })
+
+  it('зависит от всех соседей', () => {
+    expect((rule as any).__crossField).toEqual({
+      dependsOn: [],
+      dependsOnAll: ['participants.*.email'],
+    })
+  })
+})
+
+describe('sumOf', () => {
+  const rule = sumOf('items.*.percent', 100)
+  const meta = { fieldPath: 'items.0.percent' }
+
+  it('сумма совпадает → ок, с учётом погрешности дробей', () => {
+    expect(
+      rule(60, { items: [{ percent: 60 }, { percent: '40' }] }, meta)
+    ).toBeNull()
+    expect(
+      sumOf('items.*.percent', 0.3)(
+        0.1,
+        { items: [{ percent: 0.1 }, { percent: 0.2 }] },
+        meta
+      )
+    ).toBeNull()
+  })
+
+  it('сумма не совпадает → ошибка с текущей суммой', () => {
+    expect(
+      rule(
+        60,
+        { items: [{ percent: 60 }, { percent: 30 }, { percent: '' }] },
+        meta
+      )
+    ).toBe('Total must be 100 (now 90)')
+  })
+
+  it('работает на обычном поле', () => {
+    const total = sumOf('items.*.amount', 10)
+    expect(
+      total(
+        'x',
+        { items: [{ amount: 4 }, { amount: 5 }] },
+        { fieldPath: 'total' }
+      )
+    ).toBe('Total must be 10 (now 9)')
+  })
+})
+
 describe('requiredIf', () => {
   const rule = requiredIf('type', 'business', 'Укажите компанию')
 
@@ -396,6 +983,31 @@ describe('remote', () => {
     vi.useRealTimers()
   })
 
+  it('передаёт AbortSignal из meta в checkFn', async () => {
+    vi.useFakeTimers()
+    const check = vi.fn(async (_v: string, _signal?: AbortSignal) => false)
+    const rule = remote(check, 'Занято', 50)
+    const controller = new AbortController()
+
+    const p = rule('name', {}, { signal: controller.signal }) as Promise<any>
+    vi.advanceTimersByTime(50)
+    expect(await p).toBe('Занято')
+    expect(check).toHaveBeenCalledWith('name', controller.signal)
+
+    const aborted = rule(
+      'other',
+      {},
+      {
+        signal: controller.signal,
+      }
+    ) as Promise<any>
+    controller.abort()
+    vi.advanceTimersByTime(50)
+    expect(await aborted).toBeNull()
+    expect(check).toHaveBeenCalledOnce()
+    vi.useRealTimers()
+  })
+
   it('пустые значения не триггерят проверку', async () => {
     const check = vi.fn(async () => false)
     const rule = remote(check, 'err', 0)
@@ -405,3 +1017,84 @@ describe('remote', () => {
     expect(check).not.toHaveBeenCalled()
   })
 })
+
+describe('remote: кэш результатов', () => {
+  it('cache: true не повторяет проверку и сбрасывается invalidateRemote()', async () => {
+    const check = vi.fn(async (v: string) => v !== 'taken')
+    const first = remote(check, 'Занято', 0, { cache: true })
+    // Правило пересоздано (например, при смене локали) — кэш общий
+    const second = remote(check, 'Занято', 0, { cache: true })
+
+    expect(await first('taken', {})).toBe('Занято')
+    expect(await second('taken', {})).toBe('Занято')
+    expect(check).toHaveBeenCalledTimes(1)
+
+    invalidateRemote('taken')
+    expect(await second('taken', {})).toBe('Занято')
+    expect(check).toHaveBeenCalledTimes(2)
+    clearRemoteCache()
+  })
+
+  it('разные проверки одного значения не смешиваются', async () => {
+    const username = remote(async () => false, 'username', 0, { cache: true })
+    const email = remote(async () => true, 'email', 0, { cache: true })
+
+    expect(await username('john', {})).toBe('username')
+    expect(await email('john', {})).toBeNull()
+    clearRemoteCache()
+  })
+
+  it('ошибки сети не кэшируются', async () => {
+    const cache = createRemoteCache()
+    const check = vi
+      .fn<(_v: string) => Promise<boolean>>()
+      .mockRejectedValueOnce(new Error('offline'))
+      .mockResolvedValue(true)
+    const rule = remote(check, 'err', 0, { cache })
+
+    expect(await rule('a', {})).toBeNull()
+    expect(cache.size).toBe(0)
+    expect(await rule('a', {})).toBeNull()
+    expect(cache.size).toBe(1)
+    expect(check).toHaveBeenCalledTimes(2)
+  })
+
+  it('createRemoteCache ограничивает размер и время жизни', () => {
+    vi.useFakeTimers()
+    const cache = createRemoteCache({ max: 2, ttl: 1000 })
+    cache.set('s', 'a', true)
+    cache.set('s', 'b', false)
+    expect(cache.get('s', 'a')).toBe(true)
+    cache.set('s', 'c', true)
+    // 'b' использовался давнее всех
+    expect(cache.get('s', 'b')).toBeUndefined()
+    expect(cache.size).toBe(2)
+
+    vi.advanceTimersByTime(1000)
+    expect(cache.get('s', 'a')).toBeUndefined()
+    expect(cache.get('s', 'c')).toBeUndefined()
+    expect(cache.size).toBe(0)
+    vi.useRealTimers()
+  })
+
+  it('кэш разделяется между формами по опции key', async () => {
+    const cache = createRemoteCache()
+    const check = vi.fn(async (_v: string) => true)
+    const formA = remote(async v => check(v), undefined, 0, {
+      cache,
+      key: 'username',
+    })
+    const formB = remote(async v => check(v), undefined, 0, {
+      cache,
+      key: 'username',
+    })
+
+    await formA('john', {})
+    await formB('john', {})
+    expect(check).toHaveBeenCalledTimes(1)
+
+    cache.invalidate('john', 'username')
+    await formB('john', {})
+    expect(check).toHaveBeenCalledTimes(2)
+  })
+})
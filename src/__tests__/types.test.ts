@@ -5,6 +5,8 @@ import {
   createForm as createFormPublic,
   createRules,
   type Rule,
+  type NestedPaths,
+  type PathValue,
 } from '../forms/index'
 import { required, between } from '../rules/basic'
 import { arrayMinLength } from '../rules/array'
@@ -151,6 +153,84 @@ describe('arrayPath / objectPath: возвращаемый тип', () => {
   })
 })
 
+describe('NestedPaths: произвольная глубина', () => {
+  const makeDeep = () =>
+    scope.run(() =>
+      createForm({
+        initialValues: {
+          orders: [{ id: 1, items: [{ sku: '', qty: 0 }] }],
+          profile: { address: { geo: { lat: 0, lng: 0 } } },
+          prices: {} as Record<string, number>,
+          avatar: null as File | null,
+          birthDate: new Date(),
+        },
+      })
+    )!
+
+  it('принимает глубокие пути в массивах и объектах', () => {
+    const form = makeDeep()
+    form.error('orders.0.items.3.sku')
+    form.hasError('profile.address.geo.lat')
+    form.validateField('orders.1.items.0.qty')
+    form.hasError('prices.usd')
+
+    // @ts-expect-error — несуществующее свойство на глубине
+    form.error('orders.0.items.3.price')
+
+    // @ts-expect-error — индекс массива должен быть числом
+    form.error('orders.first.items')
+
+    // @ts-expect-error — внутрь File и Date пути не строятся
+    form.error('avatar.name')
+
+    // @ts-expect-error — внутрь File и Date пути не строятся
+    form.error('birthDate.getTime')
+  })
+
+  it('arrayPath / objectPath принимают вложенные пути', () => {
+    const form = makeDeep()
+    const itemPath = form.arrayPath('orders.0.items', 3, 'sku')
+    expectTypeOf(itemPath).toEqualTypeOf<`orders.0.items.${number}.sku`>()
+    form.error(itemPath)
+
+    const geoPath = form.objectPath('profile.address.geo', 'lat')
+    expectTypeOf(geoPath).toEqualTypeOf<`profile.address.geo.lat`>()
+
+    // @ts-expect-error — несуществующее свойство элемента
+    form.arrayPath('orders.0.items', 0, 'price')
+
+    // @ts-expect-error — путь указывает не на массив
+    form.arrayPath('profile.address', 0, 'geo')
+  })
+
+  it('PathValue выводит тип значения по пути', () => {
+    type Values = {
+      orders: { items: { sku: string; qty: number }[] }[]
+      profile: { address: { geo: { lat: number } } }
+      tags: string[]
+    }
+    expectTypeOf<
+      PathValue<Values, 'orders.0.items.2.sku'>
+    >().toEqualTypeOf<string>()
+    expectTypeOf<PathValue<Values, 'profile.address.geo'>>().toEqualTypeOf<{
+      lat: number
+    }>()
+    expectTypeOf<PathValue<Values, 'tags.0'>>().toEqualTypeOf<string>()
+    expectTypeOf<PathValue<Values, 'orders.0.nope'>>().toBeNever()
+  })
+
+  it('рекурсивные типы ограничены по глубине и не зацикливают компилятор', () => {
+    interface TreeNode {
+      name: string
+      children: TreeNode[]
+    }
+    type Paths = NestedPaths<{ root: TreeNode }>
+
+    expectTypeOf<'root.children.0.children.1.name'>().toMatchTypeOf<Paths>()
+    expectTypeOf<'root.children.0.children.0.children.0.children.0.name'>().not.toMatchTypeOf<Paths>()
+  })
+})
+
 describe('setRules принимает Partial правил', () => {
   it('принимает правила для подмножества полей', () => {
     const form = make()
@@ -5,7 +5,13 @@ import { debounce } from '../utils/debounce'
 import {
   setNestedValue,
   getNestedValue,
+  expandWildcardPath,
   expandWildcardPaths,
+  remapArrayKeys,
+  matchesWildcardPath,
+  pathsOverlap,
+  resolveSiblingWildcard,
+  resolveWildcard,
 } from '../utils/nested'
 import {
   resolveMessage,
@@ -13,6 +19,7 @@ import {
   formatFileSize,
   defineRules,
 } from '../utils/helpers'
+import { parseDate, formatDate } from '../utils/date'
 import { normalizeFormRules } from '../forms/normalizeRules'
 
 describe('deepEqual', () => {
@@ -166,6 +173,38 @@ describe('expandWildcardPaths', () => {
     ])
   })
 
+  it('раскрывает несколько * по вложенным массивам', () => {
+    const result = expandWildcardPaths(
+      { 'orders.*.items.*.qty': [rule] },
+      { orders: [{ items: [{}, {}] }, { items: [] }, { items: [{}] }] }
+    )
+    expect(Object.keys(result)).toEqual([
+      'orders.0.items.0.qty',
+      'orders.0.items.1.qty',
+      'orders.2.items.0.qty',
+    ])
+  })
+
+  it('раскрывает * по ключам объекта-словаря', () => {
+    const result = expandWildcardPaths(
+      { 'prices.*': [rule], 'groups.*.members.*': [rule] },
+      { prices: { usd: 1, eur: 2 }, groups: { a: { members: ['x'] } } }
+    )
+    expect(Object.keys(result)).toEqual([
+      'prices.usd',
+      'prices.eur',
+      'groups.a.members.0',
+    ])
+  })
+
+  it('не раскрывает * внутри Date и File', () => {
+    const result = expandWildcardPaths(
+      { 'date.*': [rule] },
+      { date: new Date() }
+    )
+    expect(Object.keys(result)).toEqual([])
+  })
+
   it('пустой/отсутствующий массив — ничего не раскрывает', () => {
     expect(
       Object.keys(expandWildcardPaths({ 'a.*.x': [rule] }, { a: [] }))
@@ -176,6 +215,66 @@ describe('expandWildcardPaths', () => {
   })
 })
 
+describe('matchesWildcardPath / pathsOverlap / resolveWildcard', () => {
+  it('* соответствует индексу или ключу объекта', () => {
+    expect(
+      matchesWildcardPath('orders.*.items.*.qty', 'orders.0.items.2.qty')
+    ).toBe(true)
+    expect(matchesWildcardPath('prices.*', 'prices.usd')).toBe(true)
+    expect(matchesWildcardPath('orders.*.qty', 'orders.0.items.2.qty')).toBe(
+      false
+    )
+  })
+
+  it('pathsOverlap учитывает вложенность в обе стороны', () => {
+    expect(pathsOverlap('orders.*.qty', 'orders')).toBe(true)
+    expect(pathsOverlap('orders', 'orders.1.qty')).toBe(true)
+    expect(pathsOverlap('orders.*.qty', 'orders.1.qty')).toBe(true)
+    expect(pathsOverlap('orders.*.qty', 'orders.1.price')).toBe(false)
+    expect(pathsOverlap('orders', 'order')).toBe(false)
+  })
+
+  it('resolveWildcard подставляет несколько сегментов по позиции', () => {
+    expect(
+      resolveWildcard('orders.*.items.*.price', 'orders.1.items.2.qty')
+    ).toBe('orders.1.items.2.price')
+    expect(resolveWildcard('prices.*', 'prices.usd')).toBe('prices.usd')
+  })
+
+  it('resolveSiblingWildcard оставляет последний wildcard для всех соседей', () => {
+    expect(
+      resolveSiblingWildcard('participants.*.email', 'participants.2.email')
+    ).toBe('participants.*.email')
+    expect(
+      resolveSiblingWildcard('orders.*.items.*.sku', 'orders.1.items.2.sku')
+    ).toBe('orders.1.items.*.sku')
+    expect(
+      expandWildcardPath('orders.1.items.*.sku', {
+        orders: [{ items: [{}] }, { items: [{}, {}] }],
+      })
+    ).toEqual(['orders.1.items.0.sku', 'orders.1.items.1.sku'])
+  })
+})
+
+describe('remapArrayKeys', () => {
+  it('переносит ключи на новые индексы и удаляет null', () => {
+    const record: Record<string, string> = {
+      contacts: 'array',
+      'contacts.0.email': 'a',
+      'contacts.1.email': 'b',
+      'contacts.2': 'c',
+      'other.0.x': 'd',
+    }
+    remapArrayKeys(record, 'contacts', i => (i === 0 ? null : i - 1))
+    expect(record).toEqual({
+      contacts: 'array',
+      'contacts.0.email': 'b',
+      'contacts.1': 'c',
+      'other.0.x': 'd',
+    })
+  })
+})
+
 describe('debounce', () => {
   it('вызывает функцию после задержки', async () => {
     vi.useFakeTimers()
@@ -204,6 +303,79 @@ describe('debounce', () => {
     expect(fn).toHaveBeenCalledTimes(1)
     vi.useRealTimers()
   })
+
+  it('AbortSignal последним аргументом отменяет ожидающий вызов', async () => {
+    vi.useFakeTimers()
+    const fn = vi.fn(async (x: number, _signal?: AbortSignal) => x)
+    const d = debounce(fn, 100)
+
+    const controller = new AbortController()
+    const pending = d(1, controller.signal)
+    controller.abort()
+    await expect(pending).rejects.toThrow('Debounce aborted')
+    await expect(d(2, controller.signal)).rejects.toThrow('Debounce aborted')
+
+    const next = new AbortController()
+    const p = d(3, next.signal)
+    vi.advanceTimersByTime(100)
+    expect(await p).toBe(3)
+    expect(fn).toHaveBeenCalledOnce()
+    expect(fn).toHaveBeenCalledWith(3, next.signal)
+    vi.useRealTimers()
+  })
+})
+
+describe('parseDate / formatDate', () => {
+  it('разбирает дату по токенам формата', () => {
+    expect(parseDate('31.12.2024', 'DD.MM.YYYY')).toEqual(
+      new Date(2024, 11, 31)
+    )
+    expect(parseDate('12/31/2024', 'MM/DD/YYYY')).toEqual(
+      new Date(2024, 11, 31)
+    )
+    expect(parseDate(' 2024-01-05 ', 'YYYY-MM-DD')).toEqual(
+      new Date(2024, 0, 5)
+    )
+    expect(parseDate('5.1.2024', 'D.M.YYYY')).toEqual(new Date(2024, 0, 5))
+    expect(parseDate('0050-06-01', 'YYYY-MM-DD')!.getFullYear()).toBe(50)
+  })
+
+  it('строго проверяет календарь и разделители', () => {
+    expect(parseDate('31.02.2024', 'DD.MM.YYYY')).toBeNull()
+    expect(parseDate('29.02.2023', 'DD.MM.YYYY')).toBeNull()
+    expect(parseDate('29.02.2024', 'DD.MM.YYYY')).not.toBeNull()
+    expect(parseDate('00.01.2024', 'DD.MM.YYYY')).toBeNull()
+    expect(parseDate('01.13.2024', 'DD.MM.YYYY')).toBeNull()
+    expect(parseDate('1.1.2024', 'DD.MM.YYYY')).toBeNull()
+    expect(parseDate('31-12-2024', 'DD.MM.YYYY')).toBeNull()
+    expect(parseDate('2024-12-31', 'DD.MM.YYYY')).toBeNull()
+  })
+
+  it('поддерживает время и необязательные части', () => {
+    const format = 'DD.MM.YYYY[ HH:mm[:ss]]'
+    expect(parseDate('31.12.2024', format)).toEqual(new Date(2024, 11, 31))
+    expect(parseDate('31.12.2024 18:30', format)).toEqual(
+      new Date(2024, 11, 31, 18, 30)
+    )
+    expect(parseDate('31.12.2024 18:30:15', format)).toEqual(
+      new Date(2024, 11, 31, 18, 30, 15)
+    )
+    expect(parseDate('31.12.2024 24:00', format)).toBeNull()
+    expect(parseDate('31.12.2024 18:60', format)).toBeNull()
+    expect(parseDate('31.12.2024 18', format)).toBeNull()
+  })
+
+  it('проверяет список форматов по порядку', () => {
+    const formats = ['DD.MM.YYYY', 'YYYY-MM-DD']
+    expect(parseDate('2024-12-31', formats)).toEqual(new Date(2024, 11, 31))
+    expect(parseDate('12/31/2024', formats)).toBeNull()
+  })
+
+  it('formatDate опускает необязательные части', () => {
+    const date = new Date(2024, 0, 5, 9, 7)
+    expect(formatDate(date, 'DD.MM.YYYY[ HH:mm]')).toBe('05.01.2024')
+    expect(formatDate(date, 'D/M/YYYY H:mm')).toBe('5/1/2024 9:07')
+  })
 })
 
 describe('resolveMessage', () => {
@@ -0,0 +1,52 @@
+import { inject, provide, type InjectionKey } from 'vue'
+import type { FormInstance } from './types'
+
+/**
+ * Ключ контекста формы. Типизированный ключ позволяет useFormContext
+ * вывести тип значений без явного указания дженерика
+ */
+export type FormContextKey<T extends Record<string, any>> = InjectionKey<
+  FormInstance<T>
+>
+
+const DEFAULT_FORM_KEY: FormContextKey<any> = Symbol('vue-form-validator:form')
+
+/**
+ * Создаёт отдельный ключ контекста, например для нескольких вложенных форм
+ * @param description - Описание символа для отладки
+ */
+export function createFormContextKey<T extends Record<string, any>>(
+  description = 'vue-form-validator:form'
+): FormContextKey<T> {
+  return Symbol(description)
+}
+
+/**
+ * Передаёт экземпляр формы вложенным компонентам
+ * @param form - Экземпляр формы
+ * @param key - Ключ контекста (по умолчанию общий ключ форм)
+ */
+export function provideForm<T extends Record<string, any>>(
+  form: FormInstance<T>,
+  key: FormContextKey<T> = DEFAULT_FORM_KEY
+): FormInstance<T> {
+  provide(key, form)
+  return form
+}
+
+/**
+ * Получает экземпляр формы, переданный через provideForm
+ * @param key - Ключ контекста (по умолчанию общий ключ форм)
+ * @throws Error если форма не была передана родительским компонентом
+ */
+export function useFormContext<T extends Record<string, any>>(
+  key: FormContextKey<T> = DEFAULT_FORM_KEY
+): FormInstance<T> {
+  const form = inject(key, null)
+  if (!form) {
+    throw new Error(
+      'useFormContext() must be called inside a component whose ancestor called provideForm()'
+    )
+  }
+  return form
+}
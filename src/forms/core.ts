@@ -1,18 +1,45 @@
-import { nextTick, effectScope, onScopeDispose, getCurrentScope } from 'vue'
-import type { FormOptions, NestedPaths, FormInstance, FormRules } from './types'
+import {
+  nextTick,
+  effectScope,
+  onScopeDispose,
+  getCurrentScope,
+  watch,
+} from 'vue'
+import type {
+  FormOptions,
+  NestedPaths,
+  FormInstance,
+  FormRules,
+  SubmitResult,
+  SubmitReturn,
+} from './types'
 import { FormStateManager } from '../validation/state'
 import { ValidationManager } from '../validation/manager'
 import { createFileHelpers } from '../utils/fileHelpers'
 import { normalizeFormRules } from './normalizeRules'
 import { useFieldWatchers } from './useFieldWatchers'
 import { useArrayHelpers } from './useArrayHelpers'
+import { useValidationTriggers } from './useValidationTriggers'
+import { usePersistence } from './usePersistence'
+import { useHistory } from './useHistory'
+import { useErrorSummary } from './useErrorSummary'
+import { useRuleMeta } from './useRuleMeta'
+import { getLocale, getMessages } from '../messages/catalog'
+import { getFormDefaults } from './defaults'
 
 /**
  * Создает универсальную форму с поддержкой как простых, так и вложенных полей
  */
 export function createForm<T extends Record<string, any>>(
-  options: FormOptions<T>
+  formOptions: FormOptions<T>
 ): FormInstance<T> {
+  const defaults = getFormDefaults()
+  const options: FormOptions<T> = {
+    ...formOptions,
+    validateOn: formOptions.validateOn ?? defaults.validateOn,
+    revalidateOn: formOptions.revalidateOn ?? defaults.revalidateOn,
+  }
+
   // Создаём собственный effectScope для автоматической очистки watchers/computed
   // при уничтожении родительского scope (например, при unmount компонента)
   const parentScope = getCurrentScope()
@@ -23,8 +50,11 @@ export function createForm<T extends Record<string, any>>(
     const validationManager = new ValidationManager<T>(
       stateManager.values,
       stateManager.errors,
-      stateManager.isValidating
+      stateManager.isValidating,
+      stateManager.warnings
     )
+    const triggers = useValidationTriggers(options, stateManager)
+    const ruleMeta = useRuleMeta(stateManager, validationManager)
 
     // --- Validation methods ---
 
@@ -32,6 +62,20 @@ export function createForm<T extends Record<string, any>>(
       const normalized = normalizeFormRules<T, FormRules<T>>(rules)
       validationManager.setRules(normalized)
       stateManager.setRules(normalized as any)
+      ruleMeta.setRules(normalized as any)
+      validateOnMount()
+    }
+
+    /**
+     * Валидирует поля в режиме 'mount' сразу после установки правил
+     */
+    function validateOnMount() {
+      if (stateManager.isSubmitted.value) return
+      for (const field of validationManager.getRuleFields()) {
+        if (triggers.validatesOnMount(field)) {
+          void validateField(field as any)
+        }
+      }
     }
 
     async function validateField<K extends keyof T>(name: K): Promise<string[]>
@@ -48,15 +92,60 @@ export function createForm<T extends Record<string, any>>(
       return validationManager.validateForm(stateManager.touched)
     }
 
-    async function submit(): Promise<void> {
-      if (stateManager.isSubmitting.value) return
+    /**
+     * Снимок непустых ошибок формы
+     */
+    function collectErrors(): Record<string, string[]> {
+      const collected: Record<string, string[]> = {}
+      for (const [key, list] of Object.entries(stateManager.errors)) {
+        if (list?.length) collected[key] = [...list]
+      }
+      return collected
+    }
+
+    async function submit(): Promise<SubmitResult<T>> {
+      if (stateManager.isSubmitting.value) return { status: 'skipped' }
       stateManager.isSubmitting.value = true
+      stateManager.submitCount.value++
+      stateManager.submitSucceeded.value = false
+      stateManager.lastSubmitError.value = null
       try {
         const isValid = await validateForm()
-        if (isValid && options.onSubmit) {
+        if (!isValid) {
+          const errors = collectErrors()
+          await options.onInvalidSubmit?.(errors)
+          if (options.focusOnError) {
+            await nextTick()
+            summary.focusFirstError(options.focusOnError)
+          }
+          return { status: 'invalid', errors }
+        }
+
+        const values = stateManager.getValues()
+        if (options.onSubmit) {
           await nextTick()
-          await options.onSubmit(stateManager.getValues())
+          let response: void | SubmitReturn<T>
+          try {
+            response = await options.onSubmit(values)
+          } catch (error) {
+            stateManager.lastSubmitError.value = error
+            return { status: 'error', error }
+          }
+          // onSubmit вернул серверные ошибки — применяем как setErrors
+          if (response?.errors && Object.keys(response.errors).length > 0) {
+            stateManager.setErrors(response.errors)
+            const errors = collectErrors()
+            if (Object.keys(errors).length > 0) {
+              return { status: 'server-error', errors }
+            }
+          }
         }
+
+        stateManager.submitSucceeded.value = true
+        if (options.persist && options.persist.clearOnSubmit !== false) {
+          await persistence.draft.clear()
+        }
+        return { status: 'success', values }
       } finally {
         stateManager.isSubmitting.value = false
       }
@@ -66,7 +155,16 @@ export function createForm<T extends Record<string, any>>(
     function touch<P extends NestedPaths<T>>(path: P): void
     function touch(key: keyof T | NestedPaths<T>): void {
       stateManager.touched[key as string] = true
-      void validateField(key as any)
+      if (triggers.validatesOnTouch(key as string)) {
+        void validateField(key as any)
+      }
+    }
+
+    function setValues(newValues: Partial<T>) {
+      Object.keys(newValues).forEach(key => {
+        validationManager.clearCache(key)
+      })
+      stateManager.setValues(newValues)
     }
 
     // --- Composables ---
@@ -74,21 +172,50 @@ export function createForm<T extends Record<string, any>>(
     const { stopAll } = useFieldWatchers(
       stateManager,
       validationManager,
-      validateField
+      validateField,
+      triggers
     )
+    // Черновик восстанавливается до создания истории и становится её начальной точкой
+    const persistence = usePersistence(options.persist, stateManager, setValues)
+    const history = useHistory(options.history, stateManager, setValues)
     const arrays = useArrayHelpers(
       stateManager,
       validationManager,
-      validateField
+      validateField,
+      triggers,
+      history.transaction
     )
     const stateRefs = stateManager.getStateRefs()
+    const summary = useErrorSummary(options, stateManager)
+
+    // Сообщения каталога зависят от локали: при её смене обновляем показанные ошибки
+    watch(
+      () => [getLocale(), getMessages()],
+      () => {
+        const fields = Object.keys({
+          ...stateManager.errors,
+          ...stateManager.warnings,
+        }).filter(
+          key =>
+            stateManager.errors[key]?.length ||
+            stateManager.warnings[key]?.length
+        )
+        if (fields.length === 0) return
+        validationManager.clearCache()
+        fields.forEach(field => void validateField(field as any))
+      }
+    )
     const fileHelpers = createFileHelpers({
       values: stateRefs.values,
       touch: (field: any) => touch(field),
-      validateField: (field: any) => validateField(field),
+      validateField: (field: any) =>
+        triggers.validatesOnTouch(field)
+          ? validateField(field)
+          : Promise.resolve(stateManager.allErrors(field)),
     })
 
     function dispose() {
+      persistence.stop()
       stopAll()
       validationManager.dispose()
       scope.stop()
@@ -100,6 +227,7 @@ export function createForm<T extends Record<string, any>>(
       // Reactive state refs
       values: stateRefs.values as import('vue').Ref<T>,
       errors: stateRefs.errors,
+      warnings: stateRefs.warnings,
       touched: stateRefs.touched,
       dirty: stateRefs.dirty,
       isValidating: stateRefs.isValidating,
@@ -111,6 +239,10 @@ export function createForm<T extends Record<string, any>>(
       touchedFields: stateManager.touchedFields,
       dirtyFields: stateManager.dirtyFields,
       isSubmitting: stateManager.isSubmitting,
+      submitCount: stateManager.submitCount,
+      isSubmitted: stateManager.isSubmitted,
+      submitSucceeded: stateManager.submitSucceeded,
+      lastSubmitError: stateManager.lastSubmitError,
 
       // Validation
       setRules,
@@ -129,18 +261,14 @@ export function createForm<T extends Record<string, any>>(
         validationManager.abortAll()
         validationManager.clearCache()
         stateManager.reset(newValues)
+        history.clearHistory()
       },
       resetState: () => {
         validationManager.abortAll()
         validationManager.clearCache()
         stateManager.resetState()
       },
-      setValues: (newValues: Partial<T>) => {
-        Object.keys(newValues).forEach(key => {
-          validationManager.clearCache(key)
-        })
-        stateManager.setValues(newValues)
-      },
+      setValues,
       getValues: stateManager.getValues.bind(stateManager),
       setErrors: stateManager.setErrors.bind(stateManager),
       resetErrors: () => {
@@ -153,11 +281,37 @@ export function createForm<T extends Record<string, any>>(
       hasError: stateManager.hasError.bind(stateManager),
       error: stateManager.error.bind(stateManager),
       allErrors: stateManager.allErrors.bind(stateManager),
+      hasWarning: stateManager.hasWarning.bind(stateManager),
+      warning: stateManager.warning.bind(stateManager),
       isTouched: stateManager.isTouched.bind(stateManager),
       validating: stateManager.validating.bind(stateManager),
       isFieldDirty: stateManager.isFieldDirty.bind(stateManager),
       getFieldStatus: stateManager.getFieldStatus.bind(stateManager),
 
+      // Rule metadata
+      describe: ruleMeta.describe,
+      attrs: ruleMeta.attrs,
+      strength: ruleMeta.strength,
+      failedItems: ruleMeta.failedItems,
+      cardBrand: ruleMeta.cardBrand,
+
+      // Error summary
+      errorSummary: summary.errorSummary,
+      registerField: summary.registerField,
+      fieldRef: summary.fieldRef,
+      focusFirstError: summary.focusFirstError,
+
+      // History
+      canUndo: history.canUndo,
+      canRedo: history.canRedo,
+      undo: history.undo,
+      redo: history.redo,
+      checkpoint: history.checkpoint,
+      clearHistory: history.clearHistory,
+
+      // Draft persistence
+      draft: persistence.draft,
+
       // File helpers
       file: fileHelpers as import('../utils/fileHelpers').FileHelpers<T>,
 
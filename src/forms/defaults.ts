@@ -0,0 +1,43 @@
+import type { RevalidationTrigger, ValidationTrigger } from './types'
+import type { DateFormat } from '../utils/date'
+
+/**
+ * Настройки по умолчанию для всех форм приложения
+ */
+export interface FormDefaults {
+  /** Режим валидации до первого submit() */
+  validateOn?: ValidationTrigger
+  /** Режим ревалидации после первого submit() */
+  revalidateOn?: RevalidationTrigger
+  /** Задержка дебаунса remote() в миллисекундах */
+  remoteDelay?: number
+  /**
+   * Формат строковых дат для правил дат, например 'DD.MM.YYYY'.
+   * Список форматов проверяется по порядку; без формата строки читаются как ISO
+   */
+  dateFormat?: DateFormat | DateFormat[]
+}
+
+const DEFAULT_REMOTE_DELAY = 400
+
+const formDefaults: FormDefaults = {}
+
+/**
+ * Задаёт настройки по умолчанию. Опции createForm и аргументы правил имеют приоритет
+ * @param defaults - Настройки; undefined сбрасывает значение
+ */
+export function setFormDefaults(defaults: FormDefaults) {
+  Object.assign(formDefaults, defaults)
+}
+
+/**
+ * Возвращает текущие настройки по умолчанию
+ */
+export function getFormDefaults(): Readonly<
+  FormDefaults & { remoteDelay: number }
+> {
+  return {
+    ...formDefaults,
+    remoteDelay: formDefaults.remoteDelay ?? DEFAULT_REMOTE_DELAY,
+  }
+}
@@ -108,11 +108,35 @@ export type {
   FormInstance,
   FormRules,
   NestedPaths,
+  PathValue,
   FormOptions,
+  FieldErrors,
+  SubmitReturn,
+  SubmitResult,
+  ValidationTrigger,
+  RevalidationTrigger,
+  FieldTriggerOptions,
   Rule,
   RuleChain,
   FieldStatus,
+  PersistOptions,
+  DraftControls,
+  HistoryOptions,
+  ErrorSummaryItem,
+  FieldElement,
+  FocusScrollOptions,
+  RuleDescriptor,
+  FieldAttrs,
+  FieldStrength,
 } from './types'
 
+// Плагин, настройки по умолчанию и контекст формы
+export { FormValidatorPlugin } from './plugin'
+export type { FormValidatorOptions } from './plugin'
+export { setFormDefaults, getFormDefaults } from './defaults'
+export type { FormDefaults } from './defaults'
+export { provideForm, useFormContext, createFormContextKey } from './context'
+export type { FormContextKey } from './context'
+
 // Экспортируем функции создания правил
 export { createRules } from '../rules'
@@ -0,0 +1,40 @@
+import type { Plugin } from 'vue'
+import type { FormDefaults } from './defaults'
+import { setFormDefaults } from './defaults'
+import { registerRules, type RuleFactory } from '../rules/builders'
+import {
+  registerMessages,
+  setLocale,
+  type MessagePack,
+} from '../messages/catalog'
+
+/**
+ * Опции плагина FormValidatorPlugin
+ */
+export interface FormValidatorOptions extends FormDefaults {
+  /** Локаль сообщений каталога */
+  locale?: string
+  /** Пакеты сообщений по локалям, дополняют встроенные */
+  messages?: Record<string, MessagePack>
+  /** Пользовательские правила, доступные в createRules() и цепочках */
+  rules?: Record<string, RuleFactory>
+}
+
+/**
+ * Vue-плагин с настройками по умолчанию для всех форм приложения
+ * @example
+ * app.use(FormValidatorPlugin, { validateOn: 'input', remoteDelay: 300, locale: 'ru' })
+ */
+export const FormValidatorPlugin: Plugin<[FormValidatorOptions?]> = {
+  install(_app, options = {}) {
+    const { locale, messages, rules, ...defaults } = options
+    setFormDefaults(defaults)
+    if (messages) {
+      Object.entries(messages).forEach(([code, pack]) =>
+        registerMessages(code, pack)
+      )
+    }
+    if (locale) setLocale(locale)
+    if (rules) registerRules(rules)
+  },
+}
@@ -1,4 +1,23 @@
 import type { MaybeRefOrGetter } from 'vue'
+import type { StorageAdapter } from '../utils/storage'
+import type { RemoteOptions } from '../rules/advanced'
+import type { UrlOptions, UuidVersion } from '../rules/string'
+import type {
+  CardBrand,
+  CreditCardOptions,
+  IsbnVersion,
+} from '../rules/checksum'
+import type { IinOptions, TaxpayerType } from '../rules/regional'
+import type { PhoneOptions } from '../rules/phone'
+import type { PasswordPolicy, PasswordStrength } from '../rules/password'
+import type { ArrayItemKey } from '../rules/array'
+import type {
+  DateBoundary,
+  DateFormat,
+  DateInput,
+  DateRuleOptions,
+} from '../rules/date'
+import type { CustomRuleChainHelpers } from '../index'
 
 /**
  * Тип функции правила валидации
@@ -10,6 +29,16 @@ import type { MaybeRefOrGetter } from 'vue'
 export interface RuleMeta {
   /** Конкретный путь поля, например 'contacts.0.email' */
   fieldPath?: string
+  /**
+   * Отменяется, когда результат правила больше не нужен: новая валидация поля,
+   * clear()/reset()/dispose(). Передавайте его в fetch и другие асинхронные операции
+   */
+  signal?: AbortSignal
+  /**
+   * Оценка надёжности значения, посчитанная ValidationManager для поля
+   * с правилом password(); правило использует её вместо повторного расчёта
+   */
+  strength?: PasswordStrength
 }
 
 export type Rule<T = any> = (
@@ -43,6 +72,69 @@ export interface SimpleRuleChainHelpers {
     _max: number,
     _msg?: MaybeRefOrGetter<string>
   ): RuleChain<string | number>
+  integer(_msg?: MaybeRefOrGetter<string>): RuleChain<string | number>
+  positive(_msg?: MaybeRefOrGetter<string>): RuleChain<string | number>
+  negative(_msg?: MaybeRefOrGetter<string>): RuleChain<string | number>
+  nonNegative(_msg?: MaybeRefOrGetter<string>): RuleChain<string | number>
+  multipleOf(
+    _step: number,
+    _msg?: MaybeRefOrGetter<string>
+  ): RuleChain<string | number>
+  decimalPlaces(
+    _max: number,
+    _msg?: MaybeRefOrGetter<string>
+  ): RuleChain<string | number>
+  safeInteger(_msg?: MaybeRefOrGetter<string>): RuleChain<string | number>
+  url(_options?: UrlOptions, _msg?: MaybeRefOrGetter<string>): RuleChain<string>
+  uuid(
+    _version?: UuidVersion,
+    _msg?: MaybeRefOrGetter<string>
+  ): RuleChain<string>
+  ipv4(_msg?: MaybeRefOrGetter<string>): RuleChain<string>
+  ipv6(_msg?: MaybeRefOrGetter<string>): RuleChain<string>
+  alpha(_msg?: MaybeRefOrGetter<string>): RuleChain<string>
+  alphaNum(_msg?: MaybeRefOrGetter<string>): RuleChain<string>
+  slug(_msg?: MaybeRefOrGetter<string>): RuleChain<string>
+  hexColor(_msg?: MaybeRefOrGetter<string>): RuleChain<string>
+  startsWith(
+    _prefix: string,
+    _msg?: MaybeRefOrGetter<string>
+  ): RuleChain<string>
+  endsWith(_suffix: string, _msg?: MaybeRefOrGetter<string>): RuleChain<string>
+  contains(
+    _substring: string,
+    _msg?: MaybeRefOrGetter<string>
+  ): RuleChain<string>
+  noWhitespace(_msg?: MaybeRefOrGetter<string>): RuleChain<string>
+  length(_exact: number, _msg?: MaybeRefOrGetter<string>): RuleChain<string>
+  creditCard(
+    _options?: CreditCardOptions,
+    _msg?: MaybeRefOrGetter<string>
+  ): RuleChain<string>
+  iban(
+    _countries?: string[],
+    _msg?: MaybeRefOrGetter<string>
+  ): RuleChain<string>
+  isbn(
+    _version?: IsbnVersion,
+    _msg?: MaybeRefOrGetter<string>
+  ): RuleChain<string>
+  ean(_msg?: MaybeRefOrGetter<string>): RuleChain<string>
+  gtin(_msg?: MaybeRefOrGetter<string>): RuleChain<string>
+  bic(_msg?: MaybeRefOrGetter<string>): RuleChain<string>
+  iin(_options?: IinOptions, _msg?: MaybeRefOrGetter<string>): RuleChain<string>
+  bin(_msg?: MaybeRefOrGetter<string>): RuleChain<string>
+  inn(_type?: TaxpayerType, _msg?: MaybeRefOrGetter<string>): RuleChain<string>
+  snils(_msg?: MaybeRefOrGetter<string>): RuleChain<string>
+  ogrn(_type?: TaxpayerType, _msg?: MaybeRefOrGetter<string>): RuleChain<string>
+  phone(
+    _options?: PhoneOptions,
+    _msg?: MaybeRefOrGetter<string>
+  ): RuleChain<string>
+  password(
+    _policy?: PasswordPolicy,
+    _msg?: MaybeRefOrGetter<string>
+  ): RuleChain<string>
   fileRequired(_msg?: MaybeRefOrGetter<string>): RuleChain<File | File[] | null>
   fileSize(
     _maxBytes: number,
@@ -58,22 +150,79 @@ export interface SimpleRuleChainHelpers {
     _msg?: MaybeRefOrGetter<string>
   ): RuleChain<File[] | null>
   remote(
-    _checkFn: (_value: any) => Promise<boolean>,
+    _checkFn: (_value: any, _signal?: AbortSignal) => Promise<boolean>,
     _msg?: MaybeRefOrGetter<string>,
-    _delay?: number
+    _delay?: number,
+    _options?: RemoteOptions
   ): RuleChain<any>
   custom(
     _validator: (
       _value: any,
-      _values: Record<string, any>
+      _values: Record<string, any>,
+      _meta: RuleMeta
     ) => boolean | string | Promise<boolean | string>,
     _msg?: MaybeRefOrGetter<string>
   ): RuleChain<any>
   sameAs(_fieldName: string, _msg?: MaybeRefOrGetter<string>): RuleChain<any>
-  dateAfter(
-    _fieldName: string,
+  uniqueAmong(_pattern: string, _msg?: MaybeRefOrGetter<string>): RuleChain<any>
+  sumOf(
+    _pattern: string,
+    _target: number,
     _msg?: MaybeRefOrGetter<string>
-  ): RuleChain<string>
+  ): RuleChain<any>
+  date(
+    _format?: DateFormat | DateFormat[],
+    _msg?: MaybeRefOrGetter<string>
+  ): RuleChain<DateInput>
+  dateAfter(
+    _boundary: DateBoundary,
+    _msg?: MaybeRefOrGetter<string>,
+    _options?: DateRuleOptions
+  ): RuleChain<DateInput>
+  dateBefore(
+    _boundary: DateBoundary,
+    _msg?: MaybeRefOrGetter<string>,
+    _options?: DateRuleOptions
+  ): RuleChain<DateInput>
+  dateBetween(
+    _min: DateBoundary,
+    _max: DateBoundary,
+    _msg?: MaybeRefOrGetter<string>,
+    _options?: DateRuleOptions
+  ): RuleChain<DateInput>
+  notInPast(
+    _msg?: MaybeRefOrGetter<string>,
+    _options?: DateRuleOptions
+  ): RuleChain<DateInput>
+  notInFuture(
+    _msg?: MaybeRefOrGetter<string>,
+    _options?: DateRuleOptions
+  ): RuleChain<DateInput>
+  minAge(
+    _years: number,
+    _msg?: MaybeRefOrGetter<string>,
+    _options?: DateRuleOptions
+  ): RuleChain<DateInput>
+  maxAge(
+    _years: number,
+    _msg?: MaybeRefOrGetter<string>,
+    _options?: DateRuleOptions
+  ): RuleChain<DateInput>
+  weekday(
+    _msg?: MaybeRefOrGetter<string>,
+    _options?: DateRuleOptions
+  ): RuleChain<DateInput>
+  businessDay(
+    _holidays?: MaybeRefOrGetter<DateInput[]>,
+    _msg?: MaybeRefOrGetter<string>,
+    _options?: DateRuleOptions
+  ): RuleChain<DateInput>
+  maxRangeDays(
+    _startField: string,
+    _days: number,
+    _msg?: MaybeRefOrGetter<string>,
+    _options?: DateRuleOptions
+  ): RuleChain<DateInput>
   requiredIf(
     _conditionField: string,
     _conditionValue: any,
@@ -88,6 +237,15 @@ export interface SimpleRuleChainHelpers {
     _len: number,
     _msg?: MaybeRefOrGetter<string>
   ): RuleChain<any[]>
+  arrayUnique(
+    _by?: ArrayItemKey,
+    _msg?: MaybeRefOrGetter<string>
+  ): RuleChain<any[]>
+  arrayEach(
+    _rules: Rule<any> | RuleChain<any> | Array<Rule<any> | RuleChain<any>>,
+    _msg?: MaybeRefOrGetter<string>
+  ): RuleChain<any[]>
+  arrayContains(_value: any, _msg?: MaybeRefOrGetter<string>): RuleChain<any[]>
 }
 
 /**
@@ -96,11 +254,14 @@ export interface SimpleRuleChainHelpers {
  * @template T - Тип валидируемого значения
  */
 export type RuleChain<T = any> = Rule<T> &
-  SimpleRuleChainHelpers & {
+  SimpleRuleChainHelpers &
+  CustomRuleChainHelpers & {
     /** Внутренний массив правил цепочки */
     __rules: Rule<any>[]
     /** Добавляет дополнительные правила в цепочку */
     and(..._rules: Array<Rule<any> | RuleChain<any>>): RuleChain<T>
+    /** Помечает правила цепочки как неблокирующие предупреждения */
+    asWarning(): RuleChain<T>
     /** Возвращает массив всех правил цепочки */
     build(): Rule<any>[]
     /** Преобразует цепочку в массив правил */
@@ -126,6 +287,11 @@ export type RuleConfig<T = any> =
 export interface CrossFieldMeta {
   /** Поля, от которых зависит данное правило */
   dependsOn: string[]
+  /**
+   * Wildcard-пути, последний '*' в которых означает все соседние элементы, а не
+   * элемент проверяемого поля: 'participants.*.email' для уникальности среди участников
+   */
+  dependsOnAll?: string[]
 }
 
 /**
@@ -135,6 +301,178 @@ export interface CrossFieldRule<T = any> extends Rule<T> {
   __crossField: CrossFieldMeta
 }
 
+/**
+ * Описание правила: имя фабрики и её параметры ({ min: 3 } для minLength(3))
+ */
+export interface RuleDescriptor {
+  /** Имя фабрики; 'anonymous' для функций без метаданных */
+  name: string
+  params: Record<string, unknown>
+  /** Правило помечено asWarning() */
+  warning: boolean
+}
+
+/**
+ * Нативные атрибуты поля ввода, выведенные из правил
+ */
+export interface FieldAttrs {
+  required?: boolean
+  minlength?: number
+  maxlength?: number
+  pattern?: string
+  min?: number
+  max?: number
+  step?: number
+  accept?: string
+}
+
+/**
+ * Надёжность пароля для индикатора: form.strength('password')
+ */
+export interface FieldStrength extends PasswordStrength {
+  /** Подсказки на текущем языке в порядке hints */
+  messages: string[]
+}
+
+/**
+ * Момент запуска валидации поля
+ * - 'input' — при каждом изменении значения
+ * - 'blur' — при touch(), после чего touched поле ревалидируется при изменении
+ * - 'submit' — только при submit()/validateForm()
+ * - 'mount' — сразу при установке правил, далее как 'input'
+ */
+export type ValidationTrigger = 'input' | 'blur' | 'submit' | 'mount'
+
+/**
+ * Момент ревалидации поля после первого submit()
+ * - 'input' — при каждом изменении значения
+ * - 'blur' — только при touch()
+ * - 'submit' — только при следующем submit()
+ */
+export type RevalidationTrigger = Exclude<ValidationTrigger, 'mount'>
+
+/**
+ * Переопределение режимов валидации для отдельного поля
+ */
+export interface FieldTriggerOptions {
+  /** Режим валидации до первого submit() */
+  validateOn?: ValidationTrigger
+  /** Режим ревалидации после первого submit() */
+  revalidateOn?: RevalidationTrigger
+}
+
+/**
+ * Ошибки по путям полей (включая вложенные, например 'contacts.0.email')
+ * @template T - Тип значений формы
+ */
+export type FieldErrors<T> = Partial<Record<NestedPaths<T>, string[]>>
+
+/**
+ * Значение, которое может вернуть onSubmit для передачи серверных ошибок
+ * @template T - Тип значений формы
+ */
+export interface SubmitReturn<T> {
+  /** Ошибки, применяемые к форме как через setErrors */
+  errors?: FieldErrors<T>
+}
+
+/**
+ * Результат вызова submit()
+ * - 'success' — форма валидна, onSubmit завершился без ошибок
+ * - 'invalid' — клиентская валидация не прошла
+ * - 'server-error' — onSubmit вернул { errors }
+ * - 'error' — onSubmit выбросил исключение
+ * - 'skipped' — предыдущая отправка ещё выполняется
+ * @template T - Тип значений формы
+ */
+export type SubmitResult<T> =
+  | { status: 'success'; values: T }
+  | { status: 'invalid'; errors: Record<string, string[]> }
+  | { status: 'server-error'; errors: Record<string, string[]> }
+  | { status: 'error'; error: unknown }
+  | { status: 'skipped' }
+
+/**
+ * Настройки сохранения черновика формы
+ */
+export interface PersistOptions {
+  /** Ключ черновика в хранилище */
+  key: string
+  /** Хранилище (по умолчанию localStorage) */
+  storage?: StorageAdapter
+  /** Версия схемы данных черновика (по умолчанию 1) */
+  version?: number
+  /** Задержка сохранения после изменения в мс (по умолчанию 300) */
+  debounce?: number
+  /** Сохранять только эти пути (поддерживаются wildcard-паттерны) */
+  include?: string[]
+  /** Не сохранять эти пути (поддерживаются wildcard-паттерны) */
+  exclude?: string[]
+  /**
+   * Миграция черновика с другой версией схемы.
+   * Вернуть null, чтобы отбросить черновик. Без migrate такие черновики отбрасываются
+   */
+  migrate?: (
+    _oldVersion: number,
+    _data: Record<string, any>
+  ) => Record<string, any> | null | Promise<Record<string, any> | null>
+  /** Удалять черновик после успешного submit() (по умолчанию true) */
+  clearOnSubmit?: boolean
+}
+
+/**
+ * Управление черновиком формы
+ */
+export interface DraftControls {
+  /** Завершается после восстановления; true — черновик был применён */
+  ready: Promise<boolean>
+  /** Немедленно сохраняет черновик, не дожидаясь debounce */
+  save: () => Promise<void>
+  /** Удаляет черновик из хранилища */
+  clear: () => Promise<void>
+}
+
+/**
+ * Настройки истории значений для undo/redo
+ * - 'field' — последовательные правки одного поля объединяются в один шаг
+ * - 'manual' — шаги создаются только вызовом checkpoint()
+ */
+export interface HistoryOptions {
+  /** Максимальное количество шагов отмены (по умолчанию 50) */
+  depth?: number
+  /** Способ формирования шагов (по умолчанию 'field') */
+  mode?: 'field' | 'manual'
+}
+
+/**
+ * Элемент поля для focusFirstError(): DOM-элемент или экземпляр компонента
+ */
+export type FieldElement =
+  | HTMLElement
+  | import('vue').ComponentPublicInstance
+  | Element
+  | null
+
+/**
+ * Параметры прокрутки к полю (ScrollIntoViewOptions)
+ */
+export type FocusScrollOptions = Exclude<
+  Parameters<HTMLElement['scrollIntoView']>[0],
+  boolean | undefined
+>
+
+/**
+ * Элемент сводки ошибок формы
+ */
+export interface ErrorSummaryItem {
+  /** Путь поля, например 'participants.2.email' */
+  path: string
+  /** Подпись поля из опции labels (или путь) */
+  label: string
+  /** Первая ошибка поля */
+  message: string
+}
+
 /**
  * Опции конфигурации формы
  * @template T - Тип значений формы
@@ -142,10 +480,40 @@ export interface CrossFieldRule<T = any> extends Rule<T> {
 export interface FormOptions<T extends Record<string, any>> {
   /** Начальные значения для полей формы */
   initialValues: T
-  /** Колбэк при успешной отправке формы */
-  onSubmit?: (_values: T) => void | Promise<void>
+  /**
+   * Колбэк при успешной отправке формы
+   * Может вернуть { errors } с серверными ошибками (поддерживаются вложенные пути)
+   */
+  onSubmit?: (
+    _values: T
+  ) => void | SubmitReturn<T> | Promise<void | SubmitReturn<T>>
+  /** Колбэк при попытке отправки невалидной формы */
+  onInvalidSubmit?: (_errors: Record<string, string[]>) => void | Promise<void>
   /** Колбэк при очистке формы */
   onClear?: () => void
+  /** Режим валидации до первого submit() (по умолчанию 'blur') */
+  validateOn?: ValidationTrigger
+  /** Режим ревалидации после первого submit() (по умолчанию 'input') */
+  revalidateOn?: RevalidationTrigger
+  /**
+   * Переопределения режимов по полям. Ключ — путь поля или wildcard-паттерн
+   * ('contacts.*.email'); настройка родителя ('address') действует на вложенные поля
+   */
+  fieldTriggers?: Record<string, FieldTriggerOptions>
+  /** Сохранение черновика в хранилище и восстановление при создании формы */
+  persist?: PersistOptions
+  /** История значений для undo()/redo() */
+  history?: boolean | HistoryOptions
+  /**
+   * Подписи полей для errorSummary. Ключ — путь поля или wildcard-паттерн
+   * ('participants.*.email')
+   */
+  labels?: Record<string, MaybeRefOrGetter<string>>
+  /**
+   * Фокусировать первое поле с ошибкой при неудачном submit().
+   * Объект задаёт параметры scrollIntoView
+   */
+  focusOnError?: boolean | FocusScrollOptions
 }
 
 /**
@@ -157,8 +525,12 @@ export interface ValidationCache {
   value: any
   /** Кэшированные ошибки валидации */
   errors: string[]
+  /** Кэшированные предупреждения */
+  warnings: string[]
   /** Кэшированные значения cross-field зависимостей */
   depsValues?: Record<string, any>
+  /** Оценка надёжности пароля для поля с правилом password() */
+  strength?: PasswordStrength
 }
 
 /**
@@ -170,6 +542,8 @@ export interface FieldDependency {
   field: string
   /** Список полей, от которых зависит данное поле */
   dependsOn: string[]
+  /** Зависимости от всех соседних элементов (CrossFieldMeta.dependsOnAll) */
+  dependsOnAll: string[]
 }
 
 /**
@@ -182,6 +556,8 @@ export interface FormState<T extends Record<string, any>> {
   values: T
   /** Ошибки валидации по полям */
   errors: Record<string, string[]>
+  /** Неблокирующие предупреждения по полям */
+  warnings: Record<string, string[]>
   /** Состояние "тронутости" по полям */
   touched: Record<string, boolean>
   /** Состояние "изменённости" по полям */
@@ -190,6 +566,12 @@ export interface FormState<T extends Record<string, any>> {
   isValidating: Record<string, boolean>
   /** Глобальное состояние отправки формы */
   isSubmitting: boolean
+  /** Количество попыток отправки */
+  submitCount: number
+  /** Завершилась ли последняя отправка успешно */
+  submitSucceeded: boolean
+  /** Исключение из onSubmit при последней отправке */
+  lastSubmitError: unknown
   /** Зависимости полей для кросс-валидации */
   fieldDependencies: FieldDependency[]
 }
@@ -210,71 +592,123 @@ export interface FieldStatus {
   errors: string[]
   /** Есть ли у поля ошибки */
   hasError: boolean
+  /** Первое предупреждение или null */
+  warning: string | null
   /** Текущее значение поля */
   value: any
 }
 
 // ========== NESTED TYPES ==========
 
-// Array indices 0-99 + catch-all ${number} для runtime-путей из arrayPath()
-type ArrayIndex =
-  | `${0 | 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9}`
-  | `${1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9}${0 | 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9}`
-  | `${number}`
+/**
+ * Максимальная глубина вложенности путей.
+ * Ограничивает рекурсию, чтобы не замедлять IDE на больших или рекурсивных типах
+ */
+type MaxPathDepth = 8
+
+// Декремент глубины рекурсии: DepthCounter[8] = 7, ..., DepthCounter[0] = never
+type DepthCounter = [never, 0, 1, 2, 3, 4, 5, 6, 7]
+
+/** Значения, внутрь которых пути не строятся */
+type PathLeaf =
+  | string
+  | number
+  | boolean
+  | bigint
+  | symbol
+  | null
+  | undefined
+  | Date
+  | File
+  | Blob
+  | FileList
+  | ((..._args: any[]) => any)
+
+type IsAny<V> = 0 extends 1 & V ? true : false
 
 /**
- * Простые пути для объектов (1 уровень вложенности)
- * Примеры: 'address.street', 'profile.name'
+ * Пути внутри значения V (без ведущего ключа)
+ * Индексы массивов представлены как `${number}` — автодополнение по свойствам
+ * сохраняется, а количество вариантов не растёт экспоненциально с глубиной
  */
-type ObjectPaths<T> = {
-  [K in keyof T]: K extends string
-    ? T[K] extends object
-      ? T[K] extends ReadonlyArray<any>
-        ? never // Массивы обрабатываются отдельно
-        : T[K] extends Record<string, any>
+type PathsOf<V, D extends number> = [D] extends [never]
+  ? never
+  : IsAny<V> extends true
+    ? string
+    : V extends PathLeaf
+      ? never
+      : V extends ReadonlyArray<infer U>
+        ? `${number}` | `${number}.${PathsOf<NonNullable<U>, DepthCounter[D]>}`
+        : V extends object
           ? {
-              [P in keyof T[K]]: P extends string ? `${K}.${P}` : never
-            }[keyof T[K]]
+              [K in keyof V & string]:
+                | K
+                | `${K}.${PathsOf<NonNullable<V[K]>, DepthCounter[D]>}`
+            }[keyof V & string]
           : never
-      : never
-    : never
-}[keyof T]
-
-/**
- * Пути для массивов (1-2 уровня)
- * Примеры: 'tags.0', 'contacts.0.name', 'contacts.0.email'
- */
-type ArrayPaths<T> = {
-  [K in keyof T]: K extends string
-    ? T[K] extends ReadonlyArray<infer U>
-      ? U extends object
-        ? // Массив объектов: contacts.0, contacts.0.name
-          | `${K}.${ArrayIndex}`
-            | (U extends Record<string, any>
-                ? {
-                    [P in keyof U]: P extends string
-                      ? `${K}.${ArrayIndex}.${P}`
-                      : never
-                  }[keyof U]
-                : never)
-        : // Массив примитивов: tags.0, tags.1
-          `${K}.${ArrayIndex}`
-      : never
-    : never
-}[keyof T]
 
 /**
  * Все возможные пути к полям для nested форм
  *
- * Поддерживаемые паттерны (ограничены практичными случаями):
+ * Поддерживаемые паттерны (глубина ограничена MaxPathDepth):
  * - Простые поля: 'name', 'email'
- * - Вложенные объекты (1 уровень): 'address.street', 'profile.name'
+ * - Вложенные объекты: 'address.street', 'profile.address.geo.lat'
  * - Массивы примитивов: 'tags.0', 'tags.1'
- * - Массивы объектов: 'contacts.0', 'contacts.0.name', 'contacts.0.email'
+ * - Массивы объектов: 'contacts.0', 'contacts.0.name', 'orders.0.items.3.sku'
+ * - Словари: 'prices.usd' для Record<string, number>
  *
  * @template T - Тип значений формы
  */
-export type NestedPaths<T> = keyof T | ObjectPaths<T> | ArrayPaths<T>
+export type NestedPaths<T> = keyof T | PathsOf<T, MaxPathDepth>
+
+/**
+ * Тип значения по пути
+ * PathValue<{ orders: { sku: string }[] }, 'orders.0.sku'> → string
+ * @template T - Тип значений формы
+ * @template P - Путь к полю
+ */
+export type PathValue<T, P> =
+  IsAny<T> extends true
+    ? any
+    : P extends `${infer K}.${infer Rest}`
+      ? T extends ReadonlyArray<infer U>
+        ? K extends `${number}`
+          ? PathValue<NonNullable<U>, Rest>
+          : never
+        : K extends keyof T
+          ? PathValue<NonNullable<T[K]>, Rest>
+          : never
+      : T extends ReadonlyArray<infer U>
+        ? P extends `${number}`
+          ? U
+          : never
+        : P extends keyof T
+          ? T[P]
+          : never
+
+/**
+ * Ключи значения; never для never (keyof never — это все PropertyKey)
+ * @internal
+ */
+type KeysOf<V> = [V] extends [never] ? never : keyof NonNullable<V>
+
+/**
+ * Элемент массива по пути P
+ * @internal
+ */
+type ArrayItemAt<T, P> =
+  PathValue<T, P> extends ReadonlyArray<infer Item> ? Item : never
+
+/**
+ * Объект (не массив) по пути P
+ * @internal
+ */
+type ObjectAt<T, P> =
+  PathValue<T, P> extends object
+    ? PathValue<T, P> extends ReadonlyArray<any>
+      ? never
+      : PathValue<T, P>
+    : never
 
 /**
  * Конфигурация правил валидации для формы
@@ -294,10 +728,15 @@ export interface FormInstance<T extends Record<string, any>> {
   // Реактивное состояние формы
   values: import('vue').Ref<T>
   errors: import('vue').Ref<Record<string, string[]>>
+  warnings: import('vue').Ref<Record<string, string[]>>
   touched: import('vue').Ref<Record<string, boolean>>
   dirty: import('vue').Ref<Record<string, boolean>>
   isValidating: import('vue').Ref<Record<string, boolean>>
   isSubmitting: import('vue').Ref<boolean>
+  submitCount: import('vue').Ref<number>
+  isSubmitted: import('vue').ComputedRef<boolean>
+  submitSucceeded: import('vue').Ref<boolean>
+  lastSubmitError: import('vue').Ref<unknown>
   isValid: import('vue').ComputedRef<boolean>
   isDirty: import('vue').ComputedRef<boolean>
   hasAnyErrors: import('vue').ComputedRef<boolean>
@@ -306,13 +745,13 @@ export interface FormInstance<T extends Record<string, any>> {
 
   // Методы управления состоянием
   validateForm: () => Promise<boolean>
-  submit: () => Promise<void>
+  submit: () => Promise<SubmitResult<T>>
   clear: (_useInitial?: boolean) => void
   reset: (_newValues?: Partial<T>) => void
   resetState: () => void
   setValues: (_values: Partial<T>) => void
   getValues: () => T
-  setErrors: (_errors: Partial<Record<keyof T, string[]>>) => void
+  setErrors: (_errors: FieldErrors<T>) => void
   resetErrors: () => void
   clearCache: (fieldKey?: string) => void
   dispose: () => void
@@ -322,7 +761,33 @@ export interface FormInstance<T extends Record<string, any>> {
     _field: K,
     _item: T[K] extends ReadonlyArray<infer U> ? U : any
   ) => void
+  prependArrayItem: <K extends keyof T>(
+    _field: K,
+    _item: T[K] extends ReadonlyArray<infer U> ? U : any
+  ) => void
+  insertArrayItem: <K extends keyof T>(
+    _field: K,
+    _index: number,
+    _item: T[K] extends ReadonlyArray<infer U> ? U : any
+  ) => void
   removeArrayItem: <K extends keyof T>(_field: K, _index: number) => void
+  moveArrayItem: <K extends keyof T>(
+    _field: K,
+    _from: number,
+    _to: number
+  ) => void
+  swapArrayItems: <K extends keyof T>(
+    _field: K,
+    _indexA: number,
+    _indexB: number
+  ) => void
+  replaceArray: <K extends keyof T>(_field: K, _items: T[K]) => void
+  updateArrayItem: <K extends keyof T>(
+    _field: K,
+    _index: number,
+    _item: T[K] extends ReadonlyArray<infer U> ? U : any
+  ) => void
+  arrayKey: <K extends keyof T>(_field: K, _index: number) => number
   arrayIncludes: <K extends keyof T>(
     _field: K,
     _item: T[K] extends ReadonlyArray<infer U> ? U : any
@@ -332,6 +797,30 @@ export interface FormInstance<T extends Record<string, any>> {
     _item: T[K] extends ReadonlyArray<infer U> ? U : any
   ) => Promise<void>
 
+  // Описание правил поля для UI
+  describe: (_path: string) => RuleDescriptor[]
+  attrs: (_path: string) => FieldAttrs
+  strength: (_path: string) => FieldStrength | null
+  failedItems: (_path: string) => number[]
+  cardBrand: (_path: string) => CardBrand | null
+
+  // Сводка ошибок и фокус
+  errorSummary: import('vue').ComputedRef<ErrorSummaryItem[]>
+  registerField: (_path: string, _el: FieldElement) => () => void
+  fieldRef: (_path: string) => (_el: FieldElement) => void
+  focusFirstError: (_scroll?: boolean | FocusScrollOptions) => string | null
+
+  // История значений (без опции history методы ничего не делают)
+  canUndo: import('vue').ComputedRef<boolean>
+  canRedo: import('vue').ComputedRef<boolean>
+  undo: () => void
+  redo: () => void
+  checkpoint: () => void
+  clearHistory: () => void
+
+  // Черновик (без опции persist методы ничего не делают)
+  draft: DraftControls
+
   // Файловые помощники и удобный доступ
   file: import('../utils/fileHelpers').FileHelpers<T>
   val: T
@@ -358,6 +847,14 @@ export interface FormInstance<T extends Record<string, any>> {
     <K extends keyof T>(_field: K): string[]
     <P extends NestedPaths<T>>(_path: P): string[]
   }
+  hasWarning: {
+    <K extends keyof T>(_field: K): boolean
+    <P extends NestedPaths<T>>(_path: P): boolean
+  }
+  warning: {
+    <K extends keyof T>(_field: K): string | null
+    <P extends NestedPaths<T>>(_path: P): string | null
+  }
   isTouched: {
     <K extends keyof T>(_field: K): boolean
     <P extends NestedPaths<T>>(_path: P): boolean
@@ -373,22 +870,12 @@ export interface FormInstance<T extends Record<string, any>> {
   getFieldStatus: <K extends keyof T>(_field: K) => FieldStatus
 
   // Дополнительные методы для nested форм
-  arrayPath: <
-    K extends keyof T,
-    P extends keyof (T[K] extends Array<infer ArrayItem> ? ArrayItem : never),
-  >(
+  arrayPath: <K extends NestedPaths<T>, P extends KeysOf<ArrayItemAt<T, K>>>(
     _arrayField: K,
     _index: number,
     _property: P
   ) => `${string & K}.${number}.${string & P}`
-  objectPath: <
-    K extends keyof T,
-    P extends keyof (T[K] extends object
-      ? T[K] extends any[]
-        ? never
-        : T[K]
-      : never),
-  >(
+  objectPath: <K extends NestedPaths<T>, P extends KeysOf<ObjectAt<T, K>>>(
     _objectField: K,
     _property: P
   ) => `${string & K}.${string & P}`
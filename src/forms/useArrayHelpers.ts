@@ -1,98 +1,308 @@
 import type { FormStateManager } from '../validation/state'
 import type { ValidationManager } from '../validation/manager'
+import type { ValidationTriggers } from './useValidationTriggers'
+import type { HistoryRemap } from './useHistory'
+import type { NestedPaths } from './types'
+import { remapArrayKeys } from '../utils/nested'
 
 type ArrayElementType<V> =
   V extends ReadonlyArray<infer U> ? U : V extends Array<infer U> ? U : never
 
+type IndexMapper = (_index: number) => number | null
+
 export function useArrayHelpers<T extends Record<string, any>>(
   stateManager: FormStateManager<T>,
   validationManager: ValidationManager<T>,
-  validateField: (_key: any) => Promise<string[]>
+  validateField: (_key: any) => Promise<string[]>,
+  triggers: ValidationTriggers,
+  transaction: (_mutate: () => void, _remap?: HistoryRemap) => void = (
+    mutate,
+    remap
+  ) => {
+    mutate()
+    remap?.redo()
+  }
 ) {
-  function arrayIncludes<K extends keyof T>(
-    field: K,
-    item: ArrayElementType<T[K]>
-  ): boolean {
+  // Стабильные ключи элементов для v-for хранятся отдельно от значений,
+  // чтобы не попадать в getValues()/onSubmit
+  const itemKeys = new Map<string, number[]>()
+  let nextItemKey = 0
+
+  function getArray<K extends keyof T>(field: K): any[] | null {
     const arr = stateManager.values[field]
-    if (!Array.isArray(arr)) return false
-    return (arr as Array<ArrayElementType<T[K]>>).some(element =>
-      Object.is(element, item)
-    )
+    return Array.isArray(arr) ? arr : null
   }
 
   /**
-   * Очищает stale touched/dirty/isValidating записи для вложенных путей массива
+   * Выравнивает список ключей по длине массива (на случай прямых мутаций values)
    */
-  function clearArrayNestedState(field: string) {
-    const prefix = field + '.'
-    for (const key of Object.keys(stateManager.touched)) {
-      if (key.startsWith(prefix)) delete stateManager.touched[key]
+  function syncKeys(field: string, length: number): number[] {
+    const keys = itemKeys.get(field) ?? []
+    while (keys.length < length) keys.push(nextItemKey++)
+    if (keys.length > length) keys.length = length
+    itemKeys.set(field, keys)
+    return keys
+  }
+
+  /**
+   * Переносит ключи элементов, touched/dirty и состояние валидации на новые индексы
+   * @param field - Поле-массив
+   * @param oldLength - Длина массива до изменения
+   * @param mapIndex - Новый индекс для старого индекса или null, если элемент удалён
+   */
+  function remapItems(field: string, oldLength: number, mapIndex: IndexMapper) {
+    const oldKeys = syncKeys(field, oldLength)
+    const newLength = getArray(field as keyof T)?.length ?? 0
+    const newKeys: number[] = new Array(newLength)
+    oldKeys.forEach((key, index) => {
+      const nextIndex = mapIndex(index)
+      if (nextIndex !== null && nextIndex < newLength) newKeys[nextIndex] = key
+    })
+    for (let i = 0; i < newLength; i++) {
+      if (newKeys[i] === undefined) newKeys[i] = nextItemKey++
     }
-    for (const key of Object.keys(stateManager.dirty)) {
-      if (key.startsWith(prefix)) delete stateManager.dirty[key]
+    itemKeys.set(field, newKeys)
+    remapState(field, mapIndex)
+  }
+
+  function remapState(field: string, mapIndex: IndexMapper) {
+    remapArrayKeys(stateManager.touched, field, mapIndex)
+    remapArrayKeys(stateManager.dirty, field, mapIndex)
+    validationManager.remapArrayIndices(field, mapIndex)
+  }
+
+  /**
+   * Перенос для шага истории: undo возвращает состояние и ключи на старые индексы.
+   * Состояние удалённых элементов не восстанавливается, ключи — восстанавливаются
+   */
+  function historyRemap(
+    field: string,
+    oldLength: number,
+    mapIndex: IndexMapper
+  ): HistoryRemap {
+    const oldKeys = [...syncKeys(field, oldLength)]
+    const inverse = new Map<number, number>()
+    for (let i = 0; i < oldLength; i++) {
+      const nextIndex = mapIndex(i)
+      if (nextIndex !== null) inverse.set(nextIndex, i)
     }
-    for (const key of Object.keys(stateManager.isValidating)) {
-      if (key.startsWith(prefix)) delete stateManager.isValidating[key]
+    let newKeys: number[] | null = null
+    return {
+      redo: () => {
+        if (newKeys) {
+          remapState(field, mapIndex)
+          itemKeys.set(field, [...newKeys])
+          return
+        }
+        remapItems(field, oldLength, mapIndex)
+        newKeys = [...itemKeys.get(field)!]
+      },
+      undo: () => {
+        remapState(field, index => inverse.get(index) ?? null)
+        itemKeys.set(field, [...oldKeys])
+      },
     }
   }
 
-  function addArrayItem<K extends keyof T>(arrayPath: K, item: any) {
-    const currentArray = stateManager.values[arrayPath]
-    if (Array.isArray(currentArray)) {
-      currentArray.push(item)
-    } else {
-      ;(stateManager.values[arrayPath] as any) = [item]
-    }
-    validationManager.clearArrayCache(arrayPath as string)
-    clearArrayNestedState(arrayPath as string)
-    // Ревалидируем массивное поле (e.g. arrayMinLength) если оно touched
-    if (stateManager.touched[arrayPath as string]) {
-      void validateField(arrayPath as any)
+  /**
+   * Ревалидирует массивное поле (e.g. arrayMinLength) согласно режиму валидации
+   */
+  function revalidateArray(field: string) {
+    if (triggers.validatesOnChange(field)) {
+      void validateField(field as any)
     }
   }
 
+  /**
+   * Применяет мутацию к массиву, сохраняя состояние вложенных полей.
+   * В истории значений мутация занимает один шаг
+   */
+  function mutateArray<K extends keyof T>(
+    field: K,
+    mutate: (_arr: any[]) => void,
+    mapIndex: IndexMapper
+  ) {
+    const key = field as string
+    const currentArray = getArray(field)
+    const oldLength = currentArray?.length ?? 0
+    transaction(
+      () => {
+        if (currentArray) {
+          mutate(currentArray)
+        } else {
+          const created: any[] = []
+          mutate(created)
+          ;(stateManager.values[field] as any) = created
+        }
+      },
+      historyRemap(key, oldLength, mapIndex)
+    )
+    revalidateArray(key)
+  }
+
+  function arrayIncludes<K extends keyof T>(
+    field: K,
+    item: ArrayElementType<T[K]>
+  ): boolean {
+    const arr = getArray(field)
+    if (!arr) return false
+    return (arr as Array<ArrayElementType<T[K]>>).some(element =>
+      Object.is(element, item)
+    )
+  }
+
+  function addArrayItem<K extends keyof T>(arrayPath: K, item: any) {
+    mutateArray(
+      arrayPath,
+      arr => arr.push(item),
+      index => index
+    )
+  }
+
+  function prependArrayItem<K extends keyof T>(arrayPath: K, item: any) {
+    insertArrayItem(arrayPath, 0, item)
+  }
+
+  function insertArrayItem<K extends keyof T>(
+    arrayPath: K,
+    index: number,
+    item: any
+  ) {
+    const length = getArray(arrayPath)?.length ?? 0
+    const at = Math.max(0, Math.min(index, length))
+    mutateArray(
+      arrayPath,
+      arr => arr.splice(at, 0, item),
+      i => (i < at ? i : i + 1)
+    )
+  }
+
   function removeArrayItem<K extends keyof T>(arrayPath: K, index: number) {
-    const currentArray = stateManager.values[arrayPath]
-    if (Array.isArray(currentArray)) {
-      currentArray.splice(index, 1)
+    const length = getArray(arrayPath)?.length ?? 0
+    if (index < 0 || index >= length) return
+    mutateArray(
+      arrayPath,
+      arr => arr.splice(index, 1),
+      i => (i === index ? null : i < index ? i : i - 1)
+    )
+  }
+
+  function moveArrayItem<K extends keyof T>(
+    arrayPath: K,
+    from: number,
+    to: number
+  ) {
+    const length = getArray(arrayPath)?.length ?? 0
+    if (from < 0 || from >= length || to < 0 || to >= length || from === to) {
+      return
     }
-    validationManager.clearArrayCache(arrayPath as string)
-    clearArrayNestedState(arrayPath as string)
-    // Ревалидируем массивное поле (e.g. arrayMinLength) если оно touched
-    if (stateManager.touched[arrayPath as string]) {
-      void validateField(arrayPath as any)
+    mutateArray(
+      arrayPath,
+      arr => arr.splice(to, 0, ...arr.splice(from, 1)),
+      i => {
+        if (i === from) return to
+        if (from < to && i > from && i <= to) return i - 1
+        if (from > to && i >= to && i < from) return i + 1
+        return i
+      }
+    )
+  }
+
+  function swapArrayItems<K extends keyof T>(
+    arrayPath: K,
+    indexA: number,
+    indexB: number
+  ) {
+    const length = getArray(arrayPath)?.length ?? 0
+    if (
+      indexA < 0 ||
+      indexA >= length ||
+      indexB < 0 ||
+      indexB >= length ||
+      indexA === indexB
+    ) {
+      return
     }
+    mutateArray(
+      arrayPath,
+      arr => {
+        const tmp = arr[indexA]
+        arr[indexA] = arr[indexB]
+        arr[indexB] = tmp
+      },
+      i => (i === indexA ? indexB : i === indexB ? indexA : i)
+    )
+  }
+
+  function replaceArray<K extends keyof T>(arrayPath: K, items: T[K]) {
+    mutateArray(
+      arrayPath,
+      arr => arr.splice(0, arr.length, ...(items as any[])),
+      () => null
+    )
+  }
+
+  function updateArrayItem<K extends keyof T>(
+    arrayPath: K,
+    index: number,
+    item: any
+  ) {
+    const length = getArray(arrayPath)?.length ?? 0
+    if (index < 0 || index >= length) return
+    mutateArray(
+      arrayPath,
+      arr => {
+        arr[index] = item
+      },
+      i => i
+    )
   }
 
   async function toggleArrayItem<K extends keyof T>(
     field: K,
     item: ArrayElementType<T[K]>
   ) {
-    const currentArray = stateManager.values[field]
-    if (!Array.isArray(currentArray)) return
+    const currentArray = getArray(field)
+    if (!currentArray) return
 
     const index = (currentArray as Array<ArrayElementType<T[K]>>).findIndex(
       element => Object.is(element, item)
     )
+    const oldLength = currentArray.length
 
     // Мутируем массив напрямую, без вызова add/removeArrayItem,
     // чтобы избежать тройной валидации (add/remove + watcher + явный вызов ниже)
     if (index >= 0) {
-      currentArray.splice(index, 1)
+      transaction(
+        () => currentArray.splice(index, 1),
+        historyRemap(field as string, oldLength, i =>
+          i === index ? null : i < index ? i : i - 1
+        )
+      )
     } else {
-      currentArray.push(item)
+      transaction(
+        () => currentArray.push(item),
+        historyRemap(field as string, oldLength, i => i)
+      )
     }
-    validationManager.clearArrayCache(field as string)
-    clearArrayNestedState(field as string)
 
     stateManager.touched[field as string] = true
-    await validateField(field as any)
+    if (triggers.validatesOnTouch(field as string)) {
+      await validateField(field as any)
+    }
   }
 
-  function arrayPath<
-    K extends keyof T,
-    P extends keyof (T[K] extends Array<infer ArrayItem> ? ArrayItem : never),
-  >(
+  /**
+   * Возвращает стабильный ключ элемента массива для v-for
+   * Ключ следует за элементом при insert/move/swap/remove и не попадает в значения формы
+   */
+  function arrayKey<K extends keyof T>(field: K, index: number): number {
+    const length = getArray(field)?.length ?? 0
+    return syncKeys(field as string, length)[index]
+  }
+
+  // Ограничения на свойства проверяются в FormInstance (по PathValue пути)
+  function arrayPath<K extends NestedPaths<T>, P extends PropertyKey>(
     arrayField: K,
     index: number,
     property: P
@@ -100,22 +310,25 @@ export function useArrayHelpers<T extends Record<string, any>>(
     return `${String(arrayField)}.${index}.${String(property)}` as any
   }
 
-  function objectPath<
-    K extends keyof T,
-    P extends keyof (T[K] extends object
-      ? T[K] extends any[]
-        ? never
-        : T[K]
-      : never),
-  >(objectField: K, property: P): `${string & K}.${string & P}` {
+  function objectPath<K extends NestedPaths<T>, P extends PropertyKey>(
+    objectField: K,
+    property: P
+  ): `${string & K}.${string & P}` {
     return `${String(objectField)}.${String(property)}` as any
   }
 
   return {
     arrayIncludes,
     addArrayItem,
+    prependArrayItem,
+    insertArrayItem,
     removeArrayItem,
+    moveArrayItem,
+    swapArrayItems,
+    replaceArray,
+    updateArrayItem,
     toggleArrayItem,
+    arrayKey,
     arrayPath,
     objectPath,
   }
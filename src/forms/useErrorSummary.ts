@@ -0,0 +1,172 @@
+import { computed, type ComponentPublicInstance, type ComputedRef } from 'vue'
+import type { FormStateManager } from '../validation/state'
+import type {
+  ErrorSummaryItem,
+  FieldElement,
+  FocusScrollOptions,
+  FormOptions,
+} from './types'
+import { getNestedValue, matchesWildcardPath } from '../utils/nested'
+import { resolveMessage } from '../utils/helpers'
+
+const FOCUSABLE =
+  'input:not([type="hidden"]), select, textarea, button, [tabindex]:not([tabindex="-1"]), [contenteditable]'
+
+function toElement(el: FieldElement): HTMLElement | null {
+  if (!el) return null
+  if (typeof HTMLElement !== 'undefined' && el instanceof HTMLElement) return el
+  const rootEl = (el as ComponentPublicInstance).$el
+  return typeof HTMLElement !== 'undefined' && rootEl instanceof HTMLElement
+    ? rootEl
+    : null
+}
+
+/**
+ * Сам элемент, если он фокусируемый, иначе первый фокусируемый потомок (обёртка поля)
+ */
+function focusTarget(el: HTMLElement): HTMLElement {
+  if (el.matches(FOCUSABLE)) return el
+  return el.querySelector<HTMLElement>(FOCUSABLE) ?? el
+}
+
+/**
+ * Позиция сегмента пути среди ключей родителя: индексы массивов по возрастанию,
+ * ключи объектов в порядке объявления, неизвестные ключи — в конце
+ */
+function segmentOrder(parent: unknown, segment: string): number {
+  if (Array.isArray(parent) || /^\d+$/.test(segment)) return Number(segment)
+  if (parent && typeof parent === 'object') {
+    const index = Object.keys(parent).indexOf(segment)
+    if (index >= 0) return index
+  }
+  return Number.MAX_SAFE_INTEGER
+}
+
+/**
+ * Сравнивает пути в порядке полей формы ('participants.2.email' после 'participants.1.name')
+ */
+function comparePaths(values: Record<string, any>, a: string, b: string) {
+  const partsA = a.split('.')
+  const partsB = b.split('.')
+  const length = Math.min(partsA.length, partsB.length)
+  for (let i = 0; i < length; i++) {
+    if (partsA[i] === partsB[i]) continue
+    const parent =
+      i === 0 ? values : getNestedValue(values, partsA.slice(0, i).join('.'))
+    const diff =
+      segmentOrder(parent, partsA[i]) - segmentOrder(parent, partsB[i])
+    return diff !== 0 ? diff : partsA[i].localeCompare(partsB[i])
+  }
+  // Родитель перед вложенными полями
+  return partsA.length - partsB.length
+}
+
+/**
+ * Сводка ошибок формы и фокус на первом невалидном поле
+ * @param options - Опции формы (labels)
+ * @param stateManager - Менеджер состояния формы
+ */
+export function useErrorSummary<T extends Record<string, any>>(
+  options: FormOptions<T>,
+  stateManager: FormStateManager<T>
+): {
+  errorSummary: ComputedRef<ErrorSummaryItem[]>
+  registerField: (_path: string, _el: FieldElement) => () => void
+  fieldRef: (_path: string) => (_el: FieldElement) => void
+  focusFirstError: (_scroll?: boolean | FocusScrollOptions) => string | null
+} {
+  const elements = new Map<string, HTMLElement>()
+
+  function labelFor(path: string): string {
+    const labels = options.labels ?? {}
+    const label =
+      labels[path] ??
+      Object.entries(labels).find(
+        ([pattern]) =>
+          pattern.includes('*') && matchesWildcardPath(pattern, path)
+      )?.[1]
+    return resolveMessage(label) || path
+  }
+
+  const errorSummary = computed<ErrorSummaryItem[]>(() =>
+    Object.keys(stateManager.errors)
+      .filter(path => stateManager.errors[path]?.length)
+      .sort((a, b) => comparePaths(stateManager.values, a, b))
+      .map(path => ({
+        path,
+        label: labelFor(path),
+        message: stateManager.errors[path][0],
+      }))
+  )
+
+  /**
+   * Регистрирует DOM-элемент (или компонент) поля для focusFirstError()
+   * @returns Функция отмены регистрации
+   */
+  function registerField(path: string, el: FieldElement): () => void {
+    const element = toElement(el)
+    if (!element) {
+      elements.delete(path)
+      return () => {}
+    }
+    elements.set(path, element)
+    return () => {
+      if (elements.get(path) === element) elements.delete(path)
+    }
+  }
+
+  /**
+   * Функциональный ref для шаблона: :ref="form.fieldRef('email')"
+   */
+  function fieldRef(path: string) {
+    return (el: FieldElement) => {
+      registerField(path, el)
+    }
+  }
+
+  /**
+   * Элемент поля или ближайшего зарегистрированного родителя ('address' для 'address.city')
+   */
+  function elementFor(path: string): HTMLElement | undefined {
+    const parts = path.split('.')
+    for (let i = parts.length; i > 0; i--) {
+      const el = elements.get(parts.slice(0, i).join('.'))
+      if (el) return el
+    }
+    return undefined
+  }
+
+  /**
+   * Фокусирует первое (по положению в документе) зарегистрированное поле с ошибкой
+   * @param scroll - Прокрутить к полю (по умолчанию { block: 'center' })
+   * @returns Путь поля или null, если фокусировать нечего
+   */
+  function focusFirstError(
+    scroll: boolean | FocusScrollOptions = true
+  ): string | null {
+    const candidates = errorSummary.value
+      .map(item => ({ path: item.path, el: elementFor(item.path) }))
+      .filter(
+        (item): item is { path: string; el: HTMLElement } =>
+          !!item.el && item.el.isConnected
+      )
+    if (candidates.length === 0) return null
+
+    const first = candidates.reduce((best, item) =>
+      item.el.compareDocumentPosition(best.el) &
+      Node.DOCUMENT_POSITION_FOLLOWING
+        ? item
+        : best
+    )
+    const target = focusTarget(first.el)
+    target.focus({ preventScroll: true })
+    if (scroll && typeof target.scrollIntoView === 'function') {
+      target.scrollIntoView(
+        scroll === true ? { block: 'center', behavior: 'smooth' } : scroll
+      )
+    }
+    return first.path
+  }
+
+  return { errorSummary, registerField, fieldRef, focusFirstError }
+}
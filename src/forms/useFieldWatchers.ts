@@ -1,11 +1,13 @@
 import { watch, nextTick } from 'vue'
 import type { FormStateManager } from '../validation/state'
 import type { ValidationManager } from '../validation/manager'
+import type { ValidationTriggers } from './useValidationTriggers'
 
 export function useFieldWatchers<T extends Record<string, any>>(
   stateManager: FormStateManager<T>,
   validationManager: ValidationManager<T>,
-  validateField: (_key: any) => Promise<string[]>
+  validateField: (_key: any) => Promise<string[]>,
+  triggers: ValidationTriggers
 ): { stopAll: () => void } {
   const stops: Array<() => void> = []
 
@@ -24,26 +26,38 @@ export function useFieldWatchers<T extends Record<string, any>>(
         // валидация вернёт кешированный результат. Это ключевая оптимизация для массивов:
         // без неё каждый keystroke в participants[0].name ревалидирует ВСЕ touched nested поля.
         validationManager.clearCacheExact(key)
+        // Прямое присваивание могло добавить ключ или элемент под wildcard-правилом
+        if (typeof newValue === 'object') {
+          validationManager.refreshWildcardRules(key)
+        }
 
-        if (stateManager.touched[key]) {
+        if (triggers.validatesOnChange(key)) {
           await nextTick()
           await validateField(k)
         }
 
-        // Ревалидируем touched вложенные поля (для wildcard правил типа 'contacts.*.email')
+        // Ревалидируем вложенные поля (для wildcard правил типа 'contacts.*.email'):
+        // touched — в режиме 'blur', все поля с правилами — в eager-режимах.
+        // Соседи с зависимостью от всех элементов (uniqueAmong, sumOf) держат их значения
+        // в depsValues кэша, поэтому правка одного элемента ревалидирует и остальные
         const prefix = key + '.'
-        const touchedNestedFields = Object.keys(stateManager.touched).filter(
-          tKey => tKey.startsWith(prefix) && stateManager.touched[tKey]
+        const nestedFields = new Set([
+          ...Object.keys(stateManager.touched).filter(
+            tKey => tKey.startsWith(prefix) && stateManager.touched[tKey]
+          ),
+          ...validationManager
+            .getRuleFields()
+            .filter(rKey => rKey.startsWith(prefix)),
+        ])
+        const fieldsToValidate = [...nestedFields].filter(f =>
+          triggers.validatesOnChange(f)
         )
-        if (touchedNestedFields.length > 0) {
-          await Promise.all(
-            touchedNestedFields.map(f => validateField(f as any))
-          )
+        if (fieldsToValidate.length > 0) {
+          await Promise.all(fieldsToValidate.map(f => validateField(f as any)))
         }
 
-        await validationManager.validateDependentFields(
-          key,
-          stateManager.touched
+        await validationManager.validateDependentFields(key, f =>
+          triggers.validatesDependent(f)
         )
       },
       { flush: 'post', deep: true }
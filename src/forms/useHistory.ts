@@ -0,0 +1,223 @@
+import { ref, computed, watch, type ComputedRef } from 'vue'
+import type { FormStateManager } from '../validation/state'
+import type { HistoryOptions } from './types'
+import { deepClone, deepEqual } from '../utils/deep'
+
+const DEFAULT_DEPTH = 50
+
+/**
+ * Перенос состояния элементов массива (touched, dirty, ошибки, ключи arrayKey)
+ * на новые индексы, который сопровождает шаг истории
+ */
+export interface HistoryRemap {
+  /** Применяет перенос: сразу после мутации и при redo */
+  redo: () => void
+  /** Возвращает состояние на прежние индексы при undo */
+  undo: () => void
+}
+
+interface HistoryEntry<T> {
+  values: T
+  /** Переносы при переходе между этим шагом и соседним */
+  remaps: HistoryRemap[]
+}
+
+/**
+ * Собирает пути листьев, значения которых отличаются.
+ * Используется для объединения последовательных правок одного поля в один шаг
+ */
+function changedPaths(a: unknown, b: unknown, path: string, out: string[]) {
+  if (deepEqual(a, b)) return
+  const isContainer = (v: unknown) =>
+    v !== null &&
+    typeof v === 'object' &&
+    !(v instanceof Date) &&
+    !(typeof Blob !== 'undefined' && v instanceof Blob)
+  if (
+    isContainer(a) &&
+    isContainer(b) &&
+    Array.isArray(a) === Array.isArray(b) &&
+    // Изменение длины массива — самостоятельная операция над массивом
+    (!Array.isArray(a) || a.length === (b as unknown[]).length)
+  ) {
+    const keys = new Set([
+      ...Object.keys(a as object),
+      ...Object.keys(b as object),
+    ])
+    keys.forEach(key =>
+      changedPaths(
+        (a as Record<string, unknown>)[key],
+        (b as Record<string, unknown>)[key],
+        path ? `${path}.${key}` : key,
+        out
+      )
+    )
+    return
+  }
+  out.push(path)
+}
+
+/**
+ * История значений формы для undo/redo
+ * @param options - Настройки history (true — настройки по умолчанию)
+ * @param stateManager - Менеджер состояния формы
+ * @param applyValues - Применение значений тем же путём, что и setValues
+ */
+export function useHistory<T extends Record<string, any>>(
+  options: boolean | HistoryOptions | undefined,
+  stateManager: FormStateManager<T>,
+  applyValues: (_values: Partial<T>) => void
+): {
+  undo: () => void
+  redo: () => void
+  checkpoint: () => void
+  clearHistory: () => void
+  /** Выполняет мутацию как один отдельный шаг истории */
+  transaction: (_mutate: () => void, _remap?: HistoryRemap) => void
+  canUndo: ComputedRef<boolean>
+  canRedo: ComputedRef<boolean>
+} {
+  const enabled = !!options
+  const config: HistoryOptions = typeof options === 'object' ? options : {}
+  const depth = Math.max(1, config.depth ?? DEFAULT_DEPTH)
+  const mode = config.mode ?? 'field'
+
+  // В past — значения до шага и переносы вперёд, в future — значения после шага
+  // и те же переносы; переносы применяются после значений
+  const past: HistoryEntry<T>[] = []
+  const future: HistoryEntry<T>[] = []
+  let present = deepClone(stateManager.values) as T
+  // Переносы массивов, ещё не записанные в шаг
+  let pendingRemaps: HistoryRemap[] = []
+  // Пути последнего шага; null — следующий шаг не объединяется с предыдущим
+  let lastPaths: string | null = null
+
+  const undoSize = ref(0)
+  const redoSize = ref(0)
+  // Есть изменения, ещё не записанные в историю (режим 'manual')
+  const pending = ref(false)
+
+  function sync() {
+    undoSize.value = past.length
+    redoSize.value = future.length
+  }
+
+  function snapshot(): T {
+    return deepClone(stateManager.values) as T
+  }
+
+  /**
+   * Записывает текущие значения как шаг истории
+   * @param coalesce - Объединять с предыдущим шагом, если изменены те же поля
+   */
+  function record(coalesce: boolean) {
+    const paths: string[] = []
+    changedPaths(present, stateManager.values, '', paths)
+    const remaps = pendingRemaps
+    pendingRemaps = []
+    if (paths.length === 0) return
+    const key = paths.sort().join('|')
+
+    if (coalesce && key === lastPaths && past.length > 0) {
+      past[past.length - 1].remaps.push(...remaps)
+    } else {
+      past.push({ values: present, remaps })
+      if (past.length > depth) past.shift()
+    }
+    present = snapshot()
+    future.length = 0
+    lastPaths = coalesce ? key : null
+    pending.value = false
+    sync()
+  }
+
+  function restore(target: T) {
+    const changed: Partial<T> = {}
+    Object.keys(target).forEach(key => {
+      if (!deepEqual(stateManager.values[key], target[key])) {
+        ;(changed as any)[key] = deepClone(target[key])
+      }
+    })
+    // Наблюдатель увидит значения, совпадающие с present, и не создаст новый шаг
+    applyValues(changed)
+    present = deepClone(target) as T
+    lastPaths = null
+    pending.value = false
+    sync()
+  }
+
+  function undo() {
+    if (!enabled) return
+    record(false)
+    const previous = past.pop()
+    if (!previous) return
+    future.push({ values: present, remaps: previous.remaps })
+    restore(previous.values)
+    ;[...previous.remaps].reverse().forEach(remap => remap.undo())
+  }
+
+  function redo() {
+    if (!enabled) return
+    record(false)
+    const next = future.pop()
+    if (!next) return
+    past.push({ values: present, remaps: next.remaps })
+    restore(next.values)
+    next.remaps.forEach(remap => remap.redo())
+  }
+
+  function checkpoint() {
+    if (!enabled) return
+    record(false)
+    lastPaths = null
+  }
+
+  function clearHistory() {
+    past.length = 0
+    future.length = 0
+    present = snapshot()
+    pendingRemaps = []
+    lastPaths = null
+    pending.value = false
+    sync()
+  }
+
+  function transaction(mutate: () => void, remap?: HistoryRemap) {
+    if (!enabled) {
+      mutate()
+      remap?.redo()
+      return
+    }
+    // Незаписанные правки до операции остаются отдельным шагом
+    if (mode !== 'manual') record(true)
+    mutate()
+    remap?.redo()
+    if (remap) pendingRemaps.push(remap)
+    // В режиме 'manual' переносы попадут в шаг при checkpoint()
+    if (mode !== 'manual') record(false)
+  }
+
+  if (enabled) {
+    watch(
+      () => stateManager.values,
+      () => {
+        if (mode === 'manual') {
+          pending.value = !deepEqual(present, stateManager.values)
+          return
+        }
+        record(true)
+      },
+      { deep: true }
+    )
+  }
+
+  return {
+    undo,
+    redo,
+    checkpoint,
+    clearHistory,
+    transaction,
+    canUndo: computed(() => undoSize.value > 0 || pending.value),
+    canRedo: computed(() => redoSize.value > 0),
+  }
+}
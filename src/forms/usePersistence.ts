@@ -0,0 +1,312 @@
+import { watch, nextTick } from 'vue'
+import type { FormStateManager } from '../validation/state'
+import type { DraftControls, PersistOptions } from './types'
+import { localStorageAdapter } from '../utils/storage'
+import { matchesWildcardPath, pathsOverlap } from '../utils/nested'
+
+const DEFAULT_DEBOUNCE = 300
+
+/** Значение, которое нельзя сохранить в черновик (File, Blob, FileList) */
+const SKIP = Symbol('skip')
+
+interface DraftPayload {
+  version: number
+  savedAt: number
+  values: Record<string, any>
+}
+
+function isBinary(value: unknown): boolean {
+  return (
+    (typeof File !== 'undefined' && value instanceof File) ||
+    (typeof Blob !== 'undefined' && value instanceof Blob) ||
+    (typeof FileList !== 'undefined' && value instanceof FileList)
+  )
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return (
+    value !== null &&
+    typeof value === 'object' &&
+    !Array.isArray(value) &&
+    !(value instanceof Date) &&
+    !isBinary(value)
+  )
+}
+
+function isThenable<V>(value: V | Promise<V>): value is Promise<V> {
+  return typeof (value as any)?.then === 'function'
+}
+
+/**
+ * Синхронные значения хранилища обрабатываются синхронно,
+ * чтобы черновик из localStorage применялся сразу при создании формы
+ */
+function then<V, R>(
+  value: V | Promise<V>,
+  fn: (_value: V) => R | Promise<R>
+): R | Promise<R> {
+  return isThenable(value) ? value.then(fn) : fn(value)
+}
+
+interface PathRule {
+  /** Путь исключён из черновика */
+  skip: boolean
+  /** Значение по пути сохраняется, если оно не объект/массив */
+  leaf: boolean
+  /** Вложенные пути нужно проверять отдельно */
+  nested: boolean
+}
+
+/**
+ * Фильтр путей по include/exclude с поддержкой wildcard-паттернов
+ */
+function createPathFilter(options: PersistOptions) {
+  const { include, exclude = [] } = options
+  return (path: string): PathRule => {
+    const depth = path.split('.').length
+    const deeper = (pattern: string) =>
+      pathsOverlap(pattern, path) && pattern.split('.').length > depth
+
+    if (exclude.some(pattern => matchesWildcardPath(pattern, path))) {
+      return { skip: true, leaf: false, nested: false }
+    }
+    const related = include?.filter(pattern => pathsOverlap(pattern, path))
+    if (related && related.length === 0) {
+      return { skip: true, leaf: false, nested: false }
+    }
+    const leaf =
+      !related || related.some(pattern => pattern.split('.').length <= depth)
+    return { skip: false, leaf, nested: !leaf || exclude.some(deeper) }
+  }
+}
+
+type PathFilter = ReturnType<typeof createPathFilter>
+
+/**
+ * Кодирует значения в JSON-совместимый вид: Date → { $date }, файлы пропускаются.
+ * Массив с файлами пропускается целиком, чтобы не восстанавливать его частично
+ */
+function encode(value: unknown, path: string, filter: PathFilter | null) {
+  const rule = filter?.(path) ?? { skip: false, leaf: true, nested: false }
+  if (rule.skip || isBinary(value)) return SKIP
+  const childFilter = rule.nested ? filter : null
+
+  if (Array.isArray(value)) {
+    const items: unknown[] = value.map((item, index) =>
+      encode(item, `${path}.${index}`, childFilter)
+    )
+    return items.includes(SKIP) ? SKIP : items
+  }
+
+  if (isPlainObject(value)) {
+    const encoded: Record<string, unknown> = {}
+    for (const key of Object.keys(value)) {
+      const item = encode(value[key], `${path}.${key}`, childFilter)
+      if (item !== SKIP) encoded[key] = item
+    }
+    return encoded
+  }
+
+  if (!rule.leaf || typeof value === 'function' || typeof value === 'symbol') {
+    return SKIP
+  }
+  return value instanceof Date ? { $date: value.toISOString() } : value
+}
+
+function decode(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(decode)
+  if (isPlainObject(value)) {
+    const keys = Object.keys(value)
+    if (keys.length === 1 && keys[0] === '$date') {
+      return new Date(value.$date)
+    }
+    const decoded: Record<string, unknown> = {}
+    keys.forEach(key => {
+      decoded[key] = decode(value[key])
+    })
+    return decoded
+  }
+  return value
+}
+
+/**
+ * Накладывает сохранённое значение на текущее: ключи, не попавшие в черновик
+ * (файлы, исключённые пути), сохраняют текущие значения
+ */
+function merge(current: unknown, saved: unknown): unknown {
+  if (isPlainObject(current) && isPlainObject(saved)) {
+    const merged: Record<string, unknown> = { ...current }
+    Object.keys(saved).forEach(key => {
+      merged[key] = merge(current[key], saved[key])
+    })
+    return merged
+  }
+  if (Array.isArray(current) && Array.isArray(saved)) {
+    return saved.map((item, index) => merge(current[index], item))
+  }
+  return saved
+}
+
+/**
+ * Сохраняет черновик формы в хранилище и восстанавливает его при создании формы
+ * @param options - Настройки persist
+ * @param stateManager - Менеджер состояния формы
+ * @param applyValues - Применение значений тем же путём, что и setValues
+ */
+export function usePersistence<T extends Record<string, any>>(
+  options: PersistOptions | undefined,
+  stateManager: FormStateManager<T>,
+  applyValues: (_values: Partial<T>) => void
+): { draft: DraftControls; stop: () => void } {
+  if (!options) {
+    return {
+      draft: {
+        ready: Promise.resolve(false),
+        save: async () => {},
+        clear: async () => {},
+      },
+      stop: () => {},
+    }
+  }
+
+  const storage = options.storage ?? localStorageAdapter()
+  const version = options.version ?? 1
+  const delay = options.debounce ?? DEFAULT_DEBOUNCE
+  const filter = createPathFilter(options)
+
+  let timeoutId: ReturnType<typeof setTimeout> | null = null
+  // Пока черновик не прочитан, запись запрещена, чтобы не затереть его
+  let restored = false
+
+  function serialize(): Record<string, any> {
+    const values: Record<string, any> = {}
+    Object.keys(stateManager.values).forEach(key => {
+      const encoded = encode(stateManager.values[key], key, filter)
+      if (encoded !== SKIP) values[key] = encoded
+    })
+    return values
+  }
+
+  async function write(): Promise<void> {
+    if (!restored) return
+    try {
+      if (!stateManager.isDirty.value) {
+        await storage.removeItem(options!.key)
+        return
+      }
+      const payload: DraftPayload = {
+        version,
+        savedAt: Date.now(),
+        values: serialize(),
+      }
+      await storage.setItem(options!.key, JSON.stringify(payload))
+    } catch {
+      // Ошибки хранилища (переполнение квоты и т.п.) не должны ломать форму
+    }
+  }
+
+  function cancelPending(): boolean {
+    if (!timeoutId) return false
+    clearTimeout(timeoutId)
+    timeoutId = null
+    return true
+  }
+
+  function schedule() {
+    cancelPending()
+    timeoutId = setTimeout(() => {
+      timeoutId = null
+      void write()
+    }, delay)
+  }
+
+  /**
+   * Применяет черновик, если пользователь ещё не начал редактировать форму
+   */
+  function apply(data: Record<string, any> | null): boolean {
+    if (!data || stateManager.isDirty.value) return false
+    const restoredValues: Partial<T> = {}
+    Object.keys(data).forEach(key => {
+      if (!(key in stateManager.values)) return
+      ;(restoredValues as any)[key] = merge(
+        stateManager.values[key],
+        decode(data[key])
+      )
+    })
+    applyValues(restoredValues)
+    return Object.keys(restoredValues).length > 0
+  }
+
+  function read(raw: string | null): boolean | Promise<boolean> {
+    if (!raw) return false
+    let payload: DraftPayload
+    try {
+      payload = JSON.parse(raw)
+    } catch {
+      void remove()
+      return false
+    }
+    if (!payload || typeof payload.values !== 'object') return false
+    if (payload.version === version) return apply(payload.values)
+    if (!options!.migrate) return false
+    return then(options!.migrate(payload.version, payload.values), apply)
+  }
+
+  function finishRestore(applied: boolean): boolean {
+    restored = true
+    return applied
+  }
+
+  let ready: Promise<boolean>
+  try {
+    const result = then(then(storage.getItem(options.key), read), applied =>
+      finishRestore(applied)
+    )
+    ready = isThenable(result)
+      ? result.catch(() => finishRestore(false))
+      : Promise.resolve(result)
+  } catch {
+    ready = Promise.resolve(finishRestore(false))
+  }
+
+  const stopWatch = watch(() => stateManager.values, schedule, { deep: true })
+
+  // Перезагрузка страницы внутри debounce не должна терять последние изменения
+  const flushOnHide = () => {
+    if (cancelPending()) void write()
+  }
+  if (typeof window !== 'undefined') {
+    window.addEventListener('pagehide', flushOnHide)
+  }
+
+  async function save() {
+    await ready
+    cancelPending()
+    // Дожидаемся пересчёта dirty после последних изменений
+    await nextTick()
+    await write()
+  }
+
+  async function remove() {
+    try {
+      await storage.removeItem(options!.key)
+    } catch {
+      // Ошибки хранилища не должны ломать форму
+    }
+  }
+
+  async function clear() {
+    cancelPending()
+    await remove()
+  }
+
+  function stop() {
+    stopWatch()
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('pagehide', flushOnHide)
+    }
+    flushOnHide()
+  }
+
+  return { draft: { ready, save, clear }, stop }
+}
@@ -0,0 +1,115 @@
+import { shallowRef } from 'vue'
+import type { FormStateManager } from '../validation/state'
+import type { ValidationManager } from '../validation/manager'
+import type { FieldAttrs, FieldStrength, Rule, RuleDescriptor } from './types'
+import type { CardBrand } from '../rules/checksum'
+import { getNestedValue, matchesWildcardPath } from '../utils/nested'
+import { describeRules, ruleAttrs } from '../rules/meta'
+import { formatMessage } from '../messages/catalog'
+
+/**
+ * Описание правил полей для UI: счётчики символов, нативные атрибуты ввода,
+ * индикатор надёжности пароля
+ * @param stateManager - Менеджер состояния формы (значения для requiredIf)
+ * @param validationManager - Менеджер валидации (кэш оценки пароля)
+ */
+export function useRuleMeta<T extends Record<string, any>>(
+  stateManager: FormStateManager<T>,
+  validationManager: ValidationManager<T>
+): {
+  setRules: (_rules: Record<string, Rule<any>[]>) => void
+  describe: (_path: string) => RuleDescriptor[]
+  attrs: (_path: string) => FieldAttrs
+  strength: (_path: string) => FieldStrength | null
+  failedItems: (_path: string) => number[]
+  cardBrand: (_path: string) => CardBrand | null
+} {
+  // shallowRef: describe()/attrs() в шаблонах пересчитываются при setRules
+  const rules = shallowRef<Record<string, Rule<any>[]>>({})
+
+  function setRules(next: Record<string, Rule<any>[]>) {
+    rules.value = next
+  }
+
+  /**
+   * Правила поля: по точному пути, иначе по подходящему wildcard-паттерну
+   */
+  function rulesFor(path: string): Rule<any>[] {
+    const all = rules.value
+    if (all[path]) return all[path]
+    const pattern = Object.keys(all).find(
+      key => key.includes('*') && matchesWildcardPath(key, path)
+    )
+    return pattern ? all[pattern] : []
+  }
+
+  /**
+   * Описания правил поля: имя фабрики, параметры и признак предупреждения
+   * @param path - Путь поля ('contacts.0.email') или wildcard-паттерн
+   */
+  function describe(path: string): RuleDescriptor[] {
+    return describeRules(rulesFor(path))
+  }
+
+  /**
+   * Нативные атрибуты для поля ввода: v-bind="form.attrs('bio')"
+   * @param path - Путь поля
+   */
+  function attrs(path: string): FieldAttrs {
+    return ruleAttrs(rulesFor(path), stateManager.values, path)
+  }
+
+  /**
+   * Надёжность пароля для индикатора: оценка 0–4 и подсказки.
+   * Пересчитывается при изменении значения поля, полей из notContaining и локали
+   * @param path - Путь поля с правилом password()
+   * @returns Оценка или null, если у поля нет правила password()
+   */
+  function strength(path: string): FieldStrength | null {
+    // Чтение rules.value: после setRules шаблон запросит оценку заново
+    if (!rulesFor(path).length) return null
+    const result = validationManager.getStrength(path)
+    if (!result) return null
+    return {
+      ...result,
+      messages: result.hints.map(hint =>
+        formatMessage(`password.hint.${hint}`)
+      ),
+    }
+  }
+
+  /**
+   * Индексы элементов массива, из-за которых поле показывает ошибку
+   * arrayEach() или arrayUnique(), — для подсветки строк без wildcard-правил
+   * @param path - Путь поля-массива
+   * @returns Индексы по возрастанию; пусто, если у поля нет такой ошибки
+   */
+  function failedItems(path: string): number[] {
+    const failed = new Set<number>()
+    for (const rule of rulesFor(path)) {
+      const read = (rule as any).__failedItems
+      if (!read) continue
+      // Ошибки читаются реактивно: после каждой валидации индексы перечитываются
+      const shown = (rule as any).__warning
+        ? stateManager.warnings[path]
+        : stateManager.errors[path]
+      read(path, shown ?? []).forEach((i: number) => failed.add(i))
+    }
+    return [...failed].sort((a, b) => a - b)
+  }
+
+  /**
+   * Платёжная система номера карты в поле с правилом creditCard() —
+   * например, для логотипа во время ввода. Пересчитывается при изменении значения
+   * @param path - Путь поля с правилом creditCard()
+   * @returns Платёжная система или null, если префикс не распознан или правила нет
+   */
+  function cardBrand(path: string): CardBrand | null {
+    const detect = rulesFor(path).find(rule => (rule as any).__brand)
+    if (!detect) return null
+    const value = getNestedValue(stateManager.values, path)
+    return typeof value === 'string' ? (detect as any).__brand(value) : null
+  }
+
+  return { setRules, describe, attrs, strength, failedItems, cardBrand }
+}
@@ -0,0 +1,96 @@
+import type {
+  FieldTriggerOptions,
+  FormOptions,
+  RevalidationTrigger,
+  ValidationTrigger,
+} from './types'
+import type { FormStateManager } from '../validation/state'
+import { matchesWildcardPath } from '../utils/nested'
+
+export interface ValidationTriggers {
+  /** Активный режим поля с учётом фазы формы (до/после submit) */
+  modeFor: (_path: string) => ValidationTrigger | RevalidationTrigger
+  /** Нужно ли валидировать поле при изменении его значения */
+  validatesOnChange: (_path: string) => boolean
+  /** Нужно ли валидировать поле при touch() */
+  validatesOnTouch: (_path: string) => boolean
+  /** Нужно ли ревалидировать зависимое поле при изменении поля-источника */
+  validatesDependent: (_path: string) => boolean
+  /** Нужно ли валидировать поле сразу при установке правил */
+  validatesOnMount: (_path: string) => boolean
+}
+
+export function useValidationTriggers<T extends Record<string, any>>(
+  options: FormOptions<T>,
+  stateManager: FormStateManager<T>
+): ValidationTriggers {
+  const validateOn = options.validateOn ?? 'blur'
+  const revalidateOn = options.revalidateOn ?? 'input'
+  const fieldTriggers = options.fieldTriggers ?? {}
+  const overrideKeys = Object.keys(fieldTriggers)
+
+  /**
+   * Ищет переопределение для пути: сначала точное/wildcard совпадение,
+   * затем поднимаемся к родителям ('contacts.0.email' → 'contacts.0' → 'contacts')
+   */
+  function findOverride(path: string): FieldTriggerOptions | undefined {
+    if (overrideKeys.length === 0) return undefined
+    const parts = path.split('.')
+    for (let depth = parts.length; depth > 0; depth--) {
+      const candidate = parts.slice(0, depth).join('.')
+      if (fieldTriggers[candidate]) return fieldTriggers[candidate]
+      const pattern = overrideKeys.find(
+        key => key.includes('*') && matchesWildcardPath(key, candidate)
+      )
+      if (pattern) return fieldTriggers[pattern]
+    }
+    return undefined
+  }
+
+  function modeFor(path: string): ValidationTrigger | RevalidationTrigger {
+    const override = findOverride(path)
+    if (stateManager.isSubmitted.value) {
+      return override?.revalidateOn ?? revalidateOn
+    }
+    return override?.validateOn ?? validateOn
+  }
+
+  function validatesOnChange(path: string): boolean {
+    switch (modeFor(path)) {
+      case 'input':
+      case 'mount':
+        return true
+      case 'blur':
+        // До submit touched поле ревалидируется при вводе, после — только на touch()
+        return !stateManager.isSubmitted.value && !!stateManager.touched[path]
+      default:
+        return false
+    }
+  }
+
+  function validatesOnTouch(path: string): boolean {
+    return modeFor(path) !== 'submit'
+  }
+
+  function validatesDependent(path: string): boolean {
+    const mode = modeFor(path)
+    if (mode === 'submit') return false
+    if (mode === 'blur') {
+      return !stateManager.isSubmitted.value && !!stateManager.touched[path]
+    }
+    // В eager-режимах ревалидируем также уже проверенные (но не touched) поля
+    return !!stateManager.touched[path] || path in stateManager.errors
+  }
+
+  function validatesOnMount(path: string): boolean {
+    return modeFor(path) === 'mount'
+  }
+
+  return {
+    modeFor,
+    validatesOnChange,
+    validatesOnTouch,
+    validatesDependent,
+    validatesOnMount,
+  }
+}
@@ -2,3 +2,14 @@
 export * from './forms'
 export * from './rules'
 export * from './utils'
+export * from './messages'
+export * from './schema'
+
+/**
+ * Пользовательские правила, зарегистрированные через registerRules или плагин.
+ * Объявлен в точке входа пакета, чтобы его можно было дополнить через module augmentation:
+ * declare module '@sakhnovkrg/vue-form-validator' {
+ *   interface CustomRuleChainHelpers { phone(_msg?: string): RuleChain<string> }
+ * }
+ */
+export interface CustomRuleChainHelpers {}
@@ -0,0 +1,123 @@
+import { ref, shallowReactive, type MaybeRefOrGetter } from 'vue'
+import { resolveMessage } from '../utils/helpers'
+import { en } from './en'
+import { ru } from './ru'
+
+/** Параметры сообщения: {min}, {max}, {field} и т.п. */
+export type MessageParams = Record<string, unknown>
+
+/**
+ * Формы множественного числа по категориям Intl.PluralRules.
+ * Форма выбирается по параметру count
+ */
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & {
+  other: string
+}
+
+export type MessageTemplate =
+  | string
+  | PluralMessage
+  | ((_params: MessageParams) => string)
+
+/** Ключи встроенных сообщений (совпадают с именами правил) */
+export type MessageKey = keyof typeof en
+
+export type MessagePack = Partial<Record<MessageKey, MessageTemplate>> &
+  Record<string, MessageTemplate>
+
+const FALLBACK_LOCALE = 'en'
+
+const currentLocale = ref(FALLBACK_LOCALE)
+// Пакет заменяется целиком при registerMessages, чтобы формы замечали изменения
+const catalogs = shallowReactive<Record<string, MessagePack>>({ en, ru })
+
+/**
+ * Добавляет или дополняет пакет сообщений для локали
+ * @param locale - Код локали, например 'ru' или 'kk'
+ * @param messages - Сообщения по ключам правил
+ */
+export function registerMessages(locale: string, messages: MessagePack) {
+  catalogs[locale] = { ...catalogs[locale], ...messages }
+}
+
+/**
+ * Переключает локаль сообщений. Формы перевалидируют поля с ошибками
+ */
+export function setLocale(locale: string) {
+  currentLocale.value = locale
+}
+
+export function getLocale(): string {
+  return currentLocale.value
+}
+
+/**
+ * Возвращает пакет сообщений локали (по умолчанию текущей)
+ */
+export function getMessages(locale = currentLocale.value): MessagePack {
+  return catalogs[locale] ?? {}
+}
+
+/**
+ * Подставляет параметры в шаблон: 'Minimum {min}' → 'Minimum 3'
+ */
+export function interpolate(template: string, params: MessageParams): string {
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    params[name] === undefined || params[name] === null
+      ? match
+      : String(params[name])
+  )
+}
+
+function selectPlural(
+  template: PluralMessage,
+  locale: string,
+  count: unknown
+): string {
+  if (typeof count !== 'number') return template.other
+  let category: Intl.LDMLPluralRule = 'other'
+  try {
+    category = new Intl.PluralRules(locale).select(count)
+  } catch {
+    // Неизвестная локаль — используем форму 'other'
+  }
+  return template[category] ?? template.other
+}
+
+/**
+ * Формирует сообщение из каталога текущей локали с откатом на 'en'
+ * @param key - Ключ сообщения (имя правила)
+ * @param params - Параметры для подстановки; count выбирает форму множественного числа
+ * @returns Готовое сообщение или сам ключ, если сообщение не найдено
+ */
+export function formatMessage(key: string, params: MessageParams = {}): string {
+  const locale = currentLocale.value
+  let resolvedLocale = locale
+  let template = catalogs[locale]?.[key]
+  if (template === undefined) {
+    resolvedLocale = FALLBACK_LOCALE
+    template = catalogs[FALLBACK_LOCALE]?.[key]
+  }
+  if (template === undefined) return key
+
+  if (typeof template === 'function') return template(params)
+  const text =
+    typeof template === 'string'
+      ? template
+      : selectPlural(template, resolvedLocale, params.count)
+  return interpolate(text, params)
+}
+
+/**
+ * Сообщение правила: явное сообщение, иначе запись каталога
+ * @param msg - Сообщение, переданное в правило
+ * @param key - Ключ сообщения в каталоге
+ * @param params - Параметры для подстановки
+ */
+export function ruleMessage(
+  msg: MaybeRefOrGetter<string> | undefined,
+  key: MessageKey,
+  params: MessageParams = {}
+): string {
+  return resolveMessage(msg) || formatMessage(key, params)
+}
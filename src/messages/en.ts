@@ -0,0 +1,129 @@
+/**
+ * Встроенные английские сообщения правил
+ */
+export const en = {
+  required: 'This field is required',
+  minLength: {
+    one: 'Minimum {min} character',
+    other: 'Minimum {min} characters',
+  },
+  maxLength: {
+    one: 'Maximum {max} character',
+    other: 'Maximum {max} characters',
+  },
+  email: 'Invalid email address',
+  regex: 'Invalid format',
+  numeric: 'Only numbers are allowed',
+  between: 'Value must be between {min} and {max}',
+  oneOf: 'Invalid value',
+  minValue: 'Minimum value: {min}',
+  maxValue: 'Maximum value: {max}',
+  fileRequired: 'Please select a file',
+  fileSize: 'File "{file}" exceeds maximum size of {max}MB',
+  fileType: 'File "{file}" has invalid type. Allowed: {types}',
+  'fileCount.min': 'Minimum files: {min}',
+  'fileCount.max': 'Maximum files: {max}',
+  arrayRequired: 'At least one item required',
+  arrayMinLength: {
+    one: 'Minimum {min} item required',
+    other: 'Minimum {min} items required',
+  },
+  arrayMaxLength: {
+    one: 'Maximum {max} item allowed',
+    other: 'Maximum {max} items allowed',
+  },
+  arrayUnique: 'Duplicate items: {indices}',
+  arrayEach: {
+    one: 'Item {indices}: {message}',
+    other: 'Items {indices} are invalid',
+  },
+  arrayContains: 'Must include {value}',
+  requiredIf: 'This field is required',
+  remote: 'Value is not allowed',
+  custom: 'Validation failed',
+  sameAs: 'Must match {other} field',
+  uniqueAmong: 'Value must be unique',
+  sumOf: 'Total must be {target} (now {sum})',
+  date: 'Invalid date, expected format {format}',
+  dateAfter: 'Date must be after {other}',
+  dateBefore: 'Date must be before {other}',
+  dateBetween: 'Date must be between {min} and {max}',
+  notInPast: 'Date cannot be in the past',
+  notInFuture: 'Date cannot be in the future',
+  minAge: {
+    one: 'Must be at least {years} year old',
+    other: 'Must be at least {years} years old',
+  },
+  maxAge: {
+    one: 'Must be at most {years} year old',
+    other: 'Must be at most {years} years old',
+  },
+  weekday: 'Date must be a weekday',
+  businessDay: 'Date must be a business day',
+  maxRangeDays: {
+    one: 'Range cannot exceed {days} day',
+    other: 'Range cannot exceed {days} days',
+  },
+  url: 'Invalid URL',
+  uuid: 'Invalid UUID',
+  ipv4: 'Invalid IPv4 address',
+  ipv6: 'Invalid IPv6 address',
+  alpha: 'Only letters are allowed',
+  alphaNum: 'Only letters and digits are allowed',
+  slug: 'Only lowercase letters, digits and hyphens are allowed',
+  hexColor: 'Invalid HEX color',
+  startsWith: 'Must start with "{prefix}"',
+  endsWith: 'Must end with "{suffix}"',
+  contains: 'Must contain "{substring}"',
+  noWhitespace: 'Spaces are not allowed',
+  length: {
+    one: 'Must be exactly {length} character',
+    other: 'Must be exactly {length} characters',
+  },
+  integer: 'Must be a whole number',
+  positive: 'Must be greater than 0',
+  negative: 'Must be less than 0',
+  nonNegative: 'Must be 0 or greater',
+  multipleOf: 'Must be a multiple of {step}',
+  decimalPlaces: {
+    one: 'Maximum {max} decimal place',
+    other: 'Maximum {max} decimal places',
+  },
+  safeInteger: 'Must be a whole number from {min} to {max}',
+  creditCard: 'Invalid card number',
+  'creditCard.brand': 'Cards of this type are not accepted. Allowed: {brands}',
+  iban: 'Invalid IBAN',
+  isbn: 'Invalid ISBN',
+  ean: 'Invalid EAN barcode',
+  gtin: 'Invalid GTIN',
+  bic: 'Invalid BIC/SWIFT code',
+  iin: 'Invalid IIN',
+  'iin.birthDate': 'IIN contains an invalid birth date',
+  bin: 'Invalid BIN',
+  inn: 'Invalid INN',
+  snils: 'Invalid SNILS',
+  ogrn: 'Invalid OGRN',
+  phone: 'Invalid phone number',
+  'phone.country':
+    'Phone numbers from this country are not accepted. Allowed: {countries}',
+  'phone.mobile': 'Enter a mobile phone number',
+  'phone.fixed': 'Enter a landline phone number',
+  password: 'Password is too easy to guess',
+  'password.length': {
+    one: 'Password must be at least {min} character',
+    other: 'Password must be at least {min} characters',
+  },
+  'password.lower': 'Password must contain a lowercase letter',
+  'password.upper': 'Password must contain an uppercase letter',
+  'password.digit': 'Password must contain a digit',
+  'password.symbol': 'Password must contain a symbol',
+  'password.personal': 'Password must not contain your {other}',
+  'password.banned': 'Password contains a forbidden word',
+  'password.hint.length': 'Use at least 12 characters',
+  'password.hint.classes':
+    'Mix uppercase and lowercase letters, digits and symbols',
+  'password.hint.repeat': 'Avoid repeated characters like "aaa"',
+  'password.hint.sequence': 'Avoid sequences like "abc" or "321"',
+  'password.hint.common': 'Avoid common passwords and words',
+  'password.hint.personal': 'Avoid your name, email or username',
+}
@@ -0,0 +1,19 @@
+// Каталог сообщений правил со встроенными пакетами 'en' и 'ru'
+export {
+  registerMessages,
+  setLocale,
+  getLocale,
+  getMessages,
+  formatMessage,
+  interpolate,
+  ruleMessage,
+} from './catalog'
+export type {
+  MessageKey,
+  MessageParams,
+  MessagePack,
+  MessageTemplate,
+  PluralMessage,
+} from './catalog'
+export { en } from './en'
+export { ru } from './ru'
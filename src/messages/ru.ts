@@ -0,0 +1,149 @@
+import type { MessageKey, MessageTemplate } from './catalog'
+
+/**
+ * Встроенные русские сообщения правил
+ */
+export const ru: Record<MessageKey, MessageTemplate> = {
+  required: 'Обязательное поле',
+  minLength: {
+    one: 'Минимум {min} символ',
+    few: 'Минимум {min} символа',
+    many: 'Минимум {min} символов',
+    other: 'Минимум {min} символа',
+  },
+  maxLength: {
+    one: 'Максимум {max} символ',
+    few: 'Максимум {max} символа',
+    many: 'Максимум {max} символов',
+    other: 'Максимум {max} символа',
+  },
+  email: 'Некорректный email',
+  regex: 'Неверный формат',
+  numeric: 'Допускаются только числа',
+  between: 'Значение должно быть от {min} до {max}',
+  oneOf: 'Недопустимое значение',
+  minValue: 'Минимальное значение: {min}',
+  maxValue: 'Максимальное значение: {max}',
+  fileRequired: 'Выберите файл',
+  fileSize: 'Файл "{file}" превышает максимальный размер {max} МБ',
+  fileType: 'Недопустимый тип файла "{file}". Разрешены: {types}',
+  'fileCount.min': 'Минимум файлов: {min}',
+  'fileCount.max': 'Максимум файлов: {max}',
+  arrayRequired: 'Добавьте хотя бы один элемент',
+  arrayMinLength: {
+    one: 'Нужен минимум {min} элемент',
+    few: 'Нужно минимум {min} элемента',
+    many: 'Нужно минимум {min} элементов',
+    other: 'Нужно минимум {min} элемента',
+  },
+  arrayMaxLength: {
+    one: 'Допускается не более {max} элемента',
+    other: 'Допускается не более {max} элементов',
+  },
+  arrayUnique: 'Повторяющиеся элементы: {indices}',
+  arrayEach: {
+    one: 'Элемент {indices}: {message}',
+    few: 'Элементы {indices} заполнены неверно',
+    many: 'Элементы {indices} заполнены неверно',
+    other: 'Элементы {indices} заполнены неверно',
+  },
+  arrayContains: 'Должно содержать {value}',
+  requiredIf: 'Обязательное поле',
+  remote: 'Значение недопустимо',
+  custom: 'Ошибка валидации',
+  sameAs: 'Должно совпадать с полем {other}',
+  uniqueAmong: 'Значение должно быть уникальным',
+  sumOf: 'Сумма должна быть {target} (сейчас {sum})',
+  date: 'Некорректная дата, ожидается формат {format}',
+  dateAfter: 'Дата должна быть позже {other}',
+  dateBefore: 'Дата должна быть раньше {other}',
+  dateBetween: 'Дата должна быть в диапазоне от {min} до {max}',
+  notInPast: 'Дата не может быть в прошлом',
+  notInFuture: 'Дата не может быть в будущем',
+  minAge: {
+    one: 'Возраст должен быть не меньше {years} года',
+    few: 'Возраст должен быть не меньше {years} лет',
+    many: 'Возраст должен быть не меньше {years} лет',
+    other: 'Возраст должен быть не меньше {years} лет',
+  },
+  maxAge: {
+    one: 'Возраст должен быть не больше {years} года',
+    few: 'Возраст должен быть не больше {years} лет',
+    many: 'Возраст должен быть не больше {years} лет',
+    other: 'Возраст должен быть не больше {years} лет',
+  },
+  weekday: 'Дата должна приходиться на будний день',
+  businessDay: 'Дата должна быть рабочим днём',
+  maxRangeDays: {
+    one: 'Диапазон не может превышать {days} день',
+    few: 'Диапазон не может превышать {days} дня',
+    many: 'Диапазон не может превышать {days} дней',
+    other: 'Диапазон не может превышать {days} дня',
+  },
+  url: 'Некорректный URL',
+  uuid: 'Некорректный UUID',
+  ipv4: 'Некорректный IPv4-адрес',
+  ipv6: 'Некорректный IPv6-адрес',
+  alpha: 'Допускаются только буквы',
+  alphaNum: 'Допускаются только буквы и цифры',
+  slug: 'Допускаются только строчные латинские буквы, цифры и дефисы',
+  hexColor: 'Некорректный HEX-цвет',
+  startsWith: 'Должно начинаться с "{prefix}"',
+  endsWith: 'Должно заканчиваться на "{suffix}"',
+  contains: 'Должно содержать "{substring}"',
+  noWhitespace: 'Пробелы не допускаются',
+  length: {
+    one: 'Должно быть ровно {length} символ',
+    few: 'Должно быть ровно {length} символа',
+    many: 'Должно быть ровно {length} символов',
+    other: 'Должно быть ровно {length} символа',
+  },
+  integer: 'Должно быть целым числом',
+  positive: 'Должно быть больше 0',
+  negative: 'Должно быть меньше 0',
+  nonNegative: 'Должно быть не меньше 0',
+  multipleOf: 'Должно быть кратно {step}',
+  decimalPlaces: {
+    one: 'Не более {max} знака после запятой',
+    other: 'Не более {max} знаков после запятой',
+  },
+  safeInteger: 'Должно быть целым числом от {min} до {max}',
+  creditCard: 'Некорректный номер карты',
+  'creditCard.brand': 'Карты этого типа не принимаются. Разрешены: {brands}',
+  iban: 'Некорректный IBAN',
+  isbn: 'Некорректный ISBN',
+  ean: 'Некорректный штрихкод EAN',
+  gtin: 'Некорректный GTIN',
+  bic: 'Некорректный код BIC/SWIFT',
+  iin: 'Некорректный ИИН',
+  'iin.birthDate': 'ИИН содержит некорректную дату рождения',
+  bin: 'Некорректный БИН',
+  inn: 'Некорректный ИНН',
+  snils: 'Некорректный СНИЛС',
+  ogrn: 'Некорректный ОГРН',
+  phone: 'Некорректный номер телефона',
+  'phone.country': 'Номера этой страны не принимаются. Разрешены: {countries}',
+  'phone.mobile': 'Введите номер мобильного телефона',
+  'phone.fixed': 'Введите номер стационарного телефона',
+  password: 'Пароль слишком легко подобрать',
+  'password.length': {
+    one: 'Пароль должен содержать не менее {min} символа',
+    few: 'Пароль должен содержать не менее {min} символов',
+    many: 'Пароль должен содержать не менее {min} символов',
+    other: 'Пароль должен содержать не менее {min} символа',
+  },
+  'password.lower': 'Пароль должен содержать строчную букву',
+  'password.upper': 'Пароль должен содержать заглавную букву',
+  'password.digit': 'Пароль должен содержать цифру',
+  'password.symbol': 'Пароль должен содержать спецсимвол',
+  'password.personal': 'Пароль не должен содержать {other}',
+  'password.banned': 'Пароль содержит запрещённое слово',
+  'password.hint.length': 'Используйте не менее 12 символов',
+  'password.hint.classes':
+    'Сочетайте строчные и заглавные буквы, цифры и спецсимволы',
+  'password.hint.repeat': 'Избегайте повторов вроде "aaa"',
+  'password.hint.sequence':
+    'Избегайте последовательностей вроде "abc" или "321"',
+  'password.hint.common': 'Избегайте распространённых паролей и слов',
+  'password.hint.personal': 'Не используйте имя, email или логин',
+}
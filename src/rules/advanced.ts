@@ -1,8 +1,46 @@
 import type { MaybeRefOrGetter } from 'vue'
-import type { Rule, RuleMeta, CrossFieldRule } from '../forms/types'
+import type { Rule, RuleChain, RuleMeta, CrossFieldRule } from '../forms/types'
 import { debounce } from '../utils/debounce'
-import { resolveMessage } from '../utils/helpers'
-import { getNestedValue, resolveWildcard } from '../utils/nested'
+import { ruleMessage } from '../messages/catalog'
+import { getFormDefaults } from '../forms/defaults'
+import {
+  expandWildcardPath,
+  getNestedValue,
+  resolveSiblingWildcard,
+  resolveWildcard,
+} from '../utils/nested'
+import { deepEqual } from '../utils/deep'
+import { sharedRemoteCache, type RemoteCache } from './remoteCache'
+import { tagRule } from './meta'
+
+/**
+ * Дополнительные опции remote()
+ */
+export interface RemoteOptions {
+  /**
+   * Запоминать результаты проверки: true — общий кэш (invalidateRemote()),
+   * либо свой экземпляр createRemoteCache({ max, ttl }), разделяемый между формами
+   */
+  cache?: boolean | RemoteCache
+  /**
+   * Имя проверки в кэше. Нужно, если checkFn пересоздаётся (строитель правил
+   * в computed) или одна проверка используется в нескольких правилах
+   */
+  key?: string
+}
+
+// Имена проверок по умолчанию: одна и та же checkFn — одна запись в кэше
+const checkScopes = new WeakMap<object, string>()
+let scopeCounter = 0
+
+function scopeOf(checkFn: object): string {
+  let scope = checkScopes.get(checkFn)
+  if (!scope) {
+    scope = `remote#${++scopeCounter}`
+    checkScopes.set(checkFn, scope)
+  }
+  return scope
+}
 
 /**
  * Правило условной обязательности
@@ -15,7 +53,7 @@ import { getNestedValue, resolveWildcard } from '../utils/nested'
 export function requiredIf(
   conditionField: string,
   conditionValue: any,
-  msg: MaybeRefOrGetter<string> = 'This field is required'
+  msg?: MaybeRefOrGetter<string>
 ): Rule<any> {
   const rule: Rule<any> = (
     v: any,
@@ -31,13 +69,16 @@ export function requiredIf(
 
     if (!shouldBeRequired) return null
 
-    const message = resolveMessage(msg)
+    const message = ruleMessage(msg, 'requiredIf', {
+      field: meta?.fieldPath,
+    })
     if (v === null || v === undefined || v === '') return message
     if (Array.isArray(v) && v.length === 0) return message
 
     return null
   }
 
+  tagRule('requiredIf', { field: conditionField, value: conditionValue }, rule)
   ;(rule as any).__crossField = {
     dependsOn: [conditionField],
   }
@@ -52,52 +93,68 @@ export function requiredIf(
 /**
  * Правило удаленной асинхронной валидации
  * Позволяет проверять значения на сервере с дебаунсом
- * @param checkFn - Асинхронная функция проверки, возвращает true если значение валидно
+ * @param checkFn - Асинхронная функция проверки, возвращает true если значение валидно.
+ *   Получает AbortSignal, который отменяется, когда проверка устарела
  * @param msg - Сообщение об ошибке
- * @param delay - Задержка дебаунса в миллисекундах (по умолчанию 400)
+ * @param delay - Задержка дебаунса в миллисекундах (по умолчанию remoteDelay из setFormDefaults — 400)
+ * @param options - Кэширование результатов между очистками кэша валидации и формами
  * @returns Правило валидации
  */
 export function remote(
-  checkFn: (_value: any) => Promise<boolean>,
-  msg: MaybeRefOrGetter<string> = 'Value is not allowed',
-  delay = 400
+  checkFn: (_value: any, _signal?: AbortSignal) => Promise<boolean>,
+  msg?: MaybeRefOrGetter<string>,
+  delay = getFormDefaults().remoteDelay,
+  options: RemoteOptions = {}
 ): Rule<any> {
-  const debounced = debounce(checkFn, delay)
-  return async v => {
+  const cache =
+    options.cache === true ? sharedRemoteCache : options.cache || null
+  const scope = options.key ?? scopeOf(checkFn)
+  const debounced = debounce(
+    (value: any, signal?: AbortSignal) => checkFn(value, signal),
+    delay
+  )
+  return tagRule('remote', { delay }, async (v, _values, meta) => {
     if (v === null || v === undefined || v === '') return null
-    const message = resolveMessage(msg)
     try {
-      const isOk = await debounced(v)
-      return isOk ? null : message
+      let isOk = cache?.get(scope, v)
+      if (isOk === undefined) {
+        isOk = await debounced(v, meta?.signal)
+        // Ошибки и отменённые проверки не запоминаем
+        cache?.set(scope, v, isOk)
+      }
+      return isOk
+        ? null
+        : ruleMessage(msg, 'remote', { field: meta?.fieldPath })
     } catch {
-      // При ошибке сети/сервера пропускаем валидацию (не блокируем пользователя)
+      // При ошибке сети/сервера или отмене пропускаем валидацию (не блокируем пользователя)
       return null
     }
-  }
+  })
 }
 
 /**
  * Правило пользовательской валидации
  * Позволяет создавать произвольные правила с доступом к всем значениям формы
- * @param validator - Функция валидации, получает значение и все значения формы
+ * @param validator - Функция валидации, получает значение, все значения формы и meta (fieldPath, signal)
  * @param msg - Сообщение об ошибке (используется только если validator возвращает false)
  * @returns Правило валидации
  */
 export function custom(
   validator: (
     _value: any,
-    _values: Record<string, any>
+    _values: Record<string, any>,
+    _meta: RuleMeta
   ) => boolean | string | Promise<boolean | string>,
   msg?: MaybeRefOrGetter<string>
 ): Rule<any> {
-  const resolve = (result: boolean | string): string | null => {
-    if (typeof result === 'string') return result
-    if (result === true) return null
-    return resolveMessage(msg) || 'Validation failed'
-  }
+  return tagRule('custom', {}, (v, formValues, meta) => {
+    const resolve = (result: boolean | string): string | null => {
+      if (typeof result === 'string') return result
+      if (result === true) return null
+      return ruleMessage(msg, 'custom', { field: meta?.fieldPath })
+    }
 
-  return (v, formValues) => {
-    const result = validator(v, formValues || {})
+    const result = validator(v, formValues || {}, meta ?? {})
 
     // Если результат - промис, обрабатываем асинхронно
     if (result && typeof (result as any).then === 'function') {
@@ -106,7 +163,7 @@ export function custom(
 
     // Синхронный результат
     return resolve(result as boolean | string)
-  }
+  })
 }
 
 /**
@@ -129,11 +186,18 @@ export function sameAs(
     const isEmpty = (val: any) =>
       val === null || val === undefined || val === ''
     if (isEmpty(v) && isEmpty(otherValue)) return null
-    const message = resolveMessage(msg) || `Must match ${fieldName} field`
-    return v === otherValue ? null : message
+    if (v === otherValue) return null
+    return ruleMessage(msg, 'sameAs', {
+      other: fieldName,
+      field: meta?.fieldPath,
+    })
   }
 
-  const crossFieldRule = rule as unknown as CrossFieldRule<any>
+  const crossFieldRule = tagRule(
+    'sameAs',
+    { field: fieldName },
+    rule as unknown as CrossFieldRule<any>
+  )
   crossFieldRule.__crossField = {
     dependsOn: [fieldName],
   }
@@ -141,41 +205,125 @@ export function sameAs(
   return crossFieldRule
 }
 
+const isEmptyValue = (val: any) =>
+  val === null || val === undefined || val === ''
+
+/**
+ * Пути всех элементов по wildcard-паттерну: для 'participants.1.email' и
+ * 'participants.*.email' — email каждого участника
+ */
+function siblingPaths(
+  pattern: string,
+  formValues: Record<string, any>,
+  fieldPath: string | undefined
+): string[] {
+  const resolved = fieldPath
+    ? resolveSiblingWildcard(pattern, fieldPath)
+    : pattern
+  return expandWildcardPath(resolved, formValues)
+}
+
 /**
- * Правило проверки что дата позже даты в другом поле
- * Полезно для проверки диапазонов дат (начало - конец)
- * @param startDateField - Имя поля с начальной датой
+ * Правило уникальности среди соседних элементов массива
+ * Ревалидируется при изменении любого из них
+ * @param pattern - Wildcard-путь значений для сравнения: 'participants.*.email'
  * @param msg - Сообщение об ошибке
  * @returns Правило кросс-валидации
  */
-export function dateAfter(
-  startDateField: string,
+export function uniqueAmong(
+  pattern: string,
   msg?: MaybeRefOrGetter<string>
-): CrossFieldRule<string> {
-  const rule = (
-    v: string,
-    formValues?: Record<string, any>,
-    meta?: RuleMeta
-  ) => {
-    if (!formValues) return null
-    const resolved = meta?.fieldPath
-      ? resolveWildcard(startDateField, meta.fieldPath)
-      : startDateField
-    const startDateValue = getNestedValue(formValues, resolved)
-    if (!v || !startDateValue) return null
+): CrossFieldRule<any> {
+  const rule = (v: any, formValues?: Record<string, any>, meta?: RuleMeta) => {
+    if (!formValues || isEmptyValue(v)) return null
+    const fieldPath = meta?.fieldPath
+    const duplicate = siblingPaths(pattern, formValues, fieldPath).some(
+      path =>
+        path !== fieldPath && deepEqual(getNestedValue(formValues, path), v)
+    )
+    if (!duplicate) return null
+    return ruleMessage(msg, 'uniqueAmong', { field: fieldPath })
+  }
+
+  const crossFieldRule = tagRule(
+    'uniqueAmong',
+    { field: pattern },
+    rule as unknown as CrossFieldRule<any>
+  )
+  crossFieldRule.__crossField = {
+    dependsOn: [],
+    dependsOnAll: [pattern],
+  }
 
-    const startDate = new Date(startDateValue)
-    const endDate = new Date(v)
-    const message =
-      resolveMessage(msg) || `Date must be after ${startDateField}`
+  return crossFieldRule
+}
 
-    return endDate > startDate ? null : message
+/**
+ * Правило суммы значений соседних элементов: доли 'items.*.percent' дают 100.
+ * Пустые значения не учитываются; на пустом поле правило не срабатывает
+ * @param pattern - Wildcard-путь слагаемых: 'items.*.percent'
+ * @param target - Ожидаемая сумма
+ * @param msg - Сообщение об ошибке
+ * @returns Правило кросс-валидации
+ */
+export function sumOf(
+  pattern: string,
+  target: number,
+  msg?: MaybeRefOrGetter<string>
+): CrossFieldRule<any> {
+  const rule = (v: any, formValues?: Record<string, any>, meta?: RuleMeta) => {
+    if (!formValues || isEmptyValue(v)) return null
+    const terms = siblingPaths(pattern, formValues, meta?.fieldPath)
+      .map(path => getNestedValue(formValues, path))
+      .filter(term => !isEmptyValue(term))
+      .map(Number)
+    // Нечисловые слагаемые — забота правила numeric() на самих полях
+    if (terms.some(Number.isNaN)) return null
+    // Округляем, чтобы 0.1 + 0.2 совпало с 0.3
+    const sum = Math.round(terms.reduce((a, b) => a + b, 0) * 1e9) / 1e9
+    if (sum === target) return null
+    return ruleMessage(msg, 'sumOf', { target, sum, field: meta?.fieldPath })
   }
 
-  const crossFieldRule = rule as unknown as CrossFieldRule<string>
+  const crossFieldRule = tagRule(
+    'sumOf',
+    { field: pattern, target },
+    rule as unknown as CrossFieldRule<any>
+  )
   crossFieldRule.__crossField = {
-    dependsOn: [startDateField],
+    dependsOn: [],
+    dependsOnAll: [pattern],
   }
 
   return crossFieldRule
 }
+
+// dateAfter перенесён к остальным правилам дат
+export { dateAfter } from './date'
+
+/**
+ * Копия правила с флагом предупреждения и теми же метаданными (__rule, __crossField, ...).
+ * Исходное правило может быть общим для нескольких полей, поэтому не меняется
+ */
+function warningCopy(rule: Rule<any>): Rule<any> {
+  const copy: Rule<any> = (v, values, meta) => rule(v, values, meta)
+  Object.assign(copy, rule)
+  ;(copy as any).__warning = true
+  return copy
+}
+
+/**
+ * Превращает правило или цепочку в неблокирующее предупреждение
+ * Сообщения попадают в warnings, не влияют на isValid и не блокируют submit()
+ * @param rule - Правило или цепочка правил
+ * @returns Копия правила, помеченная как предупреждение; цепочка — та же,
+ *   с копиями правил. Исходные правила не меняются
+ */
+export function asWarning<R extends Rule<any> | RuleChain<any>>(rule: R): R {
+  const chainRules = (rule as any).__rules
+  if (Array.isArray(chainRules)) {
+    chainRules.splice(0, chainRules.length, ...chainRules.map(warningCopy))
+    return rule
+  }
+  return warningCopy(rule as Rule<any>) as R
+}
@@ -1,6 +1,16 @@
 import type { MaybeRefOrGetter } from 'vue'
-import type { Rule } from '../forms/types'
-import { resolveMessage } from '../utils/helpers'
+import type { Rule, RuleChain, RuleMeta } from '../forms/types'
+import { ruleMessage } from '../messages/catalog'
+import { normalizeFormRules } from '../forms/normalizeRules'
+import { getNestedValue } from '../utils/nested'
+import { deepEqual } from '../utils/deep'
+import { describeRules, tagRule } from './meta'
+
+/**
+ * Ключ элемента для arrayUnique(): путь свойства ('email', 'address.city')
+ * или функция, возвращающая значение для сравнения
+ */
+export type ArrayItemKey<T = any> = string | ((_item: T) => unknown)
 
 /**
  * Правило минимальной длины массива
@@ -12,11 +22,14 @@ export function arrayMinLength(
   min: number,
   msg?: MaybeRefOrGetter<string>
 ): Rule<any[]> {
-  return arr => {
-    if (!Array.isArray(arr)) return null
-    const message = resolveMessage(msg) || `Minimum ${min} items required`
-    return arr.length >= min ? null : message
-  }
+  return tagRule('arrayMinLength', { min }, (arr, _values, meta) => {
+    if (!Array.isArray(arr) || arr.length >= min) return null
+    return ruleMessage(msg, 'arrayMinLength', {
+      min,
+      count: min,
+      field: meta?.fieldPath,
+    })
+  })
 }
 
 /**
@@ -24,13 +37,12 @@ export function arrayMinLength(
  * @param msg - Optional custom error message
  */
 export function arrayRequired(msg?: MaybeRefOrGetter<string>): Rule<any[]> {
-  return arr => {
+  return tagRule('arrayRequired', {}, (arr, _values, meta) => {
     if (!Array.isArray(arr) || arr.length === 0) {
-      const errorMsg = resolveMessage(msg) || 'At least one item required'
-      return errorMsg
+      return ruleMessage(msg, 'arrayRequired', { field: meta?.fieldPath })
     }
     return null
-  }
+  })
 }
 
 /**
@@ -43,9 +55,202 @@ export function arrayMaxLength(
   max: number,
   msg?: MaybeRefOrGetter<string>
 ): Rule<any[]> {
-  return arr => {
+  return tagRule('arrayMaxLength', { max }, (arr, _values, meta) => {
+    if (!Array.isArray(arr) || arr.length <= max) return null
+    return ruleMessage(msg, 'arrayMaxLength', {
+      max,
+      count: max,
+      field: meta?.fieldPath,
+    })
+  })
+}
+
+/**
+ * Индексы элементов, не прошедших последнюю проверку, по путям полей.
+ * form.failedItems() читает их, пока поле показывает ошибку этого правила
+ */
+function createFailedItems() {
+  const byPath = new Map<string, { indices: number[]; message: string }>()
+  return {
+    record(
+      fieldPath: string | undefined,
+      indices: number[],
+      message: string | null
+    ) {
+      if (fieldPath === undefined) return
+      if (message) byPath.set(fieldPath, { indices, message })
+      else byPath.delete(fieldPath)
+    },
+    read(fieldPath: string, shown: string[]): number[] {
+      const failed = byPath.get(fieldPath)
+      return failed && shown.includes(failed.message) ? failed.indices : []
+    },
+  }
+}
+
+/** Номера элементов для сообщения: с единицы, через запятую */
+function positions(indices: number[]): string {
+  return indices.map(i => i + 1).join(', ')
+}
+
+/**
+ * Правило уникальности элементов массива. Объекты сравниваются по значению;
+ * пустые ключи (null, undefined, '') не считаются повторами
+ * @param by - Путь свойства или функция-селектор для массивов объектов
+ * @param msg - Сообщение об ошибке
+ * @returns Правило валидации
+ * @example
+ * arrayUnique('email') // участники с разными email
+ * arrayUnique(p => p.email.toLowerCase())
+ */
+export function arrayUnique<T = any>(
+  by?: ArrayItemKey<T>,
+  msg?: MaybeRefOrGetter<string>
+): Rule<T[]> {
+  const failed = createFailedItems()
+  const select = (item: T): unknown =>
+    by === undefined
+      ? item
+      : typeof by === 'function'
+        ? by(item)
+        : getNestedValue(item, by)
+
+  const rule = tagRule('arrayUnique', { by }, (arr, _values, meta) => {
     if (!Array.isArray(arr)) return null
-    const message = resolveMessage(msg) || `Maximum ${max} items allowed`
-    return arr.length <= max ? null : message
+    const keys = arr.map(select)
+    // Повтором считается каждое следующее вхождение, первое остаётся валидным
+    const duplicates = keys.flatMap((key, i) =>
+      key !== null &&
+      key !== undefined &&
+      key !== '' &&
+      keys.slice(0, i).some(prev => deepEqual(prev, key))
+        ? [i]
+        : []
+    )
+    const message = duplicates.length
+      ? ruleMessage(msg, 'arrayUnique', {
+          indices: positions(duplicates),
+          count: duplicates.length,
+          field: meta?.fieldPath,
+        })
+      : null
+    failed.record(meta?.fieldPath, duplicates, message)
+    return message
+  })
+  ;(rule as any).__failedItems = failed.read
+  return rule
+}
+
+/** Первое сообщение из результата правила */
+function firstMessage(result: string | string[] | null | undefined) {
+  const messages = Array.isArray(result) ? result : [result]
+  return messages.find(m => typeof m === 'string' && m.length > 0) ?? null
+}
+
+/**
+ * Проверяет элемент правилами по порядку до первой ошибки.
+ * Синхронные правила выполняются сразу, после асинхронного — продолжение в then
+ */
+function checkItem(
+  rules: Rule<any>[],
+  item: unknown,
+  formValues: Record<string, any> | undefined,
+  meta: RuleMeta,
+  from = 0
+): string | null | Promise<string | null> {
+  for (let i = from; i < rules.length; i++) {
+    const result = rules[i](item, formValues, meta)
+    if (result && typeof (result as any).then === 'function') {
+      return (result as Promise<string | string[] | null>).then(
+        resolved =>
+          firstMessage(resolved) ??
+          checkItem(rules, item, formValues, meta, i + 1)
+      )
+    }
+    const message = firstMessage(result as string | string[] | null)
+    if (message) return message
   }
+  return null
+}
+
+/**
+ * Правило для каждого элемента массива: правило, цепочка или массив правил.
+ * Ошибка перечисляет номера неверных элементов, form.failedItems(path)
+ * возвращает их индексы для подсветки строк. Правила элементов получают путь
+ * 'items.2' и могут быть асинхронными; предупреждения (asWarning) пропускаются
+ * @param rules - Правила элемента
+ * @param msg - Сообщение об ошибке; по умолчанию — номера элементов и первая ошибка
+ * @returns Правило валидации
+ * @example
+ * arrayEach(r.required().email()) // список email-адресов
+ */
+export function arrayEach<T = any>(
+  rules: Rule<T> | RuleChain<T> | Array<Rule<T> | RuleChain<T>>,
+  msg?: MaybeRefOrGetter<string>
+): Rule<T[]> {
+  const itemRules = (normalizeFormRules({ item: rules }).item ?? []).filter(
+    rule => !(rule as any).__warning
+  )
+  const failed = createFailedItems()
+
+  const summarize = (
+    results: Array<string | null>,
+    fieldPath: string | undefined
+  ) => {
+    const indices = results.flatMap((message, i) => (message ? [i] : []))
+    const message = indices.length
+      ? ruleMessage(msg, 'arrayEach', {
+          indices: positions(indices),
+          count: indices.length,
+          message: results[indices[0]],
+          field: fieldPath,
+        })
+      : null
+    failed.record(fieldPath, indices, message)
+    return message
+  }
+
+  const rule = tagRule(
+    'arrayEach',
+    { rules: describeRules(itemRules) },
+    (arr: T[], formValues?: Record<string, any>, meta?: RuleMeta) => {
+      if (!Array.isArray(arr)) return null
+      const fieldPath = meta?.fieldPath
+      const results = arr.map((item, i) =>
+        checkItem(itemRules, item, formValues, {
+          fieldPath: fieldPath === undefined ? undefined : `${fieldPath}.${i}`,
+          signal: meta?.signal,
+        })
+      )
+      if (results.some(r => typeof (r as any)?.then === 'function')) {
+        return Promise.all(results).then(resolved =>
+          summarize(resolved, fieldPath)
+        )
+      }
+      return summarize(results as Array<string | null>, fieldPath)
+    }
+  )
+  ;(rule as any).__failedItems = failed.read
+  return rule
+}
+
+/**
+ * Правило: массив содержит значение (объекты сравниваются по значению)
+ * @param value - Обязательный элемент
+ * @param msg - Сообщение об ошибке
+ * @returns Правило валидации
+ */
+export function arrayContains<T = any>(
+  value: T,
+  msg?: MaybeRefOrGetter<string>
+): Rule<T[]> {
+  return tagRule('arrayContains', { value }, (arr, _values, meta) => {
+    if (!Array.isArray(arr) || arr.some(item => deepEqual(item, value))) {
+      return null
+    }
+    return ruleMessage(msg, 'arrayContains', {
+      value: typeof value === 'object' ? JSON.stringify(value) : value,
+      field: meta?.fieldPath,
+    })
+  })
 }
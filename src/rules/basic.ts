@@ -1,27 +1,25 @@
 import type { MaybeRefOrGetter } from 'vue'
 import type { Rule } from '../forms/types'
-import { resolveMessage } from '../utils/helpers'
+import { ruleMessage } from '../messages/catalog'
+import { tagRule } from './meta'
 
 /**
  * Правило обязательного поля
  * @param msg - Сообщение об ошибке
  * @returns Правило валидации
  */
-export function required(
-  msg: MaybeRefOrGetter<string> = 'This field is required'
-): Rule<any> {
-  return v => {
+export function required(msg?: MaybeRefOrGetter<string>): Rule<any> {
+  return tagRule('required', {}, (v, _values, meta) => {
     if (
       v === null ||
       v === undefined ||
       v === '' ||
       (Array.isArray(v) && v.length === 0)
     ) {
-      const message = resolveMessage(msg) || 'This field is required'
-      return message
+      return ruleMessage(msg, 'required', { field: meta?.fieldPath })
     }
     return null
-  }
+  })
 }
 
 /**
@@ -36,12 +34,15 @@ export function minLength(
 ): Rule<string> {
   if (len < 0) throw new Error('Minimum length cannot be negative')
 
-  return v => {
+  return tagRule('minLength', { min: len }, (v, _values, meta) => {
     if (!v || String(v).length >= len) return null
 
-    const message = resolveMessage(msg) || `Minimum ${len} characters`
-    return message
-  }
+    return ruleMessage(msg, 'minLength', {
+      min: len,
+      count: len,
+      field: meta?.fieldPath,
+    })
+  })
 }
 
 /**
@@ -56,10 +57,14 @@ export function maxLength(
 ): Rule<string> {
   if (len < 0) throw new Error('Maximum length cannot be negative')
 
-  return v => {
-    const message = resolveMessage(msg) || `Maximum ${len} characters`
-    return !v || String(v).length <= len ? null : message
-  }
+  return tagRule('maxLength', { max: len }, (v, _values, meta) => {
+    if (!v || String(v).length <= len) return null
+    return ruleMessage(msg, 'maxLength', {
+      max: len,
+      count: len,
+      field: meta?.fieldPath,
+    })
+  })
 }
 
 /**
@@ -67,14 +72,12 @@ export function maxLength(
  * @param msg - Сообщение об ошибке
  * @returns Правило валидации
  */
-export function email(
-  msg: MaybeRefOrGetter<string> = 'Invalid email address'
-): Rule<string> {
+export function email(msg?: MaybeRefOrGetter<string>): Rule<string> {
   const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
-  return v => {
-    const message = resolveMessage(msg)
-    return !v || emailRegex.test(v) ? null : message
-  }
+  return tagRule('email', {}, (v, _values, meta) => {
+    if (!v || emailRegex.test(v)) return null
+    return ruleMessage(msg, 'email', { field: meta?.fieldPath })
+  })
 }
 
 /**
@@ -85,17 +88,17 @@ export function email(
  */
 export function regex(
   pattern: RegExp,
-  msg: MaybeRefOrGetter<string> = 'Invalid format'
+  msg?: MaybeRefOrGetter<string>
 ): Rule<string> {
   // Убираем флаг g для предотвращения stateful lastIndex поведения
   const safePattern = pattern.global
     ? new RegExp(pattern.source, pattern.flags.replace('g', ''))
     : pattern
 
-  return v => {
-    const message = resolveMessage(msg)
-    return !v || safePattern.test(v) ? null : message
-  }
+  return tagRule('regex', { pattern: safePattern }, (v, _values, meta) => {
+    if (!v || safePattern.test(v)) return null
+    return ruleMessage(msg, 'regex', { field: meta?.fieldPath })
+  })
 }
 
 /**
@@ -103,14 +106,12 @@ export function regex(
  * @param msg - Сообщение об ошибке
  * @returns Правило валидации
  */
-export function numeric(
-  msg: MaybeRefOrGetter<string> = 'Only numbers are allowed'
-): Rule<string | number> {
-  return v => {
+export function numeric(msg?: MaybeRefOrGetter<string>): Rule<string | number> {
+  return tagRule('numeric', {}, (v, _values, meta) => {
     if (v === null || v === undefined || v === '') return null
-    const message = resolveMessage(msg)
-    return /^-?\d*\.?\d+$/.test(String(v)) ? null : message
-  }
+    if (/^-?\d*\.?\d+$/.test(String(v))) return null
+    return ruleMessage(msg, 'numeric', { field: meta?.fieldPath })
+  })
 }
 
 /**
@@ -128,13 +129,12 @@ export function between(
   if (min > max)
     throw new Error('Minimum value cannot be greater than maximum value')
 
-  return v => {
+  return tagRule('between', { min, max }, (v, _values, meta) => {
     if (v === null || v === undefined || v === '') return null
     const num = Number(v)
-    const message =
-      resolveMessage(msg) || `Value must be between ${min} and ${max}`
-    return !isNaN(num) && num >= min && num <= max ? null : message
-  }
+    if (!isNaN(num) && num >= min && num <= max) return null
+    return ruleMessage(msg, 'between', { min, max, field: meta?.fieldPath })
+  })
 }
 
 /**
@@ -143,19 +143,16 @@ export function between(
  * @param msg - Сообщение об ошибке
  * @returns Правило валидации
  */
-export function oneOf(
-  list: any[],
-  msg: MaybeRefOrGetter<string> = 'Invalid value'
-): Rule<any> {
+export function oneOf(list: any[], msg?: MaybeRefOrGetter<string>): Rule<any> {
   if (!Array.isArray(list) || list.length === 0) {
     throw new Error('oneOf requires a non-empty array')
   }
 
-  return v => {
+  return tagRule('oneOf', { list }, (v, _values, meta) => {
     if (v === null || v === undefined || v === '') return null
-    const message = resolveMessage(msg)
-    return list.includes(v) ? null : message
-  }
+    if (list.includes(v)) return null
+    return ruleMessage(msg, 'oneOf', { field: meta?.fieldPath })
+  })
 }
 
 /**
@@ -168,12 +165,12 @@ export function minValue(
   min: number,
   msg?: MaybeRefOrGetter<string>
 ): Rule<string | number> {
-  return v => {
+  return tagRule('minValue', { min }, (v, _values, meta) => {
     if (v === null || v === undefined || v === '') return null
     const num = Number(v)
-    const message = resolveMessage(msg) || `Minimum value: ${min}`
-    return !isNaN(num) && num >= min ? null : message
-  }
+    if (!isNaN(num) && num >= min) return null
+    return ruleMessage(msg, 'minValue', { min, field: meta?.fieldPath })
+  })
 }
 
 /**
@@ -186,10 +183,10 @@ export function maxValue(
   max: number,
   msg?: MaybeRefOrGetter<string>
 ): Rule<string | number> {
-  return v => {
+  return tagRule('maxValue', { max }, (v, _values, meta) => {
     if (v === null || v === undefined || v === '') return null
     const num = Number(v)
-    const message = resolveMessage(msg) || `Maximum value: ${max}`
-    return !isNaN(num) && num <= max ? null : message
-  }
+    if (!isNaN(num) && num <= max) return null
+    return ruleMessage(msg, 'maxValue', { max, field: meta?.fieldPath })
+  })
 }
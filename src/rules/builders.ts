@@ -10,10 +10,68 @@ import {
   minValue,
   maxValue,
 } from './basic'
+import {
+  url,
+  uuid,
+  ipv4,
+  ipv6,
+  alpha,
+  alphaNum,
+  slug,
+  hexColor,
+  startsWith,
+  endsWith,
+  contains,
+  noWhitespace,
+  length,
+} from './string'
+import {
+  integer,
+  positive,
+  negative,
+  nonNegative,
+  multipleOf,
+  decimalPlaces,
+  safeInteger,
+} from './number'
+import {
+  date,
+  dateAfter,
+  dateBefore,
+  dateBetween,
+  notInPast,
+  notInFuture,
+  minAge,
+  maxAge,
+  weekday,
+  businessDay,
+  maxRangeDays,
+} from './date'
+import { creditCard, iban, isbn, ean, gtin, bic } from './checksum'
+import { iin, bin, inn, snils, ogrn } from './regional'
+import { phone } from './phone'
+import { password } from './password'
 import { fileRequired, fileSize, fileType, fileCount } from './file'
-import { arrayMinLength, arrayRequired, arrayMaxLength } from './array'
-import { remote, custom, sameAs, dateAfter, requiredIf } from './advanced'
+import {
+  arrayMinLength,
+  arrayRequired,
+  arrayMaxLength,
+  arrayUnique,
+  arrayEach,
+  arrayContains,
+} from './array'
+import {
+  remote,
+  custom,
+  sameAs,
+  uniqueAmong,
+  sumOf,
+  requiredIf,
+  asWarning,
+} from './advanced'
+import { tagRule } from './meta'
 import type { Rule, RuleChain } from '../forms/types'
+import type { CustomRuleChainHelpers } from '../index'
 
 /**
  * Карта всех доступных фабрик правил валидации
@@ -29,6 +87,39 @@ type FactoryMap = {
   oneOf: typeof oneOf
   minValue: typeof minValue
   maxValue: typeof maxValue
+  integer: typeof integer
+  positive: typeof positive
+  negative: typeof negative
+  nonNegative: typeof nonNegative
+  multipleOf: typeof multipleOf
+  decimalPlaces: typeof decimalPlaces
+  safeInteger: typeof safeInteger
+  url: typeof url
+  uuid: typeof uuid
+  ipv4: typeof ipv4
+  ipv6: typeof ipv6
+  alpha: typeof alpha
+  alphaNum: typeof alphaNum
+  slug: typeof slug
+  hexColor: typeof hexColor
+  startsWith: typeof startsWith
+  endsWith: typeof endsWith
+  contains: typeof contains
+  noWhitespace: typeof noWhitespace
+  length: typeof length
+  creditCard: typeof creditCard
+  iban: typeof iban
+  isbn: typeof isbn
+  ean: typeof ean
+  gtin: typeof gtin
+  bic: typeof bic
+  iin: typeof iin
+  bin: typeof bin
+  inn: typeof inn
+  snils: typeof snils
+  ogrn: typeof ogrn
+  phone: typeof phone
+  password: typeof password
   fileRequired: typeof fileRequired
   fileSize: typeof fileSize
   fileType: typeof fileType
@@ -36,11 +127,59 @@ type FactoryMap = {
   remote: typeof remote
   custom: typeof custom
   sameAs: typeof sameAs
+  uniqueAmong: typeof uniqueAmong
+  sumOf: typeof sumOf
+  date: typeof date
   dateAfter: typeof dateAfter
+  dateBefore: typeof dateBefore
+  dateBetween: typeof dateBetween
+  notInPast: typeof notInPast
+  notInFuture: typeof notInFuture
+  minAge: typeof minAge
+  maxAge: typeof maxAge
+  weekday: typeof weekday
+  businessDay: typeof businessDay
+  maxRangeDays: typeof maxRangeDays
   requiredIf: typeof requiredIf
   arrayMinLength: typeof arrayMinLength
   arrayRequired: typeof arrayRequired
   arrayMaxLength: typeof arrayMaxLength
+  arrayUnique: typeof arrayUnique
+  arrayEach: typeof arrayEach
+  arrayContains: typeof arrayContains
+}
+
+/**
+ * Фабрика пользовательского правила для регистрации в строителе
+ */
+export type RuleFactory = (..._args: any[]) => Rule<any>
+
+// Пользовательские фабрики, зарегистрированные через registerRules/плагин
+const customFactories: Record<string, RuleFactory> = {}
+
+/**
+ * Регистрирует пользовательские правила, доступные в createRules() и цепочках.
+ * Для типизации дополните интерфейс CustomRuleChainHelpers
+ * @param factories - Фабрики правил по именам
+ */
+export function registerRules(factories: Record<string, RuleFactory>) {
+  Object.assign(customFactories, factories)
+}
+
+/**
+ * Вызывает фабрику по имени. Правила без метаданных (пользовательские фабрики)
+ * получают имя фабрики и её аргументы, чтобы их видели describe() и attrs()
+ */
+function callFactory(
+  factories: Record<string, RuleFactory>,
+  name: string,
+  args: any[]
+): Rule<any> {
+  const rule = factories[name](...args)
+  if (typeof rule === 'function' && !(rule as any).__rule) {
+    tagRule(name, { args }, rule)
+  }
+  return rule
 }
 
 /**
@@ -69,7 +208,7 @@ type ChainableRules = {
  * @returns Цепочка правил
  */
 function wrapRule<T>(
-  factories: FactoryMap,
+  factories: Record<string, RuleFactory>,
   initialRule: Rule<T>
 ): RuleChain<T> {
   const rules: Rule<any>[] = [initialRule]
@@ -116,6 +255,9 @@ function wrapRule<T>(
       if (prop === Symbol.iterator) {
         return rules[Symbol.iterator].bind(rules)
       }
+      if (prop === 'asWarning') {
+        return () => asWarning(receiver as RuleChain<any>)
+      }
       if (prop === 'and') {
         return (
           ...extras: Array<
@@ -130,16 +272,11 @@ function wrapRule<T>(
         }
       }
       if (typeof prop === 'string') {
-        const key = prop as keyof FactoryMap
-        const factory = factories[key]
-        if (factory) {
-          return ((..._args: any[]) => {
-            const nextRule = (factory as (..._args: any[]) => Rule<any>)(
-              ..._args
-            )
-            append(nextRule)
+        if (factories[prop]) {
+          return (..._args: any[]) => {
+            append(callFactory(factories, prop, _args))
             return receiver as RuleChain<any>
-          }) as ChainableRules[typeof key]
+          }
         }
       }
       const value = Reflect.get(chained, prop, receiver)
@@ -154,7 +291,7 @@ function wrapRule<T>(
  * Тип строителя правил
  * Предоставляет все доступные методы создания цепочек правил
  */
-export type RulesBuilder = ChainableRules
+export type RulesBuilder = ChainableRules & CustomRuleChainHelpers
 
 /**
  * Создает строителя правил валидации
@@ -162,7 +299,7 @@ export type RulesBuilder = ChainableRules
  * @returns Объект с методами создания цепочек правил
  */
 export function createRules(): RulesBuilder {
-  const factories: FactoryMap = {
+  const builtIn: FactoryMap = {
     required,
     minLength,
     maxLength,
@@ -173,6 +310,39 @@ export function createRules(): RulesBuilder {
     oneOf,
     minValue,
     maxValue,
+    integer,
+    positive,
+    negative,
+    nonNegative,
+    multipleOf,
+    decimalPlaces,
+    safeInteger,
+    url,
+    uuid,
+    ipv4,
+    ipv6,
+    alpha,
+    alphaNum,
+    slug,
+    hexColor,
+    startsWith,
+    endsWith,
+    contains,
+    noWhitespace,
+    length,
+    creditCard,
+    iban,
+    isbn,
+    ean,
+    gtin,
+    bic,
+    iin,
+    bin,
+    inn,
+    snils,
+    ogrn,
+    phone,
+    password,
     fileRequired,
     fileSize,
     fileType,
@@ -180,27 +350,43 @@ export function createRules(): RulesBuilder {
     arrayMinLength,
     arrayRequired,
     arrayMaxLength,
+    arrayUnique,
+    arrayEach,
+    arrayContains,
     remote,
     custom,
     sameAs,
+    uniqueAmong,
+    sumOf,
+    date,
     dateAfter,
+    dateBefore,
+    dateBetween,
+    notInPast,
+    notInFuture,
+    minAge,
+    maxAge,
+    weekday,
+    businessDay,
+    maxRangeDays,
     requiredIf,
   }
+  // Встроенные правила нельзя переопределить пользовательскими
+  const factories: Record<string, RuleFactory> = {
+    ...customFactories,
+    ...builtIn,
+  }
 
-  return new Proxy({} as ChainableRules, {
+  return new Proxy({} as RulesBuilder, {
     get(_target, prop) {
       if (typeof prop !== 'string') {
         return undefined
       }
-      const key = prop as keyof FactoryMap
-      const factory = factories[key]
-      if (!factory) {
+      if (!factories[prop]) {
         return undefined
       }
-      return ((..._args: any[]) => {
-        const rule = (factory as (..._args: any[]) => Rule<any>)(..._args)
-        return wrapRule(factories, rule)
-      }) as ChainableRules[typeof key]
+      return (..._args: any[]) =>
+        wrapRule(factories, callFactory(factories, prop, _args))
     },
   })
 }
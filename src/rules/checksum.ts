@@ -0,0 +1,272 @@
+import type { MaybeRefOrGetter } from 'vue'
+import type { Rule } from '../forms/types'
+import { ruleMessage } from '../messages/catalog'
+import { tagRule } from './meta'
+
+/** Платёжная система карты */
+export type CardBrand =
+  | 'visa'
+  | 'mastercard'
+  | 'mir'
+  | 'amex'
+  | 'discover'
+  | 'jcb'
+  | 'diners'
+  | 'unionpay'
+  | 'maestro'
+
+/**
+ * Опции правила creditCard()
+ */
+export interface CreditCardOptions {
+  /** Принимаемые платёжные системы; по умолчанию любые, включая нераспознанные */
+  brands?: CardBrand[]
+}
+
+/** Версия ISBN или 'any' для обеих */
+export type IsbnVersion = 10 | 13 | 'any'
+
+interface BrandSpec {
+  brand: CardBrand
+  prefix: RegExp
+  lengths: number[]
+}
+
+// Порядок важен: Мир (2200–2204) раньше Mastercard 2-серии, Maestro — последним
+const CARD_BRANDS: BrandSpec[] = [
+  { brand: 'visa', prefix: /^4/, lengths: [13, 16, 19] },
+  { brand: 'mir', prefix: /^220[0-4]/, lengths: [16, 17, 18, 19] },
+  {
+    brand: 'mastercard',
+    prefix: /^(?:5[1-5]|222[1-9]|22[3-9]\d|2[3-6]\d\d|27[01]\d|2720)/,
+    lengths: [16],
+  },
+  { brand: 'amex', prefix: /^3[47]/, lengths: [15] },
+  {
+    brand: 'discover',
+    prefix: /^(?:6011|64[4-9]|65)/,
+    lengths: [16, 17, 18, 19],
+  },
+  { brand: 'jcb', prefix: /^35(?:2[89]|[3-8]\d)/, lengths: [16, 17, 18, 19] },
+  {
+    brand: 'diners',
+    prefix: /^(?:30[0-5]|3095|36|3[89])/,
+    lengths: [14, 15, 16, 17, 18, 19],
+  },
+  { brand: 'unionpay', prefix: /^62/, lengths: [16, 17, 18, 19] },
+  {
+    brand: 'maestro',
+    prefix: /^(?:5[06-8]|6\d)/,
+    lengths: [12, 13, 14, 15, 16, 17, 18, 19],
+  },
+]
+
+/**
+ * Длины IBAN по странам (реестр SWIFT ISO 13616): код страны и длина
+ */
+const IBAN_LENGTHS: Record<string, number> = Object.fromEntries(
+  (
+    'AD24 AE23 AL28 AT20 AZ28 BA20 BE16 BG22 BH22 BI27 BR29 BY28 CH21 ' +
+    'CR22 CY28 CZ24 DE22 DJ27 DK18 DO28 EE20 EG29 ES24 FI18 FK18 FO18 ' +
+    'FR27 GB22 GE22 GI23 GL18 GR27 GT28 HR21 HU28 IE22 IL23 IQ23 IS26 ' +
+    'IT27 JO30 KW30 KZ20 LB28 LC32 LI21 LT20 LU20 LV21 LY25 MC27 MD24 ' +
+    'ME22 MK19 MN20 MR27 MT31 MU30 NI28 NL18 NO15 PK24 PL28 PS29 PT25 ' +
+    'QA29 RO24 RS22 RU33 SA24 SC31 SD18 SE24 SI19 SK24 SM27 SO23 ST25 ' +
+    'SV28 TL23 TN24 TR26 UA29 VA22 VG24 XK20'
+  )
+    .split(' ')
+    .map(entry => [entry.slice(0, 2), Number(entry.slice(2))])
+)
+
+/** Убирает пробелы и дефисы, которыми номера разбивают на группы */
+function compact(value: unknown): string {
+  return String(value).replace(/[\s-]/g, '')
+}
+
+/** Проверка по алгоритму Луна */
+function luhn(digits: string): boolean {
+  let sum = 0
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i])
+    if (i % 2 === 1) {
+      digit *= 2
+      if (digit > 9) digit -= 9
+    }
+    sum += digit
+  }
+  return sum % 10 === 0
+}
+
+/** Контрольная цифра GS1 (EAN, GTIN, ISBN-13): веса 3 и 1 справа налево */
+function gs1Valid(digits: string): boolean {
+  let sum = 0
+  for (let i = 0; i < digits.length - 1; i++) {
+    const weight = (digits.length - 1 - i) % 2 === 1 ? 3 : 1
+    sum += Number(digits[i]) * weight
+  }
+  return (10 - (sum % 10)) % 10 === Number(digits[digits.length - 1])
+}
+
+function isbn10Valid(isbn: string): boolean {
+  if (!/^\d{9}[\dX]$/.test(isbn)) return false
+  let sum = 0
+  for (let i = 0; i < 10; i++) {
+    sum += (isbn[i] === 'X' ? 10 : Number(isbn[i])) * (10 - i)
+  }
+  return sum % 11 === 0
+}
+
+/**
+ * Определяет платёжную систему по номеру карты (пробелы и дефисы допустимы).
+ * Проверяет только префикс, не длину и не контрольную сумму
+ * @returns Платёжная система или null, если префикс не распознан
+ * @example
+ * detectCardBrand('4111 1111 1111 1111') // → 'visa'
+ */
+export function detectCardBrand(value: string): CardBrand | null {
+  const digits = compact(value)
+  if (!/^\d+$/.test(digits)) return null
+  return CARD_BRANDS.find(spec => spec.prefix.test(digits))?.brand ?? null
+}
+
+/**
+ * Правило номера банковской карты: длина 12–19 цифр, алгоритм Луна и длина,
+ * допустимая для распознанной платёжной системы. Распознанную систему
+ * возвращает form.cardBrand(path)
+ * @param options - Принимаемые платёжные системы
+ * @param msg - Сообщение об ошибке
+ * @returns Правило валидации
+ */
+export function creditCard(
+  options: CreditCardOptions = {},
+  msg?: MaybeRefOrGetter<string>
+): Rule<string> {
+  const { brands } = options
+
+  const rule = tagRule('creditCard', { brands }, (v, _values, meta) => {
+    if (!v) return null
+    const digits = compact(v)
+    const spec = CARD_BRANDS.find(s => s.prefix.test(digits))
+    const valid =
+      /^\d{12,19}$/.test(digits) &&
+      luhn(digits) &&
+      (!spec || spec.lengths.includes(digits.length))
+    if (!valid) {
+      return ruleMessage(msg, 'creditCard', { field: meta?.fieldPath })
+    }
+
+    if (brands && (!spec || !brands.includes(spec.brand))) {
+      return ruleMessage(msg, 'creditCard.brand', {
+        brand: spec?.brand ?? 'unknown',
+        brands: brands.join(', '),
+        field: meta?.fieldPath,
+      })
+    }
+    return null
+  })
+  ;(rule as any).__brand = detectCardBrand
+  return rule
+}
+
+/**
+ * Правило IBAN: длина по стране и контрольная сумма mod-97 (ISO 7064).
+ * Пробелы допустимы, регистр не важен
+ * @param countries - Разрешённые коды стран ISO 3166 ('KZ', 'DE', ...); по умолчанию все
+ * @param msg - Сообщение об ошибке
+ * @returns Правило валидации
+ */
+export function iban(
+  countries?: string[],
+  msg?: MaybeRefOrGetter<string>
+): Rule<string> {
+  const allowed = countries?.map(c => c.toUpperCase())
+
+  const isValid = (value: string): boolean => {
+    const country = value.slice(0, 2)
+    if (allowed && !allowed.includes(country)) return false
+    if (value.length !== IBAN_LENGTHS[country]) return false
+    if (!/^[A-Z]{2}\d{2}[A-Z\d]+$/.test(value)) return false
+
+    // Страна и контрольные цифры переносятся в конец, буквы → 10..35;
+    // остаток считается по частям, чтобы не выйти за пределы number
+    const rearranged = value.slice(4) + value.slice(0, 4)
+    let remainder = 0
+    for (const char of rearranged) {
+      const code = parseInt(char, 36)
+      remainder = (remainder * (code > 9 ? 100 : 10) + code) % 97
+    }
+    return remainder === 1
+  }
+
+  return tagRule('iban', { countries: allowed }, (v, _values, meta) => {
+    if (!v || isValid(compact(v).toUpperCase())) return null
+    return ruleMessage(msg, 'iban', { field: meta?.fieldPath })
+  })
+}
+
+/**
+ * Правило ISBN с контрольной цифрой; дефисы и пробелы допустимы
+ * @param version - 10, 13 или 'any' (по умолчанию)
+ * @param msg - Сообщение об ошибке
+ * @returns Правило валидации
+ */
+export function isbn(
+  version: IsbnVersion = 'any',
+  msg?: MaybeRefOrGetter<string>
+): Rule<string> {
+  const isValid = (value: string): boolean => {
+    if (value.length === 10 && version !== 13) return isbn10Valid(value)
+    if (value.length === 13 && version !== 10) {
+      return /^97[89]\d{10}$/.test(value) && gs1Valid(value)
+    }
+    return false
+  }
+
+  return tagRule('isbn', { version }, (v, _values, meta) => {
+    if (!v || isValid(compact(v).toUpperCase())) return null
+    return ruleMessage(msg, 'isbn', { version, field: meta?.fieldPath })
+  })
+}
+
+/**
+ * Правило штрихкода EAN-8 или EAN-13 с контрольной цифрой
+ * @param msg - Сообщение об ошибке
+ * @returns Правило валидации
+ */
+export function ean(msg?: MaybeRefOrGetter<string>): Rule<string> {
+  return tagRule('ean', {}, (v, _values, meta) => {
+    if (!v) return null
+    const digits = compact(v)
+    if (/^(?:\d{8}|\d{13})$/.test(digits) && gs1Valid(digits)) return null
+    return ruleMessage(msg, 'ean', { field: meta?.fieldPath })
+  })
+}
+
+/**
+ * Правило GTIN-8/12/13/14 (EAN, UPC, ITF-14) с контрольной цифрой
+ * @param msg - Сообщение об ошибке
+ * @returns Правило валидации
+ */
+export function gtin(msg?: MaybeRefOrGetter<string>): Rule<string> {
+  return tagRule('gtin', {}, (v, _values, meta) => {
+    if (!v) return null
+    const digits = compact(v)
+    if (/^(?:\d{8}|\d{12,14})$/.test(digits) && gs1Valid(digits)) return null
+    return ruleMessage(msg, 'gtin', { field: meta?.fieldPath })
+  })
+}
+
+/**
+ * Правило BIC/SWIFT (ISO 9362): 8 или 11 символов — банк, страна,
+ * местоположение и необязательный код филиала. Регистр не важен
+ * @param msg - Сообщение об ошибке
+ * @returns Правило валидации
+ */
+export function bic(msg?: MaybeRefOrGetter<string>): Rule<string> {
+  return tagRule('bic', {}, (v, _values, meta) => {
+    if (!v || /^[A-Z]{6}[A-Z\d]{2}(?:[A-Z\d]{3})?$/i.test(String(v))) {
+      return null
+    }
+    return ruleMessage(msg, 'bic', { field: meta?.fieldPath })
+  })
+}
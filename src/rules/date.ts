@@ -0,0 +1,397 @@
+import { toValue, type MaybeRefOrGetter } from 'vue'
+import type { Rule, RuleMeta } from '../forms/types'
+import { ruleMessage } from '../messages/catalog'
+import { getFormDefaults } from '../forms/defaults'
+import {
+  boundaryLabel,
+  dayNumber,
+  fullYearsBetween,
+  parseFixedDate,
+  resolveBoundary,
+  toDate,
+  type DateBoundary,
+  type DateFormat,
+  type DateInput,
+} from '../utils/date'
+import { tagRule } from './meta'
+
+export type { DateBoundary, DateFormat, DateInput } from '../utils/date'
+
+/**
+ * Опции правил сравнения дат
+ */
+export interface DateRuleOptions {
+  /** Формат строковых значений и границ, как у date() (по умолчанию dateFormat из setFormDefaults) */
+  format?: DateFormat | DateFormat[]
+}
+
+/**
+ * Форматы строковых дат: из опций правила или из setFormDefaults;
+ * без них строки читаются как ISO
+ */
+function dateFormats(
+  format?: DateFormat | DateFormat[]
+): DateFormat[] | undefined {
+  const dateFormat = format ?? getFormDefaults().dateFormat
+  if (!dateFormat) return undefined
+  return Array.isArray(dateFormat) ? dateFormat : [dateFormat]
+}
+
+/**
+ * Создаёт правило даты: пустые значения пропускаются, некорректная дата
+ * не проходит проверку с сообщением правила date(). Строки разбираются
+ * по формату из опций или dateFormat из setFormDefaults.
+ * Поля-границы становятся зависимостями (__crossField), строки с датой ('2025-01-01') считаются фиксированными границами
+ */
+function dateRule(
+  name: string,
+  params: Record<string, unknown>,
+  boundaries: DateBoundary[],
+  check: (
+    _date: Date,
+    _formValues: Record<string, any> | undefined,
+    _meta: RuleMeta | undefined,
+    _formats: DateFormat[] | undefined
+  ) => Record<string, unknown> | null,
+  msg: MaybeRefOrGetter<string> | undefined,
+  key: Parameters<typeof ruleMessage>[1],
+  { format }: DateRuleOptions
+): Rule<DateInput> {
+  const rule = tagRule(
+    name,
+    params,
+    (v: DateInput, formValues?: Record<string, any>, meta?: RuleMeta) => {
+      if (v === null || v === undefined || v === '') return null
+      const formats = dateFormats(format)
+      const date = toDate(v, formats)
+      if (!date) {
+        return ruleMessage(msg, 'date', {
+          format: (formats ?? ['YYYY-MM-DD']).join(', '),
+          field: meta?.fieldPath,
+        })
+      }
+      const failure = check(date, formValues, meta, formats)
+      if (!failure) return null
+      return ruleMessage(msg, key, { ...failure, field: meta?.fieldPath })
+    }
+  )
+
+  // Строки с фиксированной датой ('2025-01-01') — не поля и не зависимости
+  const dependsOn = boundaries.filter(
+    (b): b is string =>
+      typeof b === 'string' && !parseFixedDate(b, dateFormats(format))
+  )
+  if (dependsOn.length) (rule as any).__crossField = { dependsOn }
+  return rule
+}
+
+/**
+ * Правило корректной даты в заданном формате: '31.02.2024' не проходит.
+ * Объекты Date и timestamp проверяются только на корректность
+ * @param format - Формат или список форматов (по умолчанию dateFormat из setFormDefaults, иначе 'YYYY-MM-DD')
+ * @param msg - Сообщение об ошибке
+ * @returns Правило валидации
+ */
+export function date(
+  format?: DateFormat | DateFormat[],
+  msg?: MaybeRefOrGetter<string>
+): Rule<DateInput> {
+  const explicit = format === undefined ? undefined : [format].flat()
+  return tagRule('date', { format }, (v, _values, meta) => {
+    if (v === null || v === undefined || v === '') return null
+    const formats = explicit ?? dateFormats() ?? ['YYYY-MM-DD']
+    if (toDate(v, formats)) return null
+    return ruleMessage(msg, 'date', {
+      format: formats.join(', '),
+      field: meta?.fieldPath,
+    })
+  })
+}
+
+/**
+ * Правило: дата позже другой даты (по календарным дням)
+ * Полезно для проверки диапазонов дат (начало - конец)
+ * @param boundary - Имя поля с начальной датой (поддерживает wildcard) или фиксированная дата (Date, timestamp, '2025-01-01')
+ * @param msg - Сообщение об ошибке
+ * @param options - Формат строковых дат, если он отличается от dateFormat
+ * @returns Правило валидации
+ */
+export function dateAfter(
+  boundary: DateBoundary,
+  msg?: MaybeRefOrGetter<string>,
+  options: DateRuleOptions = {}
+): Rule<DateInput> {
+  return dateRule(
+    'dateAfter',
+    { field: boundary },
+    [boundary],
+    (date, formValues, meta, formats) => {
+      const limit = resolveBoundary(
+        boundary,
+        formValues,
+        meta?.fieldPath,
+        formats
+      )
+      if (!limit || dayNumber(date) > dayNumber(limit)) return null
+      return { other: boundaryLabel(boundary, formats) }
+    },
+    msg,
+    'dateAfter',
+    options
+  )
+}
+
+/**
+ * Правило: дата раньше другой даты (по календарным дням)
+ * @param boundary - Имя поля (поддерживает wildcard) или фиксированная дата (Date, timestamp, '2025-01-01')
+ * @param msg - Сообщение об ошибке
+ * @param options - Формат строковых дат, если он отличается от dateFormat
+ * @returns Правило валидации
+ */
+export function dateBefore(
+  boundary: DateBoundary,
+  msg?: MaybeRefOrGetter<string>,
+  options: DateRuleOptions = {}
+): Rule<DateInput> {
+  return dateRule(
+    'dateBefore',
+    { field: boundary },
+    [boundary],
+    (date, formValues, meta, formats) => {
+      const limit = resolveBoundary(
+        boundary,
+        formValues,
+        meta?.fieldPath,
+        formats
+      )
+      if (!limit || dayNumber(date) < dayNumber(limit)) return null
+      return { other: boundaryLabel(boundary, formats) }
+    },
+    msg,
+    'dateBefore',
+    options
+  )
+}
+
+/**
+ * Правило: дата в диапазоне включительно (по календарным дням).
+ * Отсутствующая граница (пустое поле) не проверяется
+ * @param min - Начало: имя поля или фиксированная дата
+ * @param max - Конец: имя поля или фиксированная дата
+ * @param msg - Сообщение об ошибке
+ * @param options - Формат строковых дат, если он отличается от dateFormat
+ * @returns Правило валидации
+ */
+export function dateBetween(
+  min: DateBoundary,
+  max: DateBoundary,
+  msg?: MaybeRefOrGetter<string>,
+  options: DateRuleOptions = {}
+): Rule<DateInput> {
+  return dateRule(
+    'dateBetween',
+    { min, max },
+    [min, max],
+    (date, formValues, meta, formats) => {
+      const day = dayNumber(date)
+      const from = resolveBoundary(min, formValues, meta?.fieldPath, formats)
+      const to = resolveBoundary(max, formValues, meta?.fieldPath, formats)
+      if ((from && day < dayNumber(from)) || (to && day > dayNumber(to))) {
+        return {
+          min: boundaryLabel(min, formats),
+          max: boundaryLabel(max, formats),
+        }
+      }
+      return null
+    },
+    msg,
+    'dateBetween',
+    options
+  )
+}
+
+/**
+ * Правило: дата не раньше сегодняшнего дня
+ * @param msg - Сообщение об ошибке
+ * @param options - Формат строковых дат, если он отличается от dateFormat
+ * @returns Правило валидации
+ */
+export function notInPast(
+  msg?: MaybeRefOrGetter<string>,
+  options: DateRuleOptions = {}
+): Rule<DateInput> {
+  return dateRule(
+    'notInPast',
+    {},
+    [],
+    date => (dayNumber(date) >= dayNumber(new Date()) ? null : {}),
+    msg,
+    'notInPast',
+    options
+  )
+}
+
+/**
+ * Правило: дата не позже сегодняшнего дня
+ * @param msg - Сообщение об ошибке
+ * @param options - Формат строковых дат, если он отличается от dateFormat
+ * @returns Правило валидации
+ */
+export function notInFuture(
+  msg?: MaybeRefOrGetter<string>,
+  options: DateRuleOptions = {}
+): Rule<DateInput> {
+  return dateRule(
+    'notInFuture',
+    {},
+    [],
+    date => (dayNumber(date) <= dayNumber(new Date()) ? null : {}),
+    msg,
+    'notInFuture',
+    options
+  )
+}
+
+/**
+ * Правило минимального возраста по дате рождения (полных лет на сегодня)
+ * @param years - Минимальный возраст
+ * @param msg - Сообщение об ошибке
+ * @param options - Формат строковых дат, если он отличается от dateFormat
+ * @returns Правило валидации
+ */
+export function minAge(
+  years: number,
+  msg?: MaybeRefOrGetter<string>,
+  options: DateRuleOptions = {}
+): Rule<DateInput> {
+  return dateRule(
+    'minAge',
+    { years },
+    [],
+    birth =>
+      fullYearsBetween(birth, new Date()) >= years
+        ? null
+        : { years, count: years },
+    msg,
+    'minAge',
+    options
+  )
+}
+
+/**
+ * Правило максимального возраста по дате рождения (полных лет на сегодня)
+ * @param years - Максимальный возраст
+ * @param msg - Сообщение об ошибке
+ * @param options - Формат строковых дат, если он отличается от dateFormat
+ * @returns Правило валидации
+ */
+export function maxAge(
+  years: number,
+  msg?: MaybeRefOrGetter<string>,
+  options: DateRuleOptions = {}
+): Rule<DateInput> {
+  return dateRule(
+    'maxAge',
+    { years },
+    [],
+    birth =>
+      fullYearsBetween(birth, new Date()) <= years
+        ? null
+        : { years, count: years },
+    msg,
+    'maxAge',
+    options
+  )
+}
+
+const isWeekend = (date: Date) => date.getDay() === 0 || date.getDay() === 6
+
+/**
+ * Правило: дата приходится на будний день (понедельник–пятница)
+ * @param msg - Сообщение об ошибке
+ * @param options - Формат строковых дат, если он отличается от dateFormat
+ * @returns Правило валидации
+ */
+export function weekday(
+  msg?: MaybeRefOrGetter<string>,
+  options: DateRuleOptions = {}
+): Rule<DateInput> {
+  return dateRule(
+    'weekday',
+    {},
+    [],
+    date => (isWeekend(date) ? {} : null),
+    msg,
+    'weekday',
+    options
+  )
+}
+
+/**
+ * Правило: рабочий день — будний и не праздничный
+ * @param holidays - Праздничные дни; ref или геттер, если список загружается
+ * @param msg - Сообщение об ошибке
+ * @param options - Формат строковых дат, если он отличается от dateFormat
+ * @returns Правило валидации
+ */
+export function businessDay(
+  holidays: MaybeRefOrGetter<DateInput[]> = [],
+  msg?: MaybeRefOrGetter<string>,
+  options: DateRuleOptions = {}
+): Rule<DateInput> {
+  const rule = dateRule(
+    'businessDay',
+    { holidays },
+    [],
+    (date, _formValues, _meta, formats) => {
+      if (isWeekend(date)) return {}
+      const day = dayNumber(date)
+      const isHoliday = toValue(holidays).some(holiday => {
+        const parsed = toDate(holiday, formats)
+        return parsed !== null && dayNumber(parsed) === day
+      })
+      return isHoliday ? {} : null
+    },
+    msg,
+    'businessDay',
+    options
+  )
+  // Загружаемый список праздников входит в ключ кэша валидации
+  ;(rule as any).__cacheDeps = () => toValue(holidays)
+  return rule
+}
+
+/**
+ * Правило максимальной длины диапазона: дата не дальше `days` дней
+ * от даты начала. Порядок дат проверяет dateAfter
+ * @param startField - Имя поля с начальной датой (поддерживает wildcard)
+ * @param days - Максимум дней между датами
+ * @param msg - Сообщение об ошибке
+ * @param options - Формат строковых дат, если он отличается от dateFormat
+ * @returns Правило валидации
+ */
+export function maxRangeDays(
+  startField: string,
+  days: number,
+  msg?: MaybeRefOrGetter<string>,
+  options: DateRuleOptions = {}
+): Rule<DateInput> {
+  return dateRule(
+    'maxRangeDays',
+    { field: startField, days },
+    [startField],
+    (date, formValues, meta, formats) => {
+      const start = resolveBoundary(
+        startField,
+        formValues,
+        meta?.fieldPath,
+        formats
+      )
+      if (!start || dayNumber(date) - dayNumber(start) <= days) return null
+      return { days, count: days }
+    },
+    msg,
+    'maxRangeDays',
+    options
+  )
+}
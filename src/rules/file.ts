@@ -1,6 +1,8 @@
 import type { MaybeRefOrGetter } from 'vue'
 import type { Rule } from '../forms/types'
-import { resolveMessage, toFileArray } from '../utils/helpers'
+import { toFileArray } from '../utils/helpers'
+import { ruleMessage } from '../messages/catalog'
+import { tagRule } from './meta'
 
 /**
  * Правило обязательного файла
@@ -8,10 +10,12 @@ import { resolveMessage, toFileArray } from '../utils/helpers'
  * @returns Правило валидации
  */
 export function fileRequired(
-  msg: MaybeRefOrGetter<string> = 'Please select a file'
+  msg?: MaybeRefOrGetter<string>
 ): Rule<FileList | File | File[] | null> {
-  return files => {
-    const message = resolveMessage(msg)
+  return tagRule('fileRequired', {}, (files, _values, meta) => {
+    const message = ruleMessage(msg, 'fileRequired', {
+      field: meta?.fieldPath,
+    })
     if (!files) return message
 
     if (typeof FileList !== 'undefined' && files instanceof FileList) {
@@ -24,7 +28,7 @@ export function fileRequired(
 
     const isFile = typeof File !== 'undefined' && files instanceof File
     return isFile ? null : message
-  }
+  })
 }
 
 /**
@@ -41,24 +45,30 @@ export function fileSize(
     throw new Error('Maximum file size must be greater than 0')
   }
 
-  return files => {
-    if (!files) return null
-
-    const filesToCheck = toFileArray(files)
+  return tagRule(
+    'fileSize',
+    { max: maxSizeInBytes },
+    (files, _values, meta) => {
+      if (!files) return null
 
-    const oversizedFile = filesToCheck.find(file => file.size > maxSizeInBytes)
+      const filesToCheck = toFileArray(files)
 
-    if (oversizedFile) {
-      const maxSizeMB = (maxSizeInBytes / (1024 * 1024)).toFixed(1)
-      const message = resolveMessage(msg)
-      return (
-        message ||
-        `File "${oversizedFile.name}" exceeds maximum size of ${maxSizeMB}MB`
+      const oversizedFile = filesToCheck.find(
+        file => file.size > maxSizeInBytes
       )
-    }
 
-    return null
-  }
+      if (oversizedFile) {
+        const maxSizeMB = (maxSizeInBytes / (1024 * 1024)).toFixed(1)
+        return ruleMessage(msg, 'fileSize', {
+          file: oversizedFile.name,
+          max: maxSizeMB,
+          field: meta?.fieldPath,
+        })
+      }
+
+      return null
+    }
+  )
 }
 
 /**
@@ -71,44 +81,47 @@ export function fileType(
   allowedTypes: string[],
   msg?: MaybeRefOrGetter<string>
 ): Rule<FileList | File | File[] | null> {
-  return files => {
-    if (!files) return null
-
-    const filesToCheck: File[] = []
-
-    if (typeof FileList !== 'undefined' && files instanceof FileList) {
-      filesToCheck.push(...Array.from(files))
-    } else if (Array.isArray(files)) {
-      filesToCheck.push(...files)
-    } else if (typeof File !== 'undefined' && files instanceof File) {
-      filesToCheck.push(files)
-    }
+  return tagRule(
+    'fileType',
+    { types: allowedTypes },
+    (files, _values, meta) => {
+      if (!files) return null
+
+      const filesToCheck: File[] = []
+
+      if (typeof FileList !== 'undefined' && files instanceof FileList) {
+        filesToCheck.push(...Array.from(files))
+      } else if (Array.isArray(files)) {
+        filesToCheck.push(...files)
+      } else if (typeof File !== 'undefined' && files instanceof File) {
+        filesToCheck.push(files)
+      }
 
-    const invalidFile = filesToCheck.find(file => {
-      return !allowedTypes.some(type => {
-        if (type.startsWith('.')) {
-          return file.name.toLowerCase().endsWith(type.toLowerCase())
-        } else if (type.endsWith('/*')) {
-          // MIME wildcard: 'image/*' matches 'image/png', 'image/jpeg', etc.
-          const prefix = type.slice(0, -1)
-          return file.type.startsWith(prefix)
-        } else {
-          return file.type === type
-        }
+      const invalidFile = filesToCheck.find(file => {
+        return !allowedTypes.some(type => {
+          if (type.startsWith('.')) {
+            return file.name.toLowerCase().endsWith(type.toLowerCase())
+          } else if (type.endsWith('/*')) {
+            // MIME wildcard: 'image/*' matches 'image/png', 'image/jpeg', etc.
+            const prefix = type.slice(0, -1)
+            return file.type.startsWith(prefix)
+          } else {
+            return file.type === type
+          }
+        })
       })
-    })
 
-    if (invalidFile) {
-      const allowedTypesStr = allowedTypes.join(', ')
-      const message = resolveMessage(msg)
-      return (
-        message ||
-        `File "${invalidFile.name}" has invalid type. Allowed: ${allowedTypesStr}`
-      )
-    }
+      if (invalidFile) {
+        return ruleMessage(msg, 'fileType', {
+          file: invalidFile.name,
+          types: allowedTypes.join(', '),
+          field: meta?.fieldPath,
+        })
+      }
 
-    return null
-  }
+      return null
+    }
+  )
 }
 
 /**
@@ -123,11 +136,11 @@ export function fileCount(
   max?: number,
   msg?: MaybeRefOrGetter<string>
 ): Rule<FileList | File | File[] | null> {
-  return files => {
+  return tagRule('fileCount', { min, max }, (files, _values, meta) => {
+    const params = { min, max, count: min, field: meta?.fieldPath }
     if (!files) {
       if (min && min > 0) {
-        const message = resolveMessage(msg)
-        return message || `Minimum files: ${min}`
+        return ruleMessage(msg, 'fileCount.min', params)
       }
       return null
     }
@@ -142,15 +155,14 @@ export function fileCount(
       count = 1
     }
 
-    const message = resolveMessage(msg)
     if (min !== undefined && count < min) {
-      return message || `Minimum files: ${min}`
+      return ruleMessage(msg, 'fileCount.min', params)
     }
 
     if (max !== undefined && count > max) {
-      return message || `Maximum files: ${max}`
+      return ruleMessage(msg, 'fileCount.max', { ...params, count: max })
     }
 
     return null
-  }
+  })
 }
@@ -3,9 +3,18 @@ export * from './builders'
 
 // Экспортируем все функции правил
 export * from './basic'
+export * from './string'
+export * from './number'
+export * from './date'
+export * from './checksum'
+export * from './regional'
+export * from './phone'
+export * from './password'
 export * from './file'
 export * from './array'
 export * from './advanced'
+export * from './remoteCache'
+export * from './meta'
 
 export { createRules } from './builders'
 export type { RulesBuilder } from './builders'
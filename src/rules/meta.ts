@@ -0,0 +1,134 @@
+import type { FieldAttrs, Rule, RuleDescriptor } from '../forms/types'
+import { getNestedValue, resolveWildcard } from '../utils/nested'
+
+/**
+ * Прикрепляет к правилу имя фабрики и параметры. Метаданные хранятся на самой
+ * функции, поэтому переживают цепочки wrapRule и normalizeFormRules
+ * @param name - Имя фабрики, например 'minLength'
+ * @param params - Параметры фабрики, например { min: 3 }
+ * @param rule - Правило
+ * @returns То же правило
+ */
+export function tagRule<R extends Rule<any>>(
+  name: string,
+  params: Record<string, unknown>,
+  rule: R
+): R {
+  ;(rule as any).__rule = { name, params }
+  return rule
+}
+
+/**
+ * Описания правил поля в порядке их выполнения
+ */
+export function describeRules(rules: Rule<any>[]): RuleDescriptor[] {
+  return rules.map(rule => {
+    const tagged = (rule as any).__rule as
+      | Pick<RuleDescriptor, 'name' | 'params'>
+      | undefined
+    return {
+      name: tagged?.name ?? 'anonymous',
+      params: tagged?.params ?? {},
+      warning: (rule as any).__warning === true,
+    }
+  })
+}
+
+/**
+ * Атрибут pattern: браузер проверяет совпадение со всей строкой
+ * без флагов, поэтому регулярные выражения с флагами не переносятся
+ */
+function toPatternAttr(pattern: RegExp): string | undefined {
+  if (/[imsy]/.test(pattern.flags)) return undefined
+  const { source } = pattern
+  const anchoredStart = source.startsWith('^')
+  const anchoredEnd = source.endsWith('$') && !source.endsWith('\\$')
+  if (anchoredStart && anchoredEnd && !source.includes('|')) {
+    return source.slice(1, -1)
+  }
+  const body = source.slice(anchoredStart ? 1 : 0, anchoredEnd ? -1 : undefined)
+  const any = '[\\s\\S]*'
+  return `${anchoredStart ? '' : any}(?:${body})${anchoredEnd ? '' : any}`
+}
+
+/**
+ * Выводит нативные атрибуты поля (required, minlength, pattern, accept, ...)
+ * из блокирующих правил. requiredIf учитывается по текущим значениям формы
+ * @param rules - Правила поля
+ * @param values - Значения формы
+ * @param fieldPath - Конкретный путь поля для разрешения wildcard в requiredIf
+ */
+export function ruleAttrs(
+  rules: Rule<any>[],
+  values: Record<string, any> = {},
+  fieldPath?: string
+): FieldAttrs {
+  const attrs: FieldAttrs = {}
+  const lower = (key: 'minlength' | 'min', value: number) => {
+    attrs[key] = attrs[key] === undefined ? value : Math.max(attrs[key], value)
+  }
+  const upper = (key: 'maxlength' | 'max', value: number) => {
+    attrs[key] = attrs[key] === undefined ? value : Math.min(attrs[key], value)
+  }
+
+  for (const { name, params, warning } of describeRules(rules)) {
+    if (warning) continue
+    switch (name) {
+      case 'required':
+      case 'fileRequired':
+        attrs.required = true
+        break
+      case 'requiredIf': {
+        const field = params.field as string
+        const resolved = fieldPath ? resolveWildcard(field, fieldPath) : field
+        if (getNestedValue(values, resolved) === params.value) {
+          attrs.required = true
+        }
+        break
+      }
+      case 'minLength':
+        lower('minlength', params.min as number)
+        break
+      case 'password':
+        lower('minlength', params.minLength as number)
+        break
+      case 'maxLength':
+        upper('maxlength', params.max as number)
+        break
+      case 'length':
+        lower('minlength', params.length as number)
+        upper('maxlength', params.length as number)
+        break
+      case 'minValue':
+        lower('min', params.min as number)
+        break
+      case 'maxValue':
+        upper('max', params.max as number)
+        break
+      case 'nonNegative':
+        lower('min', 0)
+        break
+      case 'integer':
+      case 'safeInteger':
+        attrs.step ??= 1
+        break
+      case 'multipleOf':
+        attrs.step = params.step as number
+        break
+      case 'between':
+        lower('min', params.min as number)
+        upper('max', params.max as number)
+        break
+      case 'regex':
+        if (attrs.pattern === undefined) {
+          const pattern = toPatternAttr(params.pattern as RegExp)
+          if (pattern !== undefined) attrs.pattern = pattern
+        }
+        break
+      case 'fileType':
+        attrs.accept = (params.types as string[]).join(',')
+        break
+    }
+  }
+  return attrs
+}
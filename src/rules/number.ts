@@ -0,0 +1,152 @@
+import type { MaybeRefOrGetter } from 'vue'
+import type { Rule } from '../forms/types'
+import { ruleMessage } from '../messages/catalog'
+import { tagRule } from './meta'
+
+type NumericInput = string | number
+
+function isEmpty(v: unknown): boolean {
+  return v === null || v === undefined || v === ''
+}
+
+/**
+ * Число из number или числовой строки; для остального — NaN
+ */
+function toNumber(v: unknown): number {
+  if (typeof v === 'number') return v
+  if (typeof v === 'string' && v.trim() !== '') return Number(v)
+  return NaN
+}
+
+/**
+ * Количество знаков после запятой, в том числе для экспоненциальной записи (1e-7)
+ */
+function countDecimals(v: NumericInput): number {
+  const [mantissa, exponent = '0'] = String(v).trim().toLowerCase().split('e')
+  const fraction = mantissa.split('.')[1] ?? ''
+  return Math.max(0, fraction.length - Number(exponent))
+}
+
+/**
+ * Создаёт числовое правило: пустые значения пропускаются,
+ * нечисловые и бесконечные значения не проходят проверку
+ */
+function numberRule(
+  name: string,
+  params: Record<string, unknown>,
+  check: (_num: number, _raw: NumericInput) => boolean,
+  msg: MaybeRefOrGetter<string> | undefined,
+  key: Parameters<typeof ruleMessage>[1],
+  messageParams: Record<string, unknown> = params
+): Rule<NumericInput> {
+  return tagRule(name, params, (v, _values, meta) => {
+    if (isEmpty(v)) return null
+    const num = toNumber(v)
+    if (Number.isFinite(num) && check(num, v)) return null
+    return ruleMessage(msg, key, { ...messageParams, field: meta?.fieldPath })
+  })
+}
+
+/**
+ * Правило целого числа
+ * @param msg - Сообщение об ошибке
+ * @returns Правило валидации
+ */
+export function integer(msg?: MaybeRefOrGetter<string>): Rule<NumericInput> {
+  return numberRule('integer', {}, num => Number.isInteger(num), msg, 'integer')
+}
+
+/**
+ * Правило положительного числа (больше 0)
+ * @param msg - Сообщение об ошибке
+ * @returns Правило валидации
+ */
+export function positive(msg?: MaybeRefOrGetter<string>): Rule<NumericInput> {
+  return numberRule('positive', {}, num => num > 0, msg, 'positive')
+}
+
+/**
+ * Правило отрицательного числа (меньше 0)
+ * @param msg - Сообщение об ошибке
+ * @returns Правило валидации
+ */
+export function negative(msg?: MaybeRefOrGetter<string>): Rule<NumericInput> {
+  return numberRule('negative', {}, num => num < 0, msg, 'negative')
+}
+
+/**
+ * Правило неотрицательного числа (0 и больше)
+ * @param msg - Сообщение об ошибке
+ * @returns Правило валидации
+ */
+export function nonNegative(
+  msg?: MaybeRefOrGetter<string>
+): Rule<NumericInput> {
+  return numberRule('nonNegative', {}, num => num >= 0, msg, 'nonNegative')
+}
+
+/**
+ * Правило кратности шагу. Сравнение в целых числах после масштабирования,
+ * поэтому 0.3 кратно 0.1, несмотря на погрешность float
+ * @param step - Шаг (больше 0)
+ * @param msg - Сообщение об ошибке
+ * @returns Правило валидации
+ */
+export function multipleOf(
+  step: number,
+  msg?: MaybeRefOrGetter<string>
+): Rule<NumericInput> {
+  if (!(step > 0)) throw new Error('Step must be greater than 0')
+
+  return numberRule(
+    'multipleOf',
+    { step },
+    num => {
+      const factor = 10 ** Math.max(countDecimals(num), countDecimals(step))
+      return Math.round(num * factor) % Math.round(step * factor) === 0
+    },
+    msg,
+    'multipleOf'
+  )
+}
+
+/**
+ * Правило максимального количества знаков после запятой.
+ * Для строк считаются введённые знаки: '1.10' — два знака
+ * @param max - Максимум знаков после запятой
+ * @param msg - Сообщение об ошибке
+ * @returns Правило валидации
+ */
+export function decimalPlaces(
+  max: number,
+  msg?: MaybeRefOrGetter<string>
+): Rule<NumericInput> {
+  if (max < 0) throw new Error('Decimal places cannot be negative')
+
+  return numberRule(
+    'decimalPlaces',
+    { max },
+    (_num, raw) => countDecimals(raw) <= max,
+    msg,
+    'decimalPlaces',
+    { max, count: max }
+  )
+}
+
+/**
+ * Правило безопасного целого числа (точно представимого в number)
+ * @param msg - Сообщение об ошибке
+ * @returns Правило валидации
+ */
+export function safeInteger(
+  msg?: MaybeRefOrGetter<string>
+): Rule<NumericInput> {
+  return numberRule(
+    'safeInteger',
+    {},
+    num => Number.isSafeInteger(num),
+    msg,
+    'safeInteger',
+    { min: Number.MIN_SAFE_INTEGER, max: Number.MAX_SAFE_INTEGER }
+  )
+}
@@ -0,0 +1,324 @@
+import { toValue, type MaybeRefOrGetter } from 'vue'
+import type { Rule, RuleMeta } from '../forms/types'
+import { ruleMessage } from '../messages/catalog'
+import { getNestedValue, resolveWildcard } from '../utils/nested'
+import { tagRule } from './meta'
+
+/** Класс символов пароля */
+export type PasswordCharClass = 'lower' | 'upper' | 'digit' | 'symbol'
+
+/** Оценка надёжности: 0 — очень слабый, 4 — надёжный */
+export type PasswordScore = 0 | 1 | 2 | 3 | 4
+
+/**
+ * Код подсказки к слабому паролю. Текст — сообщение каталога 'password.hint.<код>'
+ */
+export type PasswordHint =
+  | 'length'
+  | 'classes'
+  | 'repeat'
+  | 'sequence'
+  | 'common'
+  | 'personal'
+
+/**
+ * Оценка надёжности пароля
+ */
+export interface PasswordStrength {
+  score: PasswordScore
+  /** Оценка энтропии в битах с учётом повторов, последовательностей и словарных слов */
+  entropy: number
+  /** Что улучшить; пусто при score 4 */
+  hints: PasswordHint[]
+}
+
+/**
+ * Данные для оценки, которые подбирающему пароль известны заранее
+ */
+export interface PasswordContext {
+  /** Запрещённые слова в дополнение к встроенному списку */
+  bannedWords?: string[]
+  /** Личные данные пользователя: email, логин, имя */
+  userInputs?: string[]
+}
+
+/**
+ * Политика правила password()
+ */
+export interface PasswordPolicy {
+  /** Минимальная длина (по умолчанию 8) */
+  minLength?: number
+  /** Обязательные классы символов */
+  classes?: PasswordCharClass[]
+  /** Минимальная энтропия в битах, см. passwordStrength() */
+  minEntropy?: number
+  /** Запрещённые слова; ref или геттер, если список загружается */
+  bannedWords?: MaybeRefOrGetter<string[]>
+  /** Поля, значения которых пароль не должен содержать: ['email', 'username'] */
+  notContaining?: string[]
+}
+
+const CLASS_PATTERNS: Record<PasswordCharClass, RegExp> = {
+  lower: /\p{Ll}/u,
+  upper: /\p{Lu}/u,
+  digit: /\d/,
+  symbol: /[^\p{L}\d]/u,
+}
+
+// Размер алфавита, из которого подбирается символ
+const CLASS_SIZES: Record<PasswordCharClass, number> = {
+  lower: 26,
+  upper: 26,
+  digit: 10,
+  symbol: 33,
+}
+
+// Частые пароли и раскладки; цифровые и буквенные ряды ловит проверка последовательностей
+const COMMON_WORDS = [
+  'password',
+  'qwerty',
+  'qwertz',
+  'asdf',
+  'zxcv',
+  'admin',
+  'welcome',
+  'letmein',
+  'iloveyou',
+  'monkey',
+  'dragon',
+  'master',
+  'login',
+  'secret',
+  'parol',
+  'пароль',
+  'йцукен',
+]
+
+// Замены цифр и символов буквами: 'P@ssw0rd' находится как 'password'
+const LEET: Record<string, string> = {
+  '0': 'o',
+  '1': 'l',
+  '3': 'e',
+  '4': 'a',
+  '5': 's',
+  '7': 't',
+  '@': 'a',
+  $: 's',
+  '!': 'i',
+}
+
+/** Границы оценок 1–4 в битах энтропии */
+const SCORE_THRESHOLDS = [28, 36, 60, 80]
+const COMMON_WORD_BITS = 10
+const PERSONAL_WORD_BITS = 4
+const REPEAT_BITS = 1
+const MIN_TOKEN_LENGTH = 3
+const RECOMMENDED_LENGTH = 12
+
+function normalize(value: string): string {
+  return [...value.toLowerCase()].map(char => LEET[char] ?? char).join('')
+}
+
+/** Части email до '@' и логина, по которым пароль легко подобрать */
+function personalTokens(inputs: string[]): string[] {
+  const tokens = new Set<string>()
+  for (const input of inputs) {
+    const local = input.split('@')[0]
+    for (const token of [local, ...local.split(/[^\p{L}\p{N}]+/u)]) {
+      if (token.length >= MIN_TOKEN_LENGTH) tokens.add(normalize(token))
+    }
+  }
+  return [...tokens]
+}
+
+function wordList(words: string[]): string[] {
+  return words.map(normalize).filter(word => word.length >= MIN_TOKEN_LENGTH)
+}
+
+/**
+ * Отмечает вхождения слов в пароле
+ * @returns Число вхождений, добавивших хотя бы один непокрытый символ
+ */
+function markWords(text: string, words: string[], covered: boolean[]): number {
+  let found = 0
+  for (const word of words) {
+    for (
+      let at = text.indexOf(word);
+      at !== -1;
+      at = text.indexOf(word, at + 1)
+    ) {
+      let fresh = false
+      for (let i = at; i < at + word.length; i++) {
+        if (!covered[i]) fresh = true
+        covered[i] = true
+      }
+      if (fresh) found++
+    }
+  }
+  return found
+}
+
+/**
+ * Оценивает надёжность пароля без сети и словарей: энтропия по алфавиту
+ * использованных классов символов, повторы и последовательности ('aaa', 'abc', '4321')
+ * почти не добавляют энтропии, частые и личные слова считаются одним словом из словаря
+ * @param value - Пароль
+ * @param context - Запрещённые слова и личные данные пользователя
+ * @returns Оценка 0–4, энтропия и коды подсказок
+ * @example
+ * passwordStrength('P@ssw0rd').score // → 0
+ */
+export function passwordStrength(
+  value: string,
+  context: PasswordContext = {}
+): PasswordStrength {
+  const text = typeof value === 'string' ? value : ''
+  const chars = [...text]
+  if (!chars.length) return { score: 0, entropy: 0, hints: [] }
+
+  const classes = (Object.keys(CLASS_PATTERNS) as PasswordCharClass[]).filter(
+    cls => CLASS_PATTERNS[cls].test(text)
+  )
+  const pool = classes.reduce((sum, cls) => sum + CLASS_SIZES[cls], 0)
+  const charBits = Math.log2(Math.max(pool, 2))
+
+  const normalized = normalize(text)
+  const covered: boolean[] = []
+  const commonCount = markWords(
+    normalized,
+    wordList([...COMMON_WORDS, ...(context.bannedWords ?? [])]),
+    covered
+  )
+  const personalCount = markWords(
+    normalized,
+    personalTokens(context.userInputs ?? []),
+    covered
+  )
+
+  let entropy =
+    commonCount * COMMON_WORD_BITS + personalCount * PERSONAL_WORD_BITS
+  let run = 1
+  let hasRepeat = false
+  let hasSequence = false
+  for (let i = 0; i < chars.length; i++) {
+    const code = chars[i].codePointAt(0)!
+    const step = i > 0 ? code - chars[i - 1].codePointAt(0)! : NaN
+    const prevStep =
+      i > 1 ? chars[i - 1].codePointAt(0)! - chars[i - 2].codePointAt(0)! : NaN
+    run = step === 0 ? run + 1 : 1
+    const isRepeat = step === 0
+    const isSequence = Math.abs(step) === 1 && step === prevStep
+    if (run >= 3) hasRepeat = true
+    if (isSequence) hasSequence = true
+    if (covered[i]) continue
+    entropy += isRepeat || isSequence ? REPEAT_BITS : charBits
+  }
+
+  entropy = Math.round(entropy)
+  const score = SCORE_THRESHOLDS.filter(t => entropy >= t)
+    .length as PasswordScore
+  if (score === 4) return { score, entropy, hints: [] }
+
+  const hints: PasswordHint[] = []
+  if (chars.length < RECOMMENDED_LENGTH) hints.push('length')
+  if (classes.length < 3) hints.push('classes')
+  if (hasRepeat) hints.push('repeat')
+  if (hasSequence) hints.push('sequence')
+  if (commonCount) hints.push('common')
+  if (personalCount) hints.push('personal')
+  return { score, entropy, hints }
+}
+
+/**
+ * Правило пароля по политике: длина, обязательные классы символов, запрещённые
+ * слова, отсутствие email и логина из других полей и минимальная энтропия.
+ * Оценку для индикатора надёжности возвращает form.strength(path)
+ * @param policy - Политика пароля
+ * @param msg - Сообщение об ошибке
+ * @returns Правило валидации
+ */
+export function password(
+  policy: PasswordPolicy = {},
+  msg?: MaybeRefOrGetter<string>
+): Rule<string> {
+  const {
+    minLength = 8,
+    classes = [],
+    minEntropy,
+    bannedWords,
+    notContaining = [],
+  } = policy
+
+  const userInputs = (
+    formValues: Record<string, any> | undefined,
+    fieldPath: string | undefined
+  ): Record<string, string[]> => {
+    const inputs: Record<string, string[]> = {}
+    for (const field of notContaining) {
+      const resolved = fieldPath ? resolveWildcard(field, fieldPath) : field
+      const other = formValues ? getNestedValue(formValues, resolved) : null
+      inputs[field] = typeof other === 'string' && other ? [other] : []
+    }
+    return inputs
+  }
+
+  const estimate = (
+    value: string,
+    formValues?: Record<string, any>,
+    fieldPath?: string
+  ): PasswordStrength =>
+    passwordStrength(value, {
+      bannedWords: toValue(bannedWords),
+      userInputs: Object.values(userInputs(formValues, fieldPath)).flat(),
+    })
+
+  const rule = tagRule(
+    'password',
+    { minLength, classes, minEntropy, notContaining },
+    (v: string, formValues?: Record<string, any>, meta?: RuleMeta) => {
+      if (!v) return null
+      const field = meta?.fieldPath
+      if ([...v].length < minLength) {
+        return ruleMessage(msg, 'password.length', {
+          min: minLength,
+          count: minLength,
+          field,
+        })
+      }
+      const missing = classes.find(cls => !CLASS_PATTERNS[cls].test(v))
+      if (missing) return ruleMessage(msg, `password.${missing}`, { field })
+
+      const text = normalize(v)
+      const inputs = userInputs(formValues, field)
+      const personal = Object.keys(inputs).find(other =>
+        personalTokens(inputs[other]).some(token => text.includes(token))
+      )
+      if (personal) {
+        return ruleMessage(msg, 'password.personal', { other: personal, field })
+      }
+      const banned = wordList(toValue(bannedWords) ?? [])
+      if (banned.some(word => text.includes(word))) {
+        return ruleMessage(msg, 'password.banned', { field })
+      }
+
+      if (minEntropy !== undefined) {
+        const { entropy } = meta?.strength ?? estimate(v, formValues, field)
+        if (entropy < minEntropy) {
+          return ruleMessage(msg, 'password', { field })
+        }
+      }
+      return null
+    }
+  )
+
+  // ValidationManager считает оценку один раз на значение и хранит её в кэше.
+  // Загружаемый список запрещённых слов входит в ключ кэша вместе с зависимостями
+  ;(rule as any).__strength = estimate
+  if (bannedWords !== undefined) {
+    ;(rule as any).__cacheDeps = () => toValue(bannedWords) ?? []
+  }
+  if (notContaining.length) {
+    ;(rule as any).__crossField = { dependsOn: notContaining }
+  }
+  return rule
+}
@@ -0,0 +1,237 @@
+import type { MaybeRefOrGetter } from 'vue'
+import type { Rule } from '../forms/types'
+import { ruleMessage } from '../messages/catalog'
+import { tagRule } from './meta'
+import {
+  PHONE_COUNTRIES,
+  type PhoneCountry,
+  type PhoneCountryCode,
+} from './phoneCountries'
+
+export * from './phoneCountries'
+
+/**
+ * Тип номера: 'mobile' — мобильный, 'fixed' — стационарный,
+ * 'unknown' — в стране их не различить по номеру (США, Канада)
+ */
+export type PhoneType = 'mobile' | 'fixed' | 'unknown'
+
+/**
+ * Разобранный номер телефона
+ */
+export interface PhoneNumber<C extends string = PhoneCountryCode> {
+  country: C
+  callingCode: string
+  /** Национальный номер без кода страны и префикса выхода */
+  nationalNumber: string
+  /** Номер в формате E.164: '+77011234567' */
+  e164: string
+  type: PhoneType
+}
+
+/**
+ * Опции правила phone()
+ */
+export interface PhoneOptions<C extends string = PhoneCountryCode> {
+  /** Страна для номеров без кода страны: '8 (701) 123-45-67' при country: 'KZ' */
+  country?: C
+  /** Разрешённые страны; по умолчанию все из таблицы */
+  allowedCountries?: C[]
+  /** Тип номера (по умолчанию 'any'). В странах без данных о типе не проверяется */
+  type?: 'mobile' | 'fixed' | 'any'
+}
+
+/**
+ * Правило и разбор номеров по своей таблице стран
+ */
+export interface PhoneRules<C extends string> {
+  phone: (
+    _options?: PhoneOptions<C>,
+    _msg?: MaybeRefOrGetter<string>
+  ) => Rule<string>
+  parsePhone: (_value: string, _country?: C) => PhoneNumber<C> | null
+  normalizePhone: (_value: string, _country?: C) => string | null
+}
+
+/**
+ * Создаёт phone(), parsePhone() и normalizePhone() по своей таблице стран.
+ * В сборку попадают только переданные страны, а не весь PHONE_COUNTRIES
+ * @param countries - Таблица стран: { KZ: PHONE_KZ, RU: PHONE_RU }
+ * @returns Правило и функции разбора, ограниченные этими странами
+ * @example
+ * const { phone } = createPhoneRules({ KZ: PHONE_KZ, RU: PHONE_RU })
+ * phone({ country: 'KZ' })
+ */
+export function createPhoneRules<C extends string>(
+  countries: Record<C, PhoneCountry>
+): PhoneRules<C> {
+  const codes = Object.keys(countries) as C[]
+
+  function fits(country: C, national: string): boolean {
+    const { lengths, leading } = countries[country]
+    return (
+      lengths.includes(national.length) && (!leading || leading.test(national))
+    )
+  }
+
+  function build(country: C, national: string): PhoneNumber<C> {
+    const { callingCode, mobile } = countries[country]
+    return {
+      country,
+      callingCode,
+      nationalNumber: national,
+      e164: `+${callingCode}${national}`,
+      type: !mobile ? 'unknown' : mobile.test(national) ? 'mobile' : 'fixed',
+    }
+  }
+
+  /**
+   * Номер в международном формате: код страны определяется по таблице,
+   * при общем коде (+7, +1) предпочтение отдаётся перечисленным странам
+   */
+  function parseInternational(
+    digits: string,
+    preferred: C[]
+  ): PhoneNumber<C> | null {
+    const rank = (c: C) => Number(preferred.includes(c))
+    const callingCode = (c: C) => countries[c].callingCode
+    const candidates = codes
+      .filter(c => digits.startsWith(callingCode(c)))
+      .sort(
+        (a, b) =>
+          callingCode(b).length - callingCode(a).length || rank(b) - rank(a)
+      )
+    for (const country of candidates) {
+      const national = digits.slice(callingCode(country).length)
+      if (fits(country, national)) return build(country, national)
+    }
+    return null
+  }
+
+  function parse(
+    value: string,
+    country: C | undefined,
+    preferred: C[]
+  ): PhoneNumber<C> | null {
+    const trimmed = String(value).trim()
+    if (!/^\+?[\d\s().-]+$/.test(trimmed)) return null
+    const digits = trimmed.replace(/\D/g, '')
+
+    if (trimmed.startsWith('+')) return parseInternational(digits, preferred)
+    if (digits.startsWith('00')) {
+      return parseInternational(digits.slice(2), preferred)
+    }
+    if (!country || !countries[country]) return null
+
+    const { callingCode, trunkPrefix } = countries[country]
+    if (fits(country, digits)) return build(country, digits)
+    if (trunkPrefix && digits.startsWith(trunkPrefix)) {
+      const national = digits.slice(trunkPrefix.length)
+      if (fits(country, national)) return build(country, national)
+    }
+    // Код страны без '+': '77011234567'
+    if (digits.startsWith(callingCode)) {
+      return parseInternational(digits, preferred)
+    }
+    return null
+  }
+
+  function parsePhone(value: string, country?: C): PhoneNumber<C> | null {
+    return parse(value, country, country ? [country] : [])
+  }
+
+  function normalizePhone(value: string, country?: C): string | null {
+    return parsePhone(value, country)?.e164 ?? null
+  }
+
+  function phone(
+    options: PhoneOptions<C> = {},
+    msg?: MaybeRefOrGetter<string>
+  ): Rule<string> {
+    const { country, allowedCountries, type = 'any' } = options
+    // +1 без уточнения — США; при allowedCountries: ['CA'] — Канада
+    const preferred = [
+      ...(country ? [country] : []),
+      ...(allowedCountries ?? []),
+    ]
+
+    return tagRule(
+      'phone',
+      { country, allowedCountries, type },
+      (v, _values, meta) => {
+        if (!v) return null
+        const parsed = parse(v, country, preferred)
+        if (!parsed) {
+          return ruleMessage(msg, 'phone', { field: meta?.fieldPath })
+        }
+
+        if (allowedCountries && !allowedCountries.includes(parsed.country)) {
+          return ruleMessage(msg, 'phone.country', {
+            countries: allowedCountries.join(', '),
+            field: meta?.fieldPath,
+          })
+        }
+        if (
+          type !== 'any' &&
+          parsed.type !== 'unknown' &&
+          parsed.type !== type
+        ) {
+          return ruleMessage(msg, `phone.${type}`, { field: meta?.fieldPath })
+        }
+        return null
+      }
+    )
+  }
+
+  return { phone, parsePhone, normalizePhone }
+}
+
+// Встроенная таблица создаётся при первом вызове: без phone(), parsePhone()
+// и normalizePhone() PHONE_COUNTRIES не попадает в сборку
+let builtIn: PhoneRules<PhoneCountryCode> | null = null
+const builtInRules = () => (builtIn ??= createPhoneRules(PHONE_COUNTRIES))
+
+/**
+ * Разбирает номер телефона. Принимает E.164 ('+77011234567'), префикс '00'
+ * и форматированный ввод с пробелами, дефисами, точками и скобками.
+ * Номер без кода страны читается как национальный номер страны по умолчанию,
+ * в том числе с префиксом выхода: '8 (701) 123-45-67'
+ * @param value - Введённый номер
+ * @param country - Страна по умолчанию для номеров без кода страны
+ * @returns Разобранный номер или null, если номер некорректен
+ */
+export function parsePhone(
+  value: string,
+  country?: PhoneCountryCode
+): PhoneNumber | null {
+  return builtInRules().parsePhone(value, country)
+}
+
+/**
+ * Приводит номер к формату E.164 для отправки на сервер
+ * @param value - Введённый номер
+ * @param country - Страна по умолчанию для номеров без кода страны
+ * @returns '+77011234567' или null, если номер некорректен
+ * @example
+ * normalizePhone('8 (701) 123-45-67', 'KZ') // → '+77011234567'
+ */
+export function normalizePhone(
+  value: string,
+  country?: PhoneCountryCode
+): string | null {
+  return builtInRules().normalizePhone(value, country)
+}
+
+/**
+ * Правило номера телефона по таблице PHONE_COUNTRIES. Работает без сети.
+ * Для части стран — createPhoneRules()
+ * @param options - Страна по умолчанию, разрешённые страны и тип номера
+ * @param msg - Сообщение об ошибке
+ * @returns Правило валидации
+ */
+export function phone(
+  options: PhoneOptions = {},
+  msg?: MaybeRefOrGetter<string>
+): Rule<string> {
+  return builtInRules().phone(options, msg)
+}
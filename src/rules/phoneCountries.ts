@@ -0,0 +1,264 @@
+/**
+ * Данные страны для правила phone()
+ */
+export interface PhoneCountry {
+  /** Код страны без '+' */
+  callingCode: string
+  /** Допустимые длины национального номера (без кода страны и префикса выхода) */
+  lengths: number[]
+  /** Начало национального номера — для стран с общим кодом (+7: KZ и RU) */
+  leading?: RegExp
+  /** Начало мобильных номеров; без него тип номера не определяется (NANP) */
+  mobile?: RegExp
+  /** Префикс выхода на междугороднюю связь внутри страны ('8' в RU, '0' в DE) */
+  trunkPrefix?: string
+}
+
+export const PHONE_KZ = {
+  callingCode: '7',
+  lengths: [10],
+  leading: /^[67]/,
+  mobile: /^7(?:0[0-8]|47|5[01]|6[0-4]|7[15-8])/,
+  trunkPrefix: '8',
+} satisfies PhoneCountry
+
+export const PHONE_RU = {
+  callingCode: '7',
+  lengths: [10],
+  leading: /^[3489]/,
+  mobile: /^9/,
+  trunkPrefix: '8',
+} satisfies PhoneCountry
+
+export const PHONE_BY = {
+  callingCode: '375',
+  lengths: [9],
+  mobile: /^(?:25|29|33|44)/,
+  trunkPrefix: '80',
+} satisfies PhoneCountry
+
+export const PHONE_UA = {
+  callingCode: '380',
+  lengths: [9],
+  mobile: /^(?:39|50|6[3678]|73|9[1-9])/,
+  trunkPrefix: '0',
+} satisfies PhoneCountry
+
+export const PHONE_UZ = {
+  callingCode: '998',
+  lengths: [9],
+  mobile: /^(?:33|5[05]|77|88|9\d)/,
+} satisfies PhoneCountry
+
+export const PHONE_KG = {
+  callingCode: '996',
+  lengths: [9],
+  mobile: /^(?:2[02]|5|7|88|99)/,
+  trunkPrefix: '0',
+} satisfies PhoneCountry
+
+export const PHONE_AZ = {
+  callingCode: '994',
+  lengths: [9],
+  mobile: /^(?:10|5[015]|60|7[07]|99)/,
+  trunkPrefix: '0',
+} satisfies PhoneCountry
+
+export const PHONE_AM = {
+  callingCode: '374',
+  lengths: [8],
+  mobile: /^(?:33|4[1-49]|55|77|9[1-9])/,
+  trunkPrefix: '0',
+} satisfies PhoneCountry
+
+export const PHONE_GE = {
+  callingCode: '995',
+  lengths: [9],
+  mobile: /^5/,
+  trunkPrefix: '0',
+} satisfies PhoneCountry
+
+export const PHONE_MD = {
+  callingCode: '373',
+  lengths: [8],
+  mobile: /^[67]/,
+  trunkPrefix: '0',
+} satisfies PhoneCountry
+
+export const PHONE_US = {
+  callingCode: '1',
+  lengths: [10],
+  leading: /^[2-9]/,
+  trunkPrefix: '1',
+} satisfies PhoneCountry
+
+export const PHONE_CA = {
+  callingCode: '1',
+  lengths: [10],
+  leading: /^[2-9]/,
+  trunkPrefix: '1',
+} satisfies PhoneCountry
+
+export const PHONE_GB = {
+  callingCode: '44',
+  lengths: [9, 10],
+  mobile: /^7/,
+  trunkPrefix: '0',
+} satisfies PhoneCountry
+
+export const PHONE_DE = {
+  callingCode: '49',
+  lengths: [6, 7, 8, 9, 10, 11],
+  mobile: /^1[5-7]/,
+  trunkPrefix: '0',
+} satisfies PhoneCountry
+
+export const PHONE_FR = {
+  callingCode: '33',
+  lengths: [9],
+  mobile: /^[67]/,
+  trunkPrefix: '0',
+} satisfies PhoneCountry
+
+export const PHONE_IT = {
+  callingCode: '39',
+  lengths: [6, 7, 8, 9, 10, 11],
+  mobile: /^3/,
+} satisfies PhoneCountry
+
+export const PHONE_ES = {
+  callingCode: '34',
+  lengths: [9],
+  mobile: /^[67]/,
+} satisfies PhoneCountry
+
+export const PHONE_NL = {
+  callingCode: '31',
+  lengths: [9],
+  mobile: /^6/,
+  trunkPrefix: '0',
+} satisfies PhoneCountry
+
+export const PHONE_PL = {
+  callingCode: '48',
+  lengths: [9],
+  mobile: /^(?:45|5[0137]|6[069]|7[2389]|88)/,
+} satisfies PhoneCountry
+
+export const PHONE_SE = {
+  callingCode: '46',
+  lengths: [7, 8, 9],
+  mobile: /^7[02369]/,
+  trunkPrefix: '0',
+} satisfies PhoneCountry
+
+export const PHONE_CH = {
+  callingCode: '41',
+  lengths: [9],
+  mobile: /^7[5-9]/,
+  trunkPrefix: '0',
+} satisfies PhoneCountry
+
+export const PHONE_TR = {
+  callingCode: '90',
+  lengths: [10],
+  mobile: /^5/,
+  trunkPrefix: '0',
+} satisfies PhoneCountry
+
+export const PHONE_AE = {
+  callingCode: '971',
+  lengths: [8, 9],
+  mobile: /^5/,
+  trunkPrefix: '0',
+} satisfies PhoneCountry
+
+export const PHONE_IL = {
+  callingCode: '972',
+  lengths: [8, 9],
+  mobile: /^5/,
+  trunkPrefix: '0',
+} satisfies PhoneCountry
+
+export const PHONE_IN = {
+  callingCode: '91',
+  lengths: [10],
+  mobile: /^[6-9]/,
+  trunkPrefix: '0',
+} satisfies PhoneCountry
+
+export const PHONE_CN = {
+  callingCode: '86',
+  lengths: [10, 11],
+  mobile: /^1/,
+  trunkPrefix: '0',
+} satisfies PhoneCountry
+
+export const PHONE_JP = {
+  callingCode: '81',
+  lengths: [9, 10],
+  mobile: /^[789]0/,
+  trunkPrefix: '0',
+} satisfies PhoneCountry
+
+export const PHONE_KR = {
+  callingCode: '82',
+  lengths: [8, 9, 10],
+  mobile: /^1/,
+  trunkPrefix: '0',
+} satisfies PhoneCountry
+
+export const PHONE_BR = {
+  callingCode: '55',
+  lengths: [10, 11],
+  mobile: /^\d{2}9\d{8}$/,
+  trunkPrefix: '0',
+} satisfies PhoneCountry
+
+export const PHONE_AU = {
+  callingCode: '61',
+  lengths: [9],
+  mobile: /^4/,
+  trunkPrefix: '0',
+} satisfies PhoneCountry
+
+/**
+ * Коды стран и длины номеров по планам нумерации (ITU-T E.164) — таблица
+ * phone(), parsePhone() и normalizePhone(). Страны экспортируются и по отдельности
+ * (PHONE_KZ, PHONE_RU, ...): с createPhoneRules() в сборку попадают только переданные
+ */
+export const PHONE_COUNTRIES = {
+  KZ: PHONE_KZ,
+  RU: PHONE_RU,
+  BY: PHONE_BY,
+  UA: PHONE_UA,
+  UZ: PHONE_UZ,
+  KG: PHONE_KG,
+  AZ: PHONE_AZ,
+  AM: PHONE_AM,
+  GE: PHONE_GE,
+  MD: PHONE_MD,
+  US: PHONE_US,
+  CA: PHONE_CA,
+  GB: PHONE_GB,
+  DE: PHONE_DE,
+  FR: PHONE_FR,
+  IT: PHONE_IT,
+  ES: PHONE_ES,
+  NL: PHONE_NL,
+  PL: PHONE_PL,
+  SE: PHONE_SE,
+  CH: PHONE_CH,
+  TR: PHONE_TR,
+  AE: PHONE_AE,
+  IL: PHONE_IL,
+  IN: PHONE_IN,
+  CN: PHONE_CN,
+  JP: PHONE_JP,
+  KR: PHONE_KR,
+  BR: PHONE_BR,
+  AU: PHONE_AU,
+}
+
+/** Код страны ISO 3166-1 из таблицы PHONE_COUNTRIES */
+export type PhoneCountryCode = keyof typeof PHONE_COUNTRIES
@@ -0,0 +1,189 @@
+import type { MaybeRefOrGetter } from 'vue'
+import type { Rule } from '../forms/types'
+import { ruleMessage } from '../messages/catalog'
+import { tagRule } from './meta'
+
+/**
+ * Тип налогоплательщика для inn() и ogrn(): 'legal' — организация,
+ * 'individual' — физлицо или ИП, 'any' — любой
+ */
+export type TaxpayerType = 'legal' | 'individual' | 'any'
+
+/**
+ * Опции правила iin()
+ */
+export interface IinOptions {
+  /** Проверять дату рождения в первых шести цифрах и век в седьмой */
+  checkBirthDate?: boolean
+}
+
+/** Убирает пробелы и дефисы, которыми номера разбивают на группы */
+function compact(value: unknown): string {
+  return String(value).replace(/[\s-]/g, '')
+}
+
+/** Взвешенная сумма цифр по весам */
+function weightedSum(digits: string, weights: number[]): number {
+  return weights.reduce((sum, weight, i) => sum + weight * Number(digits[i]), 0)
+}
+
+/**
+ * Контрольный разряд ИИН/БИН: сначала веса 1–11, при остатке 10 — веса 3–11, 1, 2.
+ * Повторный остаток 10 означает, что номер не выдаётся
+ */
+function kzChecksumValid(digits: string): boolean {
+  let control = weightedSum(digits, [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11]) % 11
+  if (control === 10) {
+    control = weightedSum(digits, [3, 4, 5, 6, 7, 8, 9, 10, 11, 1, 2]) % 11
+  }
+  return control !== 10 && control === Number(digits[11])
+}
+
+/** Дата рождения ИИН: ГГММДД и век по седьмой цифре (1–2 — XIX, 3–4 — XX, 5–6 — XXI) */
+function iinBirthDateValid(digits: string): boolean {
+  const centuryDigit = Number(digits[6])
+  if (centuryDigit < 1 || centuryDigit > 6) return false
+  const year = 1800 + Math.floor((centuryDigit - 1) / 2) * 100
+  const fullYear = year + Number(digits.slice(0, 2))
+  const month = Number(digits.slice(2, 4))
+  const day = Number(digits.slice(4, 6))
+
+  const birth = new Date(fullYear, month - 1, day)
+  return (
+    birth.getFullYear() === fullYear &&
+    birth.getMonth() === month - 1 &&
+    birth.getDate() === day &&
+    birth.getTime() <= Date.now()
+  )
+}
+
+/**
+ * Правило ИИН (Казахстан): 12 цифр и контрольный разряд
+ * @param options - Дополнительная проверка даты рождения
+ * @param msg - Сообщение об ошибке
+ * @returns Правило валидации
+ */
+export function iin(
+  options: IinOptions = {},
+  msg?: MaybeRefOrGetter<string>
+): Rule<string> {
+  const checkBirthDate = options.checkBirthDate ?? false
+
+  return tagRule('iin', { checkBirthDate }, (v, _values, meta) => {
+    if (!v) return null
+    const digits = compact(v)
+    if (!/^\d{12}$/.test(digits) || !kzChecksumValid(digits)) {
+      return ruleMessage(msg, 'iin', { field: meta?.fieldPath })
+    }
+    if (checkBirthDate && !iinBirthDateValid(digits)) {
+      return ruleMessage(msg, 'iin.birthDate', { field: meta?.fieldPath })
+    }
+    return null
+  })
+}
+
+/**
+ * Правило БИН (Казахстан): 12 цифр, месяц регистрации, тип организации
+ * в пятой цифре (4 — резидент, 5 — нерезидент, 6 — ИП совместного предпринимательства)
+ * и контрольный разряд
+ * @param msg - Сообщение об ошибке
+ * @returns Правило валидации
+ */
+export function bin(msg?: MaybeRefOrGetter<string>): Rule<string> {
+  return tagRule('bin', {}, (v, _values, meta) => {
+    if (!v) return null
+    const digits = compact(v)
+    const valid =
+      /^\d{2}(?:0[1-9]|1[0-2])[4-6]\d{7}$/.test(digits) &&
+      kzChecksumValid(digits)
+    if (valid) return null
+    return ruleMessage(msg, 'bin', { field: meta?.fieldPath })
+  })
+}
+
+/**
+ * Правило ИНН (Россия): 10 цифр у организаций, 12 — у физлиц и ИП
+ * @param type - Тип налогоплательщика (по умолчанию 'any')
+ * @param msg - Сообщение об ошибке
+ * @returns Правило валидации
+ */
+export function inn(
+  type: TaxpayerType = 'any',
+  msg?: MaybeRefOrGetter<string>
+): Rule<string> {
+  const control = (digits: string, weights: number[]) =>
+    (weightedSum(digits, weights) % 11) % 10 === Number(digits[weights.length])
+
+  const isValid = (digits: string): boolean => {
+    if (digits.length === 10 && type !== 'individual') {
+      return (
+        /^\d{10}$/.test(digits) && control(digits, [2, 4, 10, 3, 5, 9, 4, 6, 8])
+      )
+    }
+    if (digits.length === 12 && type !== 'legal') {
+      return (
+        /^\d{12}$/.test(digits) &&
+        control(digits, [7, 2, 4, 10, 3, 5, 9, 4, 6, 8]) &&
+        control(digits, [3, 7, 2, 4, 10, 3, 5, 9, 4, 6, 8])
+      )
+    }
+    return false
+  }
+
+  return tagRule('inn', { type }, (v, _values, meta) => {
+    if (!v || isValid(compact(v))) return null
+    return ruleMessage(msg, 'inn', { field: meta?.fieldPath })
+  })
+}
+
+/**
+ * Правило СНИЛС (Россия): 11 цифр, допускается запись '112-233-445 95'.
+ * Номера до 001-001-998 выдавались без контрольного числа
+ * @param msg - Сообщение об ошибке
+ * @returns Правило валидации
+ */
+export function snils(msg?: MaybeRefOrGetter<string>): Rule<string> {
+  const isValid = (digits: string): boolean => {
+    if (!/^\d{11}$/.test(digits)) return false
+    if (Number(digits.slice(0, 9)) <= 1001998) return true
+    const sum = weightedSum(digits, [9, 8, 7, 6, 5, 4, 3, 2, 1])
+    const control = sum < 100 ? sum : (sum % 101) % 100
+    return control === Number(digits.slice(9))
+  }
+
+  return tagRule('snils', {}, (v, _values, meta) => {
+    if (!v || isValid(compact(v))) return null
+    return ruleMessage(msg, 'snils', { field: meta?.fieldPath })
+  })
+}
+
+/**
+ * Правило ОГРН (Россия): 13 цифр у организаций, ОГРНИП из 15 цифр — у ИП.
+ * Контрольная цифра — остаток от деления номера без неё на 11 (13 для ОГРНИП)
+ * @param type - Тип: 'legal' — ОГРН, 'individual' — ОГРНИП, 'any' (по умолчанию)
+ * @param msg - Сообщение об ошибке
+ * @returns Правило валидации
+ */
+export function ogrn(
+  type: TaxpayerType = 'any',
+  msg?: MaybeRefOrGetter<string>
+): Rule<string> {
+  const isValid = (digits: string): boolean => {
+    if (!/^\d+$/.test(digits)) return false
+    // 14 цифр ОГРНИП без контрольной меньше Number.MAX_SAFE_INTEGER
+    const body = Number(digits.slice(0, -1))
+    const last = Number(digits[digits.length - 1])
+    if (digits.length === 13 && type !== 'individual') {
+      return (body % 11) % 10 === last
+    }
+    if (digits.length === 15 && type !== 'legal') {
+      return (body % 13) % 10 === last
+    }
+    return false
+  }
+
+  return tagRule('ogrn', { type }, (v, _values, meta) => {
+    if (!v || isValid(compact(v))) return null
+    return ruleMessage(msg, 'ogrn', { field: meta?.fieldPath })
+  })
+}
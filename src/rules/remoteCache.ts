@@ -0,0 +1,117 @@
+/**
+ * Параметры кэша результатов remote()
+ */
+export interface RemoteCacheOptions {
+  /** Максимум записей; самые давно использованные вытесняются (по умолчанию 500) */
+  max?: number
+  /** Время жизни записи в мс (по умолчанию без ограничения) */
+  ttl?: number
+}
+
+/**
+ * Кэш результатов remote(). Один экземпляр можно передать в правила
+ * нескольких форм, чтобы не проверять одно и то же значение повторно
+ */
+export interface RemoteCache {
+  /** Результат проверки значения или undefined, если его нет или он устарел */
+  get: (_scope: string, _value: unknown) => boolean | undefined
+  set: (_scope: string, _value: unknown, _result: boolean) => void
+  /** Удаляет результаты для значения во всех проверках (или только в scope) */
+  invalidate: (_value: unknown, _scope?: string) => void
+  clear: () => void
+  readonly size: number
+}
+
+interface CacheEntry {
+  scope: string
+  valueKey: string
+  result: boolean
+  expiresAt: number
+}
+
+function toValueKey(value: unknown): string {
+  try {
+    return JSON.stringify(value) ?? String(value)
+  } catch {
+    return String(value)
+  }
+}
+
+/**
+ * Создаёт LRU-кэш результатов remote() с ограничением размера и TTL
+ * @param options - Размер и время жизни записей
+ */
+export function createRemoteCache(
+  options: RemoteCacheOptions = {}
+): RemoteCache {
+  const max = options.max ?? 500
+  const ttl = options.ttl ?? Infinity
+  // Map сохраняет порядок вставки: первая запись — самая давно использованная
+  const entries = new Map<string, CacheEntry>()
+
+  const entryKey = (scope: string, valueKey: string) =>
+    `${scope}\u0000${valueKey}`
+
+  return {
+    get(scope, value) {
+      const key = entryKey(scope, toValueKey(value))
+      const entry = entries.get(key)
+      if (!entry) return undefined
+      entries.delete(key)
+      if (entry.expiresAt <= Date.now()) return undefined
+      entries.set(key, entry)
+      return entry.result
+    },
+    set(scope, value, result) {
+      const valueKey = toValueKey(value)
+      const key = entryKey(scope, valueKey)
+      entries.delete(key)
+      entries.set(key, {
+        scope,
+        valueKey,
+        result,
+        expiresAt: Date.now() + ttl,
+      })
+      while (entries.size > max) {
+        entries.delete(entries.keys().next().value!)
+      }
+    },
+    invalidate(value, scope) {
+      const valueKey = toValueKey(value)
+      for (const [key, entry] of entries) {
+        if (
+          entry.valueKey === valueKey &&
+          (scope === undefined || entry.scope === scope)
+        ) {
+          entries.delete(key)
+        }
+      }
+    },
+    clear() {
+      entries.clear()
+    },
+    get size() {
+      return entries.size
+    },
+  }
+}
+
+/** Общий кэш, который используют правила remote() с опцией cache: true */
+export const sharedRemoteCache: RemoteCache = createRemoteCache()
+
+/**
+ * Сбрасывает результаты remote() для значения из общего кэша, например когда
+ * имя пользователя заняли или освободили на сервере
+ * @param value - Проверенное значение
+ * @param scope - Имя проверки (опция key в remote()); по умолчанию все проверки
+ */
+export function invalidateRemote(value: unknown, scope?: string) {
+  sharedRemoteCache.invalidate(value, scope)
+}
+
+/**
+ * Очищает общий кэш remote() целиком
+ */
+export function clearRemoteCache() {
+  sharedRemoteCache.clear()
+}
@@ -0,0 +1,250 @@
+import type { MaybeRefOrGetter } from 'vue'
+import type { Rule } from '../forms/types'
+import { ruleMessage } from '../messages/catalog'
+import { tagRule } from './meta'
+
+/**
+ * Опции правила url()
+ */
+export interface UrlOptions {
+  /** Разрешённые протоколы без ':' (по умолчанию ['http', 'https']) */
+  protocols?: string[]
+  /** Требовать протокол; при false 'example.com' тоже валиден (по умолчанию true) */
+  requireProtocol?: boolean
+}
+
+/** Версия UUID (RFC 9562) или 'any' для любой версии */
+export type UuidVersion = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 'any'
+
+/**
+ * Правило проверки URL
+ * @param options - Разрешённые протоколы и обязательность протокола
+ * @param msg - Сообщение об ошибке
+ * @returns Правило валидации
+ */
+export function url(
+  options: UrlOptions = {},
+  msg?: MaybeRefOrGetter<string>
+): Rule<string> {
+  const protocols = (options.protocols ?? ['http', 'https']).map(p =>
+    p.replace(/:$/, '').toLowerCase()
+  )
+  const requireProtocol = options.requireProtocol ?? true
+
+  const isValid = (value: string): boolean => {
+    if (/\s/.test(value)) return false
+    const hasProtocol = /^[a-z][a-z\d+.-]*:/i.test(value)
+    if (!hasProtocol && requireProtocol) return false
+    try {
+      const parsed = new URL(hasProtocol ? value : `${protocols[0]}://${value}`)
+      if (!protocols.includes(parsed.protocol.slice(0, -1))) return false
+      // http://localhost и хосты с доменом; у mailto: и подобных хоста нет
+      return (
+        !parsed.host.length ||
+        parsed.hostname === 'localhost' ||
+        parsed.hostname.includes('.') ||
+        parsed.hostname.startsWith('[')
+      )
+    } catch {
+      return false
+    }
+  }
+
+  return tagRule('url', { protocols, requireProtocol }, (v, _values, meta) => {
+    if (!v || isValid(String(v))) return null
+    return ruleMessage(msg, 'url', { field: meta?.fieldPath })
+  })
+}
+
+/**
+ * Правило проверки UUID
+ * @param version - Версия UUID (по умолчанию 'any')
+ * @param msg - Сообщение об ошибке
+ * @returns Правило валидации
+ */
+export function uuid(
+  version: UuidVersion = 'any',
+  msg?: MaybeRefOrGetter<string>
+): Rule<string> {
+  const versionDigit = version === 'any' ? '[1-8]' : String(version)
+  const pattern = new RegExp(
+    `^[0-9a-f]{8}-[0-9a-f]{4}-${versionDigit}[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$`,
+    'i'
+  )
+
+  return tagRule('uuid', { version }, (v, _values, meta) => {
+    if (!v || pattern.test(String(v))) return null
+    return ruleMessage(msg, 'uuid', { version, field: meta?.fieldPath })
+  })
+}
+
+/**
+ * Правило проверки IPv4-адреса (без ведущих нулей в октетах)
+ * @param msg - Сообщение об ошибке
+ * @returns Правило валидации
+ */
+export function ipv4(msg?: MaybeRefOrGetter<string>): Rule<string> {
+  const octet = '(?:25[0-5]|2[0-4]\\d|1\\d\\d|[1-9]?\\d)'
+  const pattern = new RegExp(`^${octet}(?:\\.${octet}){3}$`)
+
+  return tagRule('ipv4', {}, (v, _values, meta) => {
+    if (!v || pattern.test(String(v))) return null
+    return ruleMessage(msg, 'ipv4', { field: meta?.fieldPath })
+  })
+}
+
+/**
+ * Правило проверки IPv6-адреса, включая сокращённую запись ('::1')
+ * и IPv4-окончание ('::ffff:192.0.2.1')
+ * @param msg - Сообщение об ошибке
+ * @returns Правило валидации
+ */
+export function ipv6(msg?: MaybeRefOrGetter<string>): Rule<string> {
+  const isValid = (value: string): boolean => {
+    if (!/^[\da-f:.]+$/i.test(value) || !value.includes(':')) return false
+    try {
+      // Парсер URL проверяет IPv6 по WHATWG, без собственной грамматики
+      new URL(`http://[${value}]`)
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  return tagRule('ipv6', {}, (v, _values, meta) => {
+    if (!v || isValid(String(v))) return null
+    return ruleMessage(msg, 'ipv6', { field: meta?.fieldPath })
+  })
+}
+
+/**
+ * Правило «только буквы» любого алфавита (латиница, кириллица и т.д.)
+ * @param msg - Сообщение об ошибке
+ * @returns Правило валидации
+ */
+export function alpha(msg?: MaybeRefOrGetter<string>): Rule<string> {
+  return tagRule('alpha', {}, (v, _values, meta) => {
+    if (!v || /^[\p{L}\p{M}]+$/u.test(String(v))) return null
+    return ruleMessage(msg, 'alpha', { field: meta?.fieldPath })
+  })
+}
+
+/**
+ * Правило «только буквы и цифры» любого алфавита
+ * @param msg - Сообщение об ошибке
+ * @returns Правило валидации
+ */
+export function alphaNum(msg?: MaybeRefOrGetter<string>): Rule<string> {
+  return tagRule('alphaNum', {}, (v, _values, meta) => {
+    if (!v || /^[\p{L}\p{M}\p{N}]+$/u.test(String(v))) return null
+    return ruleMessage(msg, 'alphaNum', { field: meta?.fieldPath })
+  })
+}
+
+/**
+ * Правило проверки slug: строчные латинские буквы и цифры через дефис ('my-post-2')
+ * @param msg - Сообщение об ошибке
+ * @returns Правило валидации
+ */
+export function slug(msg?: MaybeRefOrGetter<string>): Rule<string> {
+  return tagRule('slug', {}, (v, _values, meta) => {
+    if (!v || /^[a-z\d]+(?:-[a-z\d]+)*$/.test(String(v))) return null
+    return ruleMessage(msg, 'slug', { field: meta?.fieldPath })
+  })
+}
+
+/**
+ * Правило проверки HEX-цвета: #rgb, #rgba, #rrggbb, #rrggbbaa
+ * @param msg - Сообщение об ошибке
+ * @returns Правило валидации
+ */
+export function hexColor(msg?: MaybeRefOrGetter<string>): Rule<string> {
+  return tagRule('hexColor', {}, (v, _values, meta) => {
+    if (!v || /^#(?:[\da-f]{3,4}|[\da-f]{6}|[\da-f]{8})$/i.test(String(v))) {
+      return null
+    }
+    return ruleMessage(msg, 'hexColor', { field: meta?.fieldPath })
+  })
+}
+
+/**
+ * Правило: строка начинается с префикса (с учётом регистра)
+ * @param prefix - Префикс
+ * @param msg - Сообщение об ошибке
+ * @returns Правило валидации
+ */
+export function startsWith(
+  prefix: string,
+  msg?: MaybeRefOrGetter<string>
+): Rule<string> {
+  return tagRule('startsWith', { prefix }, (v, _values, meta) => {
+    if (!v || String(v).startsWith(prefix)) return null
+    return ruleMessage(msg, 'startsWith', { prefix, field: meta?.fieldPath })
+  })
+}
+
+/**
+ * Правило: строка заканчивается суффиксом (с учётом регистра)
+ * @param suffix - Суффикс
+ * @param msg - Сообщение об ошибке
+ * @returns Правило валидации
+ */
+export function endsWith(
+  suffix: string,
+  msg?: MaybeRefOrGetter<string>
+): Rule<string> {
+  return tagRule('endsWith', { suffix }, (v, _values, meta) => {
+    if (!v || String(v).endsWith(suffix)) return null
+    return ruleMessage(msg, 'endsWith', { suffix, field: meta?.fieldPath })
+  })
+}
+
+/**
+ * Правило: строка содержит подстроку (с учётом регистра)
+ * @param substring - Искомая подстрока
+ * @param msg - Сообщение об ошибке
+ * @returns Правило валидации
+ */
+export function contains(
+  substring: string,
+  msg?: MaybeRefOrGetter<string>
+): Rule<string> {
+  return tagRule('contains', { substring }, (v, _values, meta) => {
+    if (!v || String(v).includes(substring)) return null
+    return ruleMessage(msg, 'contains', { substring, field: meta?.fieldPath })
+  })
+}
+
+/**
+ * Правило: строка без пробельных символов
+ * @param msg - Сообщение об ошибке
+ * @returns Правило валидации
+ */
+export function noWhitespace(msg?: MaybeRefOrGetter<string>): Rule<string> {
+  return tagRule('noWhitespace', {}, (v, _values, meta) => {
+    if (!v || !/\s/.test(String(v))) return null
+    return ruleMessage(msg, 'noWhitespace', { field: meta?.fieldPath })
+  })
+}
+
+/**
+ * Правило точной длины строки
+ * @param exact - Требуемая длина
+ * @param msg - Сообщение об ошибке
+ * @returns Правило валидации
+ */
+export function length(
+  exact: number,
+  msg?: MaybeRefOrGetter<string>
+): Rule<string> {
+  if (exact < 0) throw new Error('Length cannot be negative')
+
+  return tagRule('length', { length: exact }, (v, _values, meta) => {
+    if (!v || String(v).length === exact) return null
+    return ruleMessage(msg, 'length', {
+      length: exact,
+      count: exact,
+      field: meta?.fieldPath,
+    })
+  })
+}
@@ -0,0 +1,7 @@
+// Перевод правил формы в JSON Schema для проверки того же payload на сервере
+export { toJsonSchema } from './jsonSchema'
+export type {
+  JsonSchema,
+  JsonSchemaResult,
+  UnsupportedRule,
+} from './jsonSchema'
@@ -0,0 +1,461 @@
+import { isRef, type ComputedRef } from 'vue'
+import { createRules, type RulesBuilder } from '../rules/builders'
+import { describeRules } from '../rules/meta'
+import { normalizeFormRules } from '../forms/normalizeRules'
+import { defineRules } from '../utils/helpers'
+import type { FormRules, RuleDescriptor } from '../forms/types'
+
+/**
+ * Схема JSON Schema (draft 2020-12). Описаны ключевые слова, которые
+ * формирует toJsonSchema(); остальные допустимы через индексную сигнатуру
+ */
+export interface JsonSchema {
+  $schema?: string
+  type?: 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array'
+  format?: string
+  properties?: Record<string, JsonSchema>
+  additionalProperties?: JsonSchema | boolean
+  required?: string[]
+  items?: JsonSchema
+  minItems?: number
+  maxItems?: number
+  uniqueItems?: boolean
+  contains?: JsonSchema
+  minLength?: number
+  maxLength?: number
+  pattern?: string
+  minimum?: number
+  maximum?: number
+  exclusiveMinimum?: number
+  exclusiveMaximum?: number
+  multipleOf?: number
+  enum?: unknown[]
+  const?: unknown
+  allOf?: JsonSchema[]
+  anyOf?: JsonSchema[]
+  if?: JsonSchema
+  then?: JsonSchema
+  [keyword: string]: unknown
+}
+
+/**
+ * Правило, которое нельзя выразить в JSON Schema
+ */
+export interface UnsupportedRule {
+  /** Путь из правил, например 'contacts.*.email' */
+  path: string
+  /** Имя правила ('custom', 'remote', 'anonymous', ...) */
+  rule: string
+}
+
+export interface JsonSchemaResult {
+  schema: JsonSchema
+  /** Правила, пропущенные при переводе: их нужно проверить на сервере отдельно */
+  unsupported: UnsupportedRule[]
+}
+
+type RulesInput<T extends Record<string, any>> =
+  | FormRules<T>
+  | ComputedRef<FormRules<T>>
+  | ((
+      _r: RulesBuilder,
+      _define: ReturnType<typeof defineRules<T>>
+    ) => FormRules<T>)
+
+const SCHEMA_DRAFT = 'https://json-schema.org/draft/2020-12/schema'
+const NUMERIC_PATTERN = '^-?\\d*\\.?\\d+$'
+
+/** Шаблоны строковых правил без параметров */
+const STRING_PATTERNS: Record<string, string> = {
+  alpha: '^[\\p{L}\\p{M}]+$',
+  alphaNum: '^[\\p{L}\\p{M}\\p{N}]+$',
+  slug: '^[a-z\\d]+(?:-[a-z\\d]+)*$',
+  hexColor: '^#(?:[\\da-fA-F]{3,4}|[\\da-fA-F]{6}|[\\da-fA-F]{8})$',
+  noWhitespace: '^\\S*$',
+  bic: '^[A-Za-z]{6}[A-Za-z\\d]{2}(?:[A-Za-z\\d]{3})?$',
+}
+
+/** Форматы JSON Schema для строковых правил */
+const STRING_FORMATS: Record<string, string> = {
+  email: 'email',
+  ipv4: 'ipv4',
+  ipv6: 'ipv6',
+}
+
+function escapePattern(text: string): string {
+  return text.replace(/[\\^$.*+?()[\]{}|]/g, '\\$&')
+}
+
+function isBinary(value: unknown): boolean {
+  return (
+    (typeof File !== 'undefined' && value instanceof File) ||
+    (typeof Blob !== 'undefined' && value instanceof Blob) ||
+    (typeof FileList !== 'undefined' && value instanceof FileList)
+  )
+}
+
+/**
+ * Базовая схема по начальному значению: тип, вложенные свойства и элементы массивов
+ */
+function inferSchema(value: unknown): JsonSchema {
+  if (typeof value === 'string') return { type: 'string' }
+  if (typeof value === 'number') return { type: 'number' }
+  if (typeof value === 'boolean') return { type: 'boolean' }
+  if (value instanceof Date) return { type: 'string', format: 'date-time' }
+  if (value === null || value === undefined || isBinary(value)) return {}
+  if (Array.isArray(value)) {
+    return value.length > 0
+      ? { type: 'array', items: inferSchema(value[0]) }
+      : { type: 'array' }
+  }
+  if (typeof value === 'object') {
+    const properties: Record<string, JsonSchema> = {}
+    for (const [key, item] of Object.entries(value)) {
+      properties[key] = inferSchema(item)
+    }
+    return { type: 'object', properties }
+  }
+  return {}
+}
+
+/**
+ * Дочерняя схема по сегменту пути; '*' — элементы массива или значения словаря.
+ * Конкретный индекс ('contacts.0.email') в JSON Schema не выразить — null
+ */
+function childSchema(node: JsonSchema, segment: string): JsonSchema | null {
+  if (segment === '*') {
+    if (node.type === 'object') {
+      if (typeof node.additionalProperties !== 'object') {
+        node.additionalProperties = {}
+      }
+      return node.additionalProperties
+    }
+    node.type ??= 'array'
+    return (node.items ??= {})
+  }
+  if (node.type === 'array' || /^\d+$/.test(segment)) return null
+  node.type ??= 'object'
+  node.properties ??= {}
+  return (node.properties[segment] ??= {})
+}
+
+/**
+ * Родительская схема и имя поля в ней; key равен '*' для элементов массива
+ */
+function locate(
+  root: JsonSchema,
+  path: string
+): { parent: JsonSchema; key: string; node: JsonSchema } | null {
+  const parts = path.split('.')
+  let parent = root
+  for (const part of parts.slice(0, -1)) {
+    const next = childSchema(parent, part)
+    if (!next) return null
+    parent = next
+  }
+  const key = parts[parts.length - 1]
+  const node = childSchema(parent, key)
+  return node ? { parent, key, node } : null
+}
+
+function addRequired(parent: JsonSchema, key: string) {
+  parent.required ??= []
+  if (!parent.required.includes(key)) parent.required.push(key)
+}
+
+function lowerBound(
+  node: JsonSchema,
+  keyword: 'minLength' | 'minItems' | 'minimum' | 'exclusiveMinimum',
+  value: number
+) {
+  node[keyword] = Math.max(node[keyword] ?? value, value)
+}
+
+function upperBound(
+  node: JsonSchema,
+  keyword: 'maxLength' | 'maxItems' | 'maximum' | 'exclusiveMaximum',
+  value: number
+) {
+  node[keyword] = Math.min(node[keyword] ?? value, value)
+}
+
+function addPattern(node: JsonSchema, pattern: string) {
+  if (node.pattern === undefined) {
+    node.pattern = pattern
+  } else if (node.pattern !== pattern) {
+    node.allOf ??= []
+    node.allOf.push({ pattern })
+  }
+}
+
+/**
+ * Непустое значение, как его понимает required(): строка без '' и массив без []
+ */
+function nonEmpty(node: JsonSchema): JsonSchema {
+  if (node.type === 'string') return { minLength: 1 }
+  if (node.type === 'array') return { minItems: 1 }
+  return {}
+}
+
+/**
+ * Правила, кроме required(), пропускают пустую строку: необязательное строковое
+ * поле принимает '' или значение, подходящее под ограничения
+ */
+function allowEmptyString(node: JsonSchema) {
+  if (node.type !== 'string') return
+  const { type: _type, ...constraints } = node
+  const keywords = Object.keys(constraints)
+  // Одно ограничение длины сверху пустую строку и так пропускает
+  if (keywords.every(keyword => keyword === 'maxLength')) return
+  keywords.forEach(keyword => delete node[keyword])
+  node.anyOf = [{ const: '' }, constraints]
+}
+
+/**
+ * requiredIf переводится в if/then, если поле-условие лежит в том же объекте
+ */
+function applyRequiredIf(
+  root: JsonSchema,
+  path: string,
+  descriptor: RuleDescriptor
+): boolean {
+  const field = descriptor.params.field as string
+  const parentPath = path.split('.').slice(0, -1).join('.')
+  const conditionParts = field.split('.')
+  const conditionParent = conditionParts.slice(0, -1).join('.')
+  if (conditionParent !== parentPath) return false
+
+  const target = locate(root, path)
+  if (!target || target.key === '*') return false
+  const conditionKey = conditionParts[conditionParts.length - 1]
+  const nested = nonEmpty(target.node)
+
+  target.parent.allOf ??= []
+  target.parent.allOf.push({
+    if: {
+      properties: { [conditionKey]: { const: descriptor.params.value } },
+      required: [conditionKey],
+    },
+    then: {
+      required: [target.key],
+      ...(Object.keys(nested).length
+        ? { properties: { [target.key]: nested } }
+        : {}),
+    },
+  })
+  return true
+}
+
+/**
+ * Применяет одно правило к схеме поля
+ * @returns false, если правило не переводится в JSON Schema
+ */
+function applyRule(
+  root: JsonSchema,
+  path: string,
+  descriptor: RuleDescriptor
+): boolean {
+  if (descriptor.name === 'requiredIf') {
+    return applyRequiredIf(root, path, descriptor)
+  }
+
+  const target = locate(root, path)
+  if (!target) return false
+  const { parent, key, node } = target
+  const { params } = descriptor
+
+  switch (descriptor.name) {
+    case 'required':
+    case 'arrayRequired':
+      if (key !== '*') addRequired(parent, key)
+      if (descriptor.name === 'arrayRequired') node.type ??= 'array'
+      if (node.type === 'string') lowerBound(node, 'minLength', 1)
+      if (node.type === 'array') lowerBound(node, 'minItems', 1)
+      return true
+    case 'minLength':
+      node.type ??= 'string'
+      lowerBound(node, 'minLength', params.min as number)
+      return true
+    case 'maxLength':
+      node.type ??= 'string'
+      upperBound(node, 'maxLength', params.max as number)
+      return true
+    case 'email':
+    case 'ipv4':
+    case 'ipv6':
+      node.type ??= 'string'
+      node.format = STRING_FORMATS[descriptor.name]
+      return true
+    case 'uuid':
+      node.type ??= 'string'
+      node.format = 'uuid'
+      if (params.version !== 'any') {
+        addPattern(node, `^[\\da-fA-F-]{14}${params.version}`)
+      }
+      return true
+    case 'url': {
+      // Формат 'uri' требует схему; без неё правило не переводится
+      if (!params.requireProtocol) return false
+      const protocols = (params.protocols as string[]).map(escapePattern)
+      node.type ??= 'string'
+      node.format = 'uri'
+      addPattern(node, `^(?:${protocols.join('|')}):`)
+      return true
+    }
+    case 'date':
+      // Формат 'date' — это только YYYY-MM-DD (RFC 3339)
+      if ([params.format].flat().join() !== 'YYYY-MM-DD') return false
+      node.type ??= 'string'
+      node.format = 'date'
+      return true
+    case 'alpha':
+    case 'alphaNum':
+    case 'slug':
+    case 'hexColor':
+    case 'noWhitespace':
+    case 'bic':
+      node.type ??= 'string'
+      addPattern(node, STRING_PATTERNS[descriptor.name])
+      return true
+    case 'startsWith':
+      node.type ??= 'string'
+      addPattern(node, `^${escapePattern(params.prefix as string)}`)
+      return true
+    case 'endsWith':
+      node.type ??= 'string'
+      addPattern(node, `${escapePattern(params.suffix as string)}$`)
+      return true
+    case 'contains':
+      node.type ??= 'string'
+      addPattern(node, escapePattern(params.substring as string))
+      return true
+    case 'length':
+      node.type ??= 'string'
+      lowerBound(node, 'minLength', params.length as number)
+      upperBound(node, 'maxLength', params.length as number)
+      return true
+    case 'regex': {
+      const pattern = params.pattern as RegExp
+      // Флаги (i, m, s, ...) в ключевом слове pattern не выразить
+      if (/[imsy]/.test(pattern.flags)) return false
+      node.type ??= 'string'
+      addPattern(node, pattern.source)
+      return true
+    }
+    case 'numeric':
+      if (node.type === 'string') addPattern(node, NUMERIC_PATTERN)
+      else node.type ??= 'number'
+      return true
+    case 'between':
+    case 'minValue':
+    case 'maxValue':
+      // minimum/maximum не действуют на числовые строки
+      if (node.type === 'string') return false
+      node.type ??= 'number'
+      if (params.min !== undefined) {
+        lowerBound(node, 'minimum', params.min as number)
+      }
+      if (params.max !== undefined) {
+        upperBound(node, 'maximum', params.max as number)
+      }
+      return true
+    case 'integer':
+    case 'safeInteger':
+      if (node.type === 'string') return false
+      node.type = 'integer'
+      if (descriptor.name === 'safeInteger') {
+        lowerBound(node, 'minimum', Number.MIN_SAFE_INTEGER)
+        upperBound(node, 'maximum', Number.MAX_SAFE_INTEGER)
+      }
+      return true
+    case 'positive':
+    case 'negative':
+    case 'nonNegative':
+    case 'multipleOf':
+      if (node.type === 'string') return false
+      node.type ??= 'number'
+      if (descriptor.name === 'positive') {
+        lowerBound(node, 'exclusiveMinimum', 0)
+      } else if (descriptor.name === 'negative') {
+        upperBound(node, 'exclusiveMaximum', 0)
+      } else if (descriptor.name === 'nonNegative') {
+        lowerBound(node, 'minimum', 0)
+      } else {
+        node.multipleOf = params.step as number
+      }
+      return true
+    case 'oneOf':
+      node.enum = [...(params.list as unknown[])]
+      return true
+    case 'arrayMinLength':
+      node.type ??= 'array'
+      lowerBound(node, 'minItems', params.min as number)
+      return true
+    case 'arrayMaxLength':
+      node.type ??= 'array'
+      upperBound(node, 'maxItems', params.max as number)
+      return true
+    case 'arrayUnique':
+      // Уникальность по ключу в JSON Schema не выразить
+      if (params.by !== undefined) return false
+      node.type ??= 'array'
+      node.uniqueItems = true
+      return true
+    case 'arrayContains':
+      node.type ??= 'array'
+      node.contains = { const: params.value }
+      return true
+    default:
+      // custom, remote, sameAs, dateAfter, файловые и пользовательские правила
+      return false
+  }
+}
+
+function resolveRules<T extends Record<string, any>>(
+  rules: RulesInput<T>
+): FormRules<T> {
+  if (typeof rules === 'function') {
+    return rules(createRules(), defineRules<T>())
+  }
+  return isRef(rules) ? rules.value : rules
+}
+
+/**
+ * Строит JSON Schema (draft 2020-12) по начальным значениям и правилам формы,
+ * чтобы сервер проверял тот же payload без повторного описания правил
+ * @param initialValues - Начальные значения формы (определяют типы и структуру)
+ * @param rules - Правила в том же виде, что и для createForm(): строитель, computed или объект
+ * @returns Схема и список правил, которые не удалось перевести
+ */
+export function toJsonSchema<T extends Record<string, any>>(
+  initialValues: T,
+  rules: RulesInput<T>
+): JsonSchemaResult {
+  const schema: JsonSchema = {
+    $schema: SCHEMA_DRAFT,
+    ...inferSchema(initialValues),
+  }
+  const unsupported: UnsupportedRule[] = []
+  const normalized = normalizeFormRules<T, FormRules<T>>(resolveRules(rules))
+
+  for (const [path, fieldRules] of Object.entries(normalized)) {
+    let applied = false
+    let required = false
+    for (const descriptor of describeRules(fieldRules ?? [])) {
+      // Предупреждения не блокируют отправку — на сервере они не нужны
+      if (descriptor.warning) continue
+      if (applyRule(schema, path, descriptor)) {
+        applied = true
+        required ||= descriptor.name === 'required'
+      } else {
+        unsupported.push({ path, rule: descriptor.name })
+      }
+    }
+    if (applied && !required) {
+      const target = locate(schema, path)
+      if (target) allowEmptyString(target.node)
+    }
+  }
+
+  return { schema, unsupported }
+}
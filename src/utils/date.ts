@@ -0,0 +1,218 @@
+import { getNestedValue, resolveWildcard } from './nested'
+
+/**
+ * Значение даты в правилах: Date, строка ISO или timestamp
+ */
+export type DateInput = Date | string | number
+
+const MS_PER_DAY = 86_400_000
+
+/**
+ * Формат даты из токенов: YYYY, MM/M, DD/D, HH/H, mm, ss. Остальные символы —
+ * разделители; часть в квадратных скобках необязательна: 'DD.MM.YYYY[ HH:mm]'
+ */
+export type DateFormat = string
+
+interface CompiledFormat {
+  pattern: RegExp
+  tokens: string[]
+}
+
+const TOKEN_PATTERNS: Record<string, string> = {
+  YYYY: '(\\d{4})',
+  MM: '(\\d{2})',
+  M: '(\\d{1,2})',
+  DD: '(\\d{2})',
+  D: '(\\d{1,2})',
+  HH: '(\\d{2})',
+  H: '(\\d{1,2})',
+  mm: '(\\d{2})',
+  ss: '(\\d{2})',
+}
+const TOKEN_RE = /YYYY|MM?|DD?|HH?|mm|ss|\[|\]|./g
+
+const compiledFormats = new Map<string, CompiledFormat>()
+
+function compileFormat(format: DateFormat): CompiledFormat {
+  let compiled = compiledFormats.get(format)
+  if (compiled) return compiled
+
+  const tokens: string[] = []
+  let source = ''
+  for (const [part] of format.matchAll(TOKEN_RE)) {
+    if (part === '[') source += '(?:'
+    else if (part === ']') source += ')?'
+    else if (TOKEN_PATTERNS[part]) {
+      tokens.push(part)
+      source += TOKEN_PATTERNS[part]
+    } else source += part.replace(/[.*+?^${}()|[\]\\/-]/g, '\\$&')
+  }
+  compiled = { pattern: new RegExp(`^${source}$`), tokens }
+  compiledFormats.set(format, compiled)
+  return compiled
+}
+
+/**
+ * Строго разбирает строку по формату: '31.02.2024' и '24:00' не проходят
+ * @param value - Строка с датой
+ * @param format - Формат или список форматов, проверяемых по порядку
+ * @returns Локальная дата или null, если строка не соответствует формату
+ * @example
+ * parseDate('31.12.2024', 'DD.MM.YYYY') // → 31 декабря 2024, 00:00
+ * parseDate('2024-12-31 18:30', 'YYYY-MM-DD[ HH:mm]') // → 31 декабря 2024, 18:30
+ */
+export function parseDate(
+  value: string,
+  format: DateFormat | DateFormat[]
+): Date | null {
+  for (const f of Array.isArray(format) ? format : [format]) {
+    const { pattern, tokens } = compileFormat(f)
+    const match = pattern.exec(value.trim())
+    if (!match) continue
+
+    const parts: Record<string, number> = {}
+    tokens.forEach((token, i) => {
+      if (match[i + 1] !== undefined) parts[token[0]] = Number(match[i + 1])
+    })
+    const { Y: year, M: month, D: day, H: hours = 0, m: minutes = 0 } = parts
+    const seconds = parts.s ?? 0
+    if (year === undefined || month === undefined || day === undefined) {
+      continue
+    }
+    if (hours > 23 || minutes > 59 || seconds > 59) continue
+
+    const date = new Date(2000, month - 1, day, hours, minutes, seconds)
+    // new Date(50, ...) означает 1950 год
+    date.setFullYear(year)
+    // 31.02 не должно превращаться в 2 марта
+    if (date.getMonth() !== month - 1 || date.getDate() !== day) continue
+    return date
+  }
+  return null
+}
+
+/**
+ * Форматирует дату по формату parseDate; необязательные части опускаются
+ * @example
+ * formatDate(new Date(2024, 11, 31), 'DD.MM.YYYY') // → '31.12.2024'
+ */
+export function formatDate(date: Date, format: DateFormat): string {
+  const pad = (n: number, size = 2) => String(n).padStart(size, '0')
+  const values: Record<string, string> = {
+    YYYY: pad(date.getFullYear(), 4),
+    MM: pad(date.getMonth() + 1),
+    M: String(date.getMonth() + 1),
+    DD: pad(date.getDate()),
+    D: String(date.getDate()),
+    HH: pad(date.getHours()),
+    H: String(date.getHours()),
+    mm: pad(date.getMinutes()),
+    ss: pad(date.getSeconds()),
+  }
+  return format
+    .replace(/\[[^\]]*\]/g, '')
+    .replace(TOKEN_RE, part => values[part] ?? part)
+}
+
+/**
+ * Приводит значение к Date. Строки разбираются по форматам, а без них —
+ * как ISO, причём 'YYYY-MM-DD' читается как локальная дата
+ * (new Date() считает её полночью UTC и в западных часовых поясах сдвигает день)
+ * @returns Date или null, если значение не является корректной датой
+ */
+export function toDate(
+  value: unknown,
+  formats?: DateFormat | DateFormat[]
+): Date | null {
+  let date: Date | null = null
+  if (value instanceof Date) {
+    date = new Date(value.getTime())
+  } else if (typeof value === 'number') {
+    date = new Date(value)
+  } else if (typeof value === 'string' && value.trim() !== '') {
+    if (formats?.length) return parseDate(value, formats)
+    if (/^\d{4}-\d{2}-\d{2}$/.test(value.trim())) {
+      return parseDate(value, 'YYYY-MM-DD')
+    }
+    date = new Date(value)
+  }
+  return date && !Number.isNaN(date.getTime()) ? date : null
+}
+
+/**
+ * Номер календарного дня в локальном часовом поясе. Разница номеров —
+ * количество дней между датами без учёта времени и перехода на летнее время
+ */
+export function dayNumber(date: Date): number {
+  return Math.round(
+    Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / MS_PER_DAY
+  )
+}
+
+/**
+ * Количество полных лет между датой рождения и датой на момент `at`
+ */
+export function fullYearsBetween(birth: Date, at: Date): number {
+  const years = at.getFullYear() - birth.getFullYear()
+  const beforeBirthday =
+    at.getMonth() < birth.getMonth() ||
+    (at.getMonth() === birth.getMonth() && at.getDate() < birth.getDate())
+  return beforeBirthday ? years - 1 : years
+}
+
+/**
+ * Граница сравнения в правилах дат: имя поля (в том числе с wildcard)
+ * или фиксированная дата — Date, timestamp или строка ISO / в формате dateFormat
+ */
+export type DateBoundary = string | Date | number
+
+const ISO_DATE =
+  /^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/
+
+/**
+ * Разбирает строку-границу как фиксированную дату: ISO или один из форматов.
+ * Имена полей ('startDate', 'trips.*.from') датой не считаются
+ * @returns Дата или null, если строка — не дата
+ */
+export function parseFixedDate(
+  value: string,
+  formats?: DateFormat | DateFormat[]
+): Date | null {
+  const date = formats?.length ? parseDate(value, formats) : null
+  if (date) return date
+  return ISO_DATE.test(value.trim()) ? toDate(value) : null
+}
+
+/**
+ * Дата границы: значение поля формы, если такой путь есть в значениях,
+ * иначе фиксированная дата
+ */
+export function resolveBoundary(
+  boundary: DateBoundary,
+  formValues: Record<string, any> | undefined,
+  fieldPath: string | undefined,
+  formats?: DateFormat | DateFormat[]
+): Date | null {
+  if (typeof boundary !== 'string') return toDate(boundary)
+  const resolved = fieldPath ? resolveWildcard(boundary, fieldPath) : boundary
+  const value = getNestedValue(formValues, resolved)
+  if (value !== undefined) return toDate(value, formats)
+  return parseFixedDate(boundary, formats)
+}
+
+/**
+ * Подпись границы в сообщении: имя поля или дата в первом из форматов
+ * (по умолчанию 'YYYY-MM-DD')
+ */
+export function boundaryLabel(
+  boundary: DateBoundary,
+  formats?: DateFormat | DateFormat[]
+): string {
+  const date =
+    typeof boundary === 'string'
+      ? parseFixedDate(boundary, formats)
+      : toDate(boundary)
+  if (!date) return String(boundary)
+  const [format = 'YYYY-MM-DD'] = Array.isArray(formats) ? formats : [formats]
+  return formatDate(date, format)
+}
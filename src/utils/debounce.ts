@@ -1,5 +1,11 @@
+function isAbortSignal(value: unknown): value is AbortSignal {
+  return typeof AbortSignal !== 'undefined' && value instanceof AbortSignal
+}
+
 /**
  * Создает дебаунсированную версию асинхронной функции
+ * Если последний аргумент вызова — AbortSignal, его отмена снимает ожидающий
+ * вызов (промис отклоняется с AbortError), а сам сигнал передаётся в fn
  * @template T - Тип функции
  * @param fn - Асинхронная функция для дебаунса
  * @param delay - Задержка дебаунса в миллисекундах
@@ -11,27 +17,50 @@ export function debounce<T extends (..._args: any[]) => Promise<any>>(
 ): (..._args: Parameters<T>) => Promise<Awaited<ReturnType<T>>> {
   let timeoutId: ReturnType<typeof setTimeout> | null = null
   let pendingReject: ((_reason: any) => void) | null = null
+  let detachSignal: (() => void) | null = null
+
+  const settle = () => {
+    pendingReject = null
+    detachSignal?.()
+    detachSignal = null
+  }
 
   return (..._args: Parameters<T>): Promise<Awaited<ReturnType<T>>> => {
     // Reject предыдущий висящий Promise, чтобы он не оставался pending навсегда
     if (pendingReject) {
-      pendingReject(new DOMException('Debounce superseded', 'AbortError'))
-      pendingReject = null
+      const reject = pendingReject
+      settle()
+      reject(new DOMException('Debounce superseded', 'AbortError'))
     }
     if (timeoutId) clearTimeout(timeoutId)
+    timeoutId = null
+
+    const signal = _args[_args.length - 1]
+    if (isAbortSignal(signal) && signal.aborted) {
+      return Promise.reject(new DOMException('Debounce aborted', 'AbortError'))
+    }
 
     return new Promise((resolve, reject) => {
       pendingReject = reject
 
+      if (isAbortSignal(signal)) {
+        const onAbort = () => {
+          if (timeoutId) clearTimeout(timeoutId)
+          timeoutId = null
+          settle()
+          reject(new DOMException('Debounce aborted', 'AbortError'))
+        }
+        signal.addEventListener('abort', onAbort, { once: true })
+        detachSignal = () => signal.removeEventListener('abort', onAbort)
+      }
+
       timeoutId = setTimeout(async () => {
-        pendingReject = null
+        timeoutId = null
+        settle()
         try {
-          const result = await fn(..._args)
-          resolve(result)
+          resolve(await fn(..._args))
         } catch (error) {
           reject(error)
-        } finally {
-          timeoutId = null
         }
       }, delay)
     })
@@ -4,3 +4,5 @@ export * from './fileHelpers'
 export * from './nested'
 export * from './deep'
 export * from './debounce'
+export * from './storage'
+export { parseDate, formatDate } from './date'
@@ -30,8 +30,9 @@ export function setNestedValue(obj: any, path: string, value: any): void {
 }
 
 /**
- * Резолвит wildcard в пути, подставляя индекс из конкретного пути.
+ * Резолвит wildcard в пути, подставляя сегменты из конкретного пути по позиции.
  * resolveWildcard('contacts.*.email', 'contacts.0.confirmEmail') → 'contacts.0.email'
+ * resolveWildcard('orders.*.items.*.price', 'orders.1.items.2.qty') → 'orders.1.items.2.price'
  */
 export function resolveWildcard(
   wildcardPath: string,
@@ -46,7 +47,150 @@ export function resolveWildcard(
 }
 
 /**
- * Раскрывает пути с подстановочными знаками типа 'contacts.*.email' для валидации массивов
+ * Резолвит все wildcard, кроме последнего: он означает все соседние элементы.
+ * resolveSiblingWildcard('participants.*.email', 'participants.2.email') → 'participants.*.email'
+ * resolveSiblingWildcard('orders.*.items.*.sku', 'orders.1.items.2.sku') → 'orders.1.items.*.sku'
+ */
+export function resolveSiblingWildcard(
+  wildcardPath: string,
+  concretePath: string
+): string {
+  const last = wildcardPath.lastIndexOf('*')
+  if (last === -1) return wildcardPath
+  return (
+    resolveWildcard(wildcardPath.slice(0, last), concretePath) +
+    wildcardPath.slice(last)
+  )
+}
+
+/**
+ * Переносит записи с ключами вида 'contacts.N.*' на новые индексы элементов массива.
+ * mapIndex возвращает новый индекс элемента или null, если элемент удалён.
+ * remapArrayKeys({ 'contacts.1.email': x }, 'contacts', i => i - 1) → { 'contacts.0.email': x }
+ */
+export function remapArrayKeys<V>(
+  record: Record<string, V>,
+  arrayPath: string,
+  mapIndex: (_index: number) => number | null
+): void {
+  const prefix = arrayPath + '.'
+  const moved: Array<[string, V]> = []
+
+  for (const key of Object.keys(record)) {
+    if (!key.startsWith(prefix)) continue
+    const rest = key.slice(prefix.length)
+    const dot = rest.indexOf('.')
+    const indexPart = dot === -1 ? rest : rest.slice(0, dot)
+    if (!/^\d+$/.test(indexPart)) continue
+
+    const value = record[key]
+    delete record[key]
+    const nextIndex = mapIndex(Number(indexPart))
+    if (nextIndex === null) continue
+    moved.push([
+      prefix + nextIndex + (dot === -1 ? '' : rest.slice(dot)),
+      value,
+    ])
+  }
+
+  // Записываем после удаления, чтобы перенос не затёр ещё не обработанные ключи
+  for (const [key, value] of moved) {
+    record[key] = value
+  }
+}
+
+/**
+ * Проверяет, матчится ли wildcard-паттерн к конкретному пути.
+ * '*' соответствует любому одному сегменту: индексу массива или ключу объекта.
+ * matchesWildcardPath('orders.*.items.*.qty', 'orders.0.items.2.qty') → true
+ */
+export function matchesWildcardPath(
+  pattern: string,
+  concrete: string
+): boolean {
+  const patternParts = pattern.split('.')
+  const concreteParts = concrete.split('.')
+  if (patternParts.length !== concreteParts.length) return false
+  return patternParts.every(
+    (part, i) =>
+      part === concreteParts[i] || (part === '*' && !!concreteParts[i])
+  )
+}
+
+/**
+ * Проверяет, затрагивает ли изменение одного пути другой путь:
+ * пути совпадают, либо один является префиксом другого (с учётом '*').
+ * pathsOverlap('orders.*.qty', 'orders') → true, pathsOverlap('orders', 'orders.0.qty') → true
+ */
+export function pathsOverlap(a: string, b: string): boolean {
+  const partsA = a.split('.')
+  const partsB = b.split('.')
+  const length = Math.min(partsA.length, partsB.length)
+  for (let i = 0; i < length; i++) {
+    if (partsA[i] !== partsB[i] && partsA[i] !== '*' && partsB[i] !== '*') {
+      return false
+    }
+  }
+  return true
+}
+
+/**
+ * Обычный объект-словарь (не массив, не Date/File и т.п.), по ключам которого раскрывается '*'
+ */
+function isPlainRecord(value: unknown): value is Record<string, unknown> {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    return false
+  }
+  const proto = Object.getPrototypeOf(value)
+  return proto === Object.prototype || proto === null
+}
+
+/**
+ * Раскрывает один wildcard-путь по текущим значениям
+ */
+function expandPattern(
+  parts: string[],
+  current: unknown,
+  resolved: string[],
+  out: string[]
+): void {
+  if (resolved.length === parts.length) {
+    out.push(resolved.join('.'))
+    return
+  }
+
+  const part = parts[resolved.length]
+  if (part !== '*') {
+    const next = current == null ? undefined : (current as any)[part]
+    expandPattern(parts, next, [...resolved, part], out)
+    return
+  }
+
+  if (Array.isArray(current)) {
+    current.forEach((item, index) =>
+      expandPattern(parts, item, [...resolved, String(index)], out)
+    )
+  } else if (isPlainRecord(current)) {
+    Object.keys(current).forEach(key =>
+      expandPattern(parts, current[key], [...resolved, key], out)
+    )
+  }
+}
+
+/**
+ * Раскрывает wildcard-путь в конкретные пути по текущим значениям.
+ * expandWildcardPath('items.*.qty', { items: [{}, {}] }) → ['items.0.qty', 'items.1.qty']
+ */
+export function expandWildcardPath(path: string, values: any): string[] {
+  if (!path.includes('*')) return [path]
+  const concretePaths: string[] = []
+  expandPattern(path.split('.'), values, [], concretePaths)
+  return concretePaths
+}
+
+/**
+ * Раскрывает пути с подстановочными знаками для валидации массивов и словарей.
+ * Поддерживает несколько '*' ('orders.*.items.*.qty') и ключи объектов ('prices.*')
  */
 export function expandWildcardPaths(
   rules: Record<string, Rule<any>[]>,
@@ -56,19 +200,9 @@ export function expandWildcardPaths(
 
   for (const [path, ruleArray] of Object.entries(rules)) {
     if (path.includes('*')) {
-      const parts = path.split('.')
-      const wildcardIndex = parts.indexOf('*')
-      const arrayPath = parts.slice(0, wildcardIndex).join('.')
-      const array = getNestedValue(values, arrayPath)
-
-      if (Array.isArray(array)) {
-        array.forEach((_, index) => {
-          const expandedPath = parts
-            .map(part => (part === '*' ? index.toString() : part))
-            .join('.')
-          expanded[expandedPath] = ruleArray
-        })
-      }
+      expandWildcardPath(path, values).forEach(concrete => {
+        expanded[concrete] = ruleArray
+      })
     } else {
       expanded[path] = ruleArray
     }
@@ -0,0 +1,68 @@
+/**
+ * Хранилище черновиков формы. Методы могут быть синхронными (localStorage)
+ * или асинхронными (IndexedDB, серверное хранилище и т.п.)
+ */
+export interface StorageAdapter {
+  getItem: (_key: string) => string | null | Promise<string | null>
+  setItem: (_key: string, _value: string) => void | Promise<void>
+  removeItem: (_key: string) => void | Promise<void>
+}
+
+/**
+ * Создаёт хранилище в памяти. Полезно для SSR и тестов,
+ * а также для обмена черновиком между формами без сохранения в браузере
+ */
+export function createMemoryStorage(): StorageAdapter {
+  const items = new Map<string, string>()
+  return {
+    getItem: key => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value)
+    },
+    removeItem: key => {
+      items.delete(key)
+    },
+  }
+}
+
+/**
+ * Оборачивает Web Storage API. Если хранилище недоступно (SSR, приватный режим),
+ * используется хранилище в памяти
+ */
+function createWebStorage(
+  getStorage: () => Storage | undefined
+): StorageAdapter {
+  let storage: Storage | undefined
+  try {
+    storage = getStorage()
+  } catch {
+    // Доступ к storage может бросать SecurityError
+    storage = undefined
+  }
+  if (!storage) return createMemoryStorage()
+
+  const webStorage = storage
+  return {
+    getItem: key => webStorage.getItem(key),
+    setItem: (key, value) => webStorage.setItem(key, value),
+    removeItem: key => webStorage.removeItem(key),
+  }
+}
+
+/**
+ * Хранилище на основе window.localStorage
+ */
+export function localStorageAdapter(): StorageAdapter {
+  return createWebStorage(() =>
+    typeof window !== 'undefined' ? window.localStorage : undefined
+  )
+}
+
+/**
+ * Хранилище на основе window.sessionStorage
+ */
+export function sessionStorageAdapter(): StorageAdapter {
+  return createWebStorage(() =>
+    typeof window !== 'undefined' ? window.sessionStorage : undefined
+  )
+}
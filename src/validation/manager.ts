@@ -1,12 +1,24 @@
 import { nextTick } from 'vue'
 import type { Rule, ValidationCache, FieldDependency } from '../forms/types'
+import type { PasswordStrength } from '../rules/password'
 import {
+  expandWildcardPath,
   expandWildcardPaths,
   getNestedValue,
+  matchesWildcardPath,
+  pathsOverlap,
+  remapArrayKeys,
+  resolveSiblingWildcard,
   resolveWildcard,
 } from '../utils/nested'
 import { deepEqual, deepClone } from '../utils/deep'
 
+type StrengthEstimator = (
+  _value: any,
+  _values: Record<string, any>,
+  _fieldPath: string
+) => PasswordStrength
+
 /**
  * Управляет логикой валидации формы, включая кэширование и кросс-полевые зависимости
  * @template T - Тип значений формы
@@ -17,6 +29,7 @@ export class ValidationManager<T extends Record<string, any>> {
   private rules: Partial<{ [K in keyof T]: Rule<T[K]>[] }> = {}
   private values: T
   private errors: Record<string, string[]>
+  private warnings: Record<string, string[]>
   private isValidating: Record<string, boolean>
   private abortControllers = new Map<string, AbortController>()
   private expandedRulesCache: Record<string, Rule<any>[]> | null = null
@@ -27,15 +40,18 @@ export class ValidationManager<T extends Record<string, any>> {
    * @param values - Реактивные значения формы
    * @param errors - Реактивный объект ошибок
    * @param isValidating - Реактивный объект состояния валидации
+   * @param warnings - Реактивный объект предупреждений
    */
   constructor(
     values: T,
     errors: Record<string, string[]>,
-    isValidating: Record<string, boolean>
+    isValidating: Record<string, boolean>,
+    warnings: Record<string, string[]>
   ) {
     this.values = values
     this.errors = errors
     this.isValidating = isValidating
+    this.warnings = warnings
   }
 
   /**
@@ -79,19 +95,34 @@ export class ValidationManager<T extends Record<string, any>> {
     this.expandedRulesCache = null
   }
 
+  /**
+   * Сбрасывает раскрытые wildcard-правила поля верхнего уровня.
+   * Нужно после прямого присваивания (`prices.eur = 5`, `list[3] = …`), которое
+   * добавляет ключи или элементы в обход arrayHelpers
+   * @param rootKey - Поле верхнего уровня, например 'prices'
+   */
+  refreshWildcardRules(rootKey: string) {
+    if (!this.hasWildcardRules || !this.expandedRulesCache) return
+    const prefix = rootKey + '.'
+    const affected = Object.keys(this.rules).some(
+      pattern => pattern.startsWith(prefix) && pattern.includes('*')
+    )
+    if (affected) this.invalidateExpandedRulesCache()
+  }
+
   /**
    * Проверяет, матчится ли wildcard-паттерн ('contacts.*.email') к конкретному пути ('contacts.0.email')
    */
   private matchesWildcard(pattern: string, concrete: string): boolean {
-    const re = new RegExp(
-      '^' +
-        pattern
-          .split('.')
-          .map(p => (p === '*' ? '\\d+' : p))
-          .join('\\.') +
-        '$'
-    )
-    return re.test(concrete)
+    return matchesWildcardPath(pattern, concrete)
+  }
+
+  /**
+   * Возвращает все поля с правилами, включая раскрытые wildcard-пути
+   * @returns Массив путей полей, например ['name', 'contacts.0.email']
+   */
+  getRuleFields(): string[] {
+    return Object.keys(this.getExpandedRules())
   }
 
   /**
@@ -121,6 +152,11 @@ export class ValidationManager<T extends Record<string, any>> {
         delete this.errors[key]
       }
     }
+    for (const key of Object.keys(this.warnings)) {
+      if (!activeFields.has(key)) {
+        delete this.warnings[key]
+      }
+    }
   }
 
   /**
@@ -135,18 +171,23 @@ export class ValidationManager<T extends Record<string, any>> {
       if (!fieldRules || !Array.isArray(fieldRules)) continue
 
       const dependsOn: string[] = []
+      const dependsOnAll: string[] = []
 
       for (const rule of fieldRules) {
         const meta = (rule as any).__crossField
         if (meta?.dependsOn && Array.isArray(meta.dependsOn)) {
           dependsOn.push(...meta.dependsOn)
         }
+        if (meta?.dependsOnAll && Array.isArray(meta.dependsOnAll)) {
+          dependsOnAll.push(...meta.dependsOnAll)
+        }
       }
 
-      if (dependsOn.length > 0) {
+      if (dependsOn.length > 0 || dependsOnAll.length > 0) {
         dependencies.push({
           field: fieldName,
           dependsOn: [...new Set(dependsOn)],
+          dependsOnAll: [...new Set(dependsOnAll)],
         })
       }
     }
@@ -154,33 +195,155 @@ export class ValidationManager<T extends Record<string, any>> {
     this.fieldDependencies = dependencies
   }
 
+  /**
+   * Находит зависимости поля: по точному совпадению, затем по wildcard-паттерну
+   * @param fieldKey - Конкретный путь поля
+   */
+  private findDependency(fieldKey: string): FieldDependency | undefined {
+    const exact = this.fieldDependencies.find(d => d.field === fieldKey)
+    if (exact || !fieldKey.includes('.')) return exact
+    return this.fieldDependencies.find(
+      d => d.field.includes('*') && this.matchesWildcard(d.field, fieldKey)
+    )
+  }
+
   /**
    * Получает поля, которые зависят от измененного поля
    * @param changedField - Поле, которое изменилось
    * @returns Массив имен зависимых полей
    */
   getDependentFields(changedField: string): string[] {
-    const fields: string[] = []
+    const fields = new Set<string>()
     for (const dep of this.fieldDependencies) {
-      const matches = dep.dependsOn.some(d => {
-        if (d === changedField) return true
-        if (d.includes('*')) return this.matchesWildcard(d, changedField)
-        return false
-      })
-      if (!matches) continue
-
-      if (dep.field.includes('*')) {
-        const expanded = this.getExpandedRules()
-        for (const key of Object.keys(expanded)) {
-          if (this.matchesWildcard(dep.field, key)) {
-            fields.push(key)
-          }
-        }
-      } else {
-        fields.push(dep.field)
+      // Зависимость затронута, если пути совпадают или один вложен в другой ('orders' ↔ 'orders.*.qty')
+      const related = dep.dependsOn.filter(d => pathsOverlap(d, changedField))
+      const relatedAll = dep.dependsOnAll.filter(d =>
+        pathsOverlap(d, changedField)
+      )
+      if (related.length === 0 && relatedAll.length === 0) continue
+
+      const candidates = dep.field.includes('*')
+        ? this.getRuleFields().filter(key =>
+            this.matchesWildcard(dep.field, key)
+          )
+        : [dep.field]
+
+      // Для wildcard-полей берём только те, чья резолвленная зависимость
+      // пересекается с изменённым путём: 'orders.1.qty' → только 'orders.1.total'.
+      // Зависимость от всех соседей затрагивает каждый элемент: 'participants.1.email'
+      // → 'participants.0.email', 'participants.2.email'
+      for (const candidate of candidates) {
+        const affected =
+          related.some(d =>
+            pathsOverlap(resolveWildcard(d, candidate), changedField)
+          ) ||
+          relatedAll.some(d =>
+            pathsOverlap(resolveSiblingWildcard(d, candidate), changedField)
+          )
+        if (affected) fields.add(candidate)
+      }
+    }
+    return [...fields]
+  }
+
+  /**
+   * Правила поля: для вложенных путей типа 'contacts.0.email' — из раскрытых wildcard-правил.
+   * Пропускаем expansion если нет wildcard-правил (оптимизация для простых форм)
+   */
+  private rulesFor(fieldKey: string): Rule<any>[] {
+    const own = this.rules[fieldKey as keyof T] as Rule<any>[] | undefined
+    if (!this.hasWildcardRules) return own ?? []
+    const expanded = this.getExpandedRules()[fieldKey]
+    if (expanded) return expanded
+    // Путь мог появиться после раскрытия — раскрываем заново, если его покрывает wildcard
+    const covered = Object.keys(this.rules).some(
+      pattern =>
+        pattern.includes('*') && this.matchesWildcard(pattern, fieldKey)
+    )
+    if (!covered) return own ?? []
+    this.invalidateExpandedRulesCache()
+    return this.getExpandedRules()[fieldKey] ?? own ?? []
+  }
+
+  /**
+   * Текущее значение поля, в том числе по вложенному пути
+   */
+  private valueOf(fieldKey: string): any {
+    return fieldKey.includes('.')
+      ? getNestedValue(this.values, fieldKey)
+      : this.values[fieldKey as keyof T]
+  }
+
+  /**
+   * Собирает текущие значения cross-field зависимостей поля для кэша
+   */
+  private collectDepsValues(fieldKey: string): Record<string, any> {
+    const depsValues: Record<string, any> = {}
+    // Данные вне формы (загружаемые списки в ref), от которых зависит правило
+    this.rulesFor(fieldKey).forEach((rule, index) => {
+      const external = (rule as any).__cacheDeps
+      if (external) depsValues[`#${index}`] = external()
+    })
+    const dep = this.findDependency(fieldKey)
+    if (!dep) return depsValues
+    for (const depField of dep.dependsOn) {
+      const resolved = depField.includes('*')
+        ? resolveWildcard(depField, fieldKey)
+        : depField
+      depsValues[resolved] = this.valueOf(resolved)
+    }
+    // Значения всех соседей: кэш элемента устаревает при изменении любого из них
+    for (const pattern of dep.dependsOnAll) {
+      const siblings = resolveSiblingWildcard(pattern, fieldKey)
+      for (const path of expandWildcardPath(siblings, this.values)) {
+        depsValues[path] = this.valueOf(path)
       }
     }
-    return fields
+    return depsValues
+  }
+
+  /**
+   * Кэш актуален, если не изменились ни значение поля, ни его зависимости
+   */
+  private isCacheFresh(
+    cached: ValidationCache | undefined,
+    value: any,
+    depsValues: Record<string, any>
+  ): cached is ValidationCache {
+    return (
+      !!cached &&
+      deepEqual(cached.value, value) &&
+      deepEqual(cached.depsValues ?? {}, depsValues)
+    )
+  }
+
+  /**
+   * Функция оценки надёжности из правила password() среди правил поля
+   */
+  private strengthEstimator(rules: Rule<any>[]): StrengthEstimator | undefined {
+    const rule = rules.find(r => (r as any).__strength)
+    return (rule as any)?.__strength
+  }
+
+  /**
+   * Оценка надёжности пароля для поля с правилом password(). Берётся из кэша
+   * валидации, если значение и зависимости не менялись; до валидации значения
+   * считается заново без записи в кэш
+   * @param fieldKey - Путь поля
+   * @returns Оценка или null, если у поля нет правила password()
+   */
+  getStrength(fieldKey: string): PasswordStrength | null {
+    const estimator = this.strengthEstimator(this.rulesFor(fieldKey))
+    if (!estimator) return null
+    const currentValue = this.valueOf(fieldKey)
+    const cached = this.validationCache[fieldKey]
+    if (
+      cached?.strength &&
+      this.isCacheFresh(cached, currentValue, this.collectDepsValues(fieldKey))
+    ) {
+      return cached.strength
+    }
+    return estimator(currentValue, this.values, fieldKey)
   }
 
   /**
@@ -201,75 +364,55 @@ export class ValidationManager<T extends Record<string, any>> {
     const abortController = new AbortController()
     this.abortControllers.set(fieldKey, abortController)
 
-    // Обработка вложенных путей типа 'contacts.0.email'
-    // Пропускаем expansion если нет wildcard-правил (оптимизация для простых форм)
-    let fieldRules: Rule<any>[]
-    if (this.hasWildcardRules) {
-      const expandedRules = this.getExpandedRules()
-      fieldRules = (expandedRules[fieldKey] ??
-        this.rules[name] ??
-        []) as Rule<any>[]
-    } else {
-      fieldRules = (this.rules[name] ?? []) as Rule<any>[]
-    }
-
-    const currentValue = fieldKey.includes('.')
-      ? getNestedValue(this.values, fieldKey)
-      : this.values[name]
+    const fieldRules = this.rulesFor(fieldKey)
+    const currentValue = this.valueOf(fieldKey)
 
     if (!fieldRules.length) {
       this.errors[fieldKey] = []
+      this.warnings[fieldKey] = []
       if (this.abortControllers.get(fieldKey) === abortController) {
         this.abortControllers.delete(fieldKey)
       }
       return []
     }
 
-    // Собираем текущие значения cross-field зависимостей для кэша
-    // Ищем по точному совпадению, затем по wildcard-паттерну
-    let dep = this.fieldDependencies.find(d => d.field === fieldKey)
-    if (!dep && fieldKey.includes('.')) {
-      dep = this.fieldDependencies.find(
-        d => d.field.includes('*') && this.matchesWildcard(d.field, fieldKey)
-      )
-    }
-    const depsValues: Record<string, any> = {}
-    if (dep) {
-      for (const depField of dep.dependsOn) {
-        const resolved = depField.includes('*')
-          ? resolveWildcard(depField, fieldKey)
-          : depField
-        depsValues[resolved] = resolved.includes('.')
-          ? getNestedValue(this.values, resolved)
-          : this.values[resolved as keyof T]
-      }
-    }
+    const depsValues = this.collectDepsValues(fieldKey)
 
     const cached = this.validationCache[fieldKey]
-    if (
-      cached &&
-      deepEqual(cached.value, currentValue) &&
-      deepEqual(cached.depsValues ?? {}, depsValues)
-    ) {
+    if (this.isCacheFresh(cached, currentValue, depsValues)) {
       this.errors[fieldKey] = [...cached.errors]
+      this.warnings[fieldKey] = [...cached.warnings]
       if (this.abortControllers.get(fieldKey) === abortController) {
         this.abortControllers.delete(fieldKey)
       }
       return cached.errors
     }
 
+    // Оценка пароля считается один раз на значение: её получают правила и strength()
+    const estimator = this.strengthEstimator(fieldRules)
+    const strength = estimator?.(currentValue, this.values, fieldKey)
+
     let validatingAsync = false
     const fieldErrors: string[] = []
+    const fieldWarnings: string[] = []
 
     try {
       // Проверить, была ли отменена валидация
       if (abortController.signal.aborted) {
         return []
       }
+      // Ошибки и предупреждения независимы: первая ошибка прекращает проверку
+      // только блокирующих правил, первое предупреждение — только warning-правил
       for (const rule of fieldRules) {
+        const isWarning = (rule as any).__warning === true
+        const bucket = isWarning ? fieldWarnings : fieldErrors
+        if (bucket.length > 0) continue
+
         try {
           const maybePromise = (rule as any)(currentValue, this.values, {
             fieldPath: fieldKey,
+            signal: abortController.signal,
+            strength,
           })
 
           if (maybePromise && typeof maybePromise.then === 'function') {
@@ -283,34 +426,30 @@ export class ValidationManager<T extends Record<string, any>> {
             if (abortController.signal.aborted) {
               return []
             }
-            const resolvedErrors = this.resolveValidationResult(result)
-            if (resolvedErrors.length > 0) {
-              fieldErrors.push(...resolvedErrors)
-              break
-            }
+            bucket.push(...this.resolveValidationResult(result))
           } else {
-            const resolvedErrors = this.resolveValidationResult(maybePromise)
-            if (resolvedErrors.length > 0) {
-              fieldErrors.push(...resolvedErrors)
-              break
-            }
+            bucket.push(...this.resolveValidationResult(maybePromise))
           }
         } catch (err) {
+          // Исключение в warning-правиле не блокирует отправку формы
+          if (isWarning) continue
           const message =
             err instanceof Error ? err.message : 'Validation error'
           fieldErrors.push(message)
-          break
         }
       }
 
       this.validationCache[fieldKey] = {
         value: deepClone(currentValue),
         errors: fieldErrors,
-        depsValues: dep
+        warnings: fieldWarnings,
+        depsValues: Object.keys(depsValues).length
           ? (deepClone(depsValues) as Record<string, any>)
           : undefined,
+        strength,
       }
       this.errors[fieldKey] = fieldErrors
+      this.warnings[fieldKey] = fieldWarnings
       return fieldErrors
     } finally {
       // Только если в Map всё ещё наш controller — значит нас не заменила новая валидация
@@ -348,6 +487,11 @@ export class ValidationManager<T extends Record<string, any>> {
         delete this.errors[key]
       }
     }
+    for (const key of Object.keys(this.warnings)) {
+      if (key.includes('.') && !activeFields.has(key)) {
+        delete this.warnings[key]
+      }
+    }
 
     return Object.values(this.errors).every(
       fieldErrors => fieldErrors.length === 0
@@ -357,19 +501,25 @@ export class ValidationManager<T extends Record<string, any>> {
   /**
    * Валидирует поля, которые зависят от измененного поля
    * @param changedField - Поле, которое изменилось
-   * @param touched - Объект, отслеживающий состояние затронутости полей
+   * @param shouldValidate - Предикат, решающий, нужно ли ревалидировать зависимое поле
    */
   async validateDependentFields(
     changedField: string,
-    touched: Record<string, boolean>
+    shouldValidate: (_field: string) => boolean
   ) {
     const dependentFields = this.getDependentFields(changedField)
 
-    const touchedDependents = dependentFields.filter(f => touched[f])
+    const touchedDependents = dependentFields.filter(f => shouldValidate(f))
     if (touchedDependents.length === 0) return
 
+    // Кэш зависимого поля сам инвалидируется по depsValues; сбрасываем его только
+    // если зависимость не резолвится в конкретный путь ('orders.*.qty' для 'total')
     for (const f of touchedDependents) {
-      delete this.validationCache[f]
+      const dep = this.findDependency(f)
+      const unresolved = dep?.dependsOn.some(d =>
+        resolveWildcard(d, f).includes('*')
+      )
+      if (!dep || unresolved) delete this.validationCache[f]
     }
     await nextTick()
     await Promise.all(
@@ -422,30 +572,32 @@ export class ValidationManager<T extends Record<string, any>> {
   }
 
   /**
-   * Очищает кэш валидации для всех вложенных полей в массиве
+   * Переносит кэш и состояние валидации вложенных полей массива на новые индексы
+   * Используется при вставке, удалении и перестановке элементов
    * @param arrayPath - Путь к полю-массиву, например 'contacts'
+   * @param mapIndex - Новый индекс для старого индекса или null, если элемент удалён
    */
-  clearArrayCache(arrayPath: string) {
+  remapArrayIndices(
+    arrayPath: string,
+    mapIndex: (_index: number) => number | null
+  ) {
     this.invalidateExpandedRulesCache()
     // Очистить кэш самого поля-массива (e.g. arrayMinLength cache)
     delete this.validationCache[arrayPath]
-    // Очистить кэш для всех вложенных полей (e.g. 'contacts.0.email')
-    const keysToDelete = Object.keys(this.validationCache).filter(key =>
-      key.startsWith(arrayPath + '.')
-    )
-    keysToDelete.forEach(key => {
-      delete this.validationCache[key]
-      delete this.errors[key]
-      delete this.isValidating[key]
-    })
 
-    // Также отменить любые выполняющиеся валидации для этих полей
-    keysToDelete.forEach(key => {
-      const controller = this.abortControllers.get(key)
-      if (controller) {
+    // Результат выполняющейся валидации записался бы по старому пути — отменяем
+    const prefix = arrayPath + '.'
+    for (const [key, controller] of this.abortControllers) {
+      if (key.startsWith(prefix)) {
         controller.abort()
         this.abortControllers.delete(key)
+        delete this.isValidating[key]
       }
-    })
+    }
+
+    remapArrayKeys(this.validationCache, arrayPath, mapIndex)
+    remapArrayKeys(this.errors, arrayPath, mapIndex)
+    remapArrayKeys(this.warnings, arrayPath, mapIndex)
+    remapArrayKeys(this.isValidating, arrayPath, mapIndex)
   }
 }
@@ -1,6 +1,7 @@
 import { reactive, ref, computed, toRef, type ComputedRef, type Ref } from 'vue'
 import type {
   FormOptions,
+  FieldErrors,
   FieldStatus,
   NestedPaths,
   Rule,
@@ -16,16 +17,22 @@ export class FormStateManager<T extends Record<string, any>> {
   private initialValues: T
   public values: T
   public errors: Record<string, string[]>
+  public warnings: Record<string, string[]>
   public touched: Record<string, boolean>
   public dirty: Record<string, boolean>
   public isValidating: Record<string, boolean>
   public isSubmitting = ref(false)
+  public submitCount = ref(0)
+  public submitSucceeded = ref(false)
+  public lastSubmitError = ref<unknown>(null)
   private options: FormOptions<T>
   private rules: Record<string, Rule<any>[]> = {}
 
   // Computed-свойства создаются один раз в конструкторе
   private readonly _errorFlags: ComputedRef<Record<string, boolean>>
   readonly isValid: ComputedRef<boolean>
+  /** Была ли попытка отправки (переключает форму на режим revalidateOn) */
+  readonly isSubmitted: ComputedRef<boolean>
   readonly isDirty: ComputedRef<boolean>
   readonly hasAnyErrors: ComputedRef<boolean>
   readonly touchedFields: ComputedRef<string[]>
@@ -40,6 +47,7 @@ export class FormStateManager<T extends Record<string, any>> {
     this.initialValues = deepClone(options.initialValues) as T
     this.values = reactive(deepClone(options.initialValues) as T) as T
     this.errors = reactive<Record<string, string[]>>({})
+    this.warnings = reactive<Record<string, string[]>>({})
     this.touched = reactive<Record<string, boolean>>({})
 
     // Инициализируем dirty со всеми полями
@@ -71,6 +79,8 @@ export class FormStateManager<T extends Record<string, any>> {
       })
     })
 
+    this.isSubmitted = computed(() => this.submitCount.value > 0)
+
     this.isDirty = computed(() => {
       const dirtyKeys = Object.keys(this.dirty).filter(key => this.dirty[key])
       return dirtyKeys.some(key => !this.isConditionallyInactive(key))
@@ -113,7 +123,7 @@ export class FormStateManager<T extends Record<string, any>> {
    * Устанавливает ошибки для конкретных полей и отмечает их как затронутые
    * @param newErrors - Ошибки для установки по имени поля
    */
-  setErrors(newErrors: Partial<Record<keyof T, string[]>>) {
+  setErrors(newErrors: FieldErrors<T>) {
     Object.entries(newErrors).forEach(([key, errorList]) => {
       if (errorList && errorList.length > 0) {
         this.errors[key] = [...errorList]
@@ -130,6 +140,9 @@ export class FormStateManager<T extends Record<string, any>> {
       this.errors[key] = []
       this.touched[key] = false
     })
+    Object.keys(this.warnings).forEach(key => {
+      this.warnings[key] = []
+    })
   }
 
   /**
@@ -143,11 +156,13 @@ export class FormStateManager<T extends Record<string, any>> {
         ? (deepClone(this.initialValues[k]) as T[keyof T])
         : this.getEmptyValue(this.initialValues[k])
       this.errors[key] = []
+      this.warnings[key] = []
       this.touched[key] = false
       this.dirty[key] = false
       this.isValidating[key] = false
     })
     this.clearNestedState()
+    this.resetSubmitState()
     this.options.onClear?.()
   }
 
@@ -196,11 +211,13 @@ export class FormStateManager<T extends Record<string, any>> {
       const k = key as keyof T
       this.values[k] = deepClone(this.initialValues[k]) as T[keyof T]
       this.errors[key] = []
+      this.warnings[key] = []
       this.touched[key] = false
       this.dirty[key] = false
       this.isValidating[key] = false
     })
     this.clearNestedState()
+    this.resetSubmitState()
   }
 
   /**
@@ -209,11 +226,22 @@ export class FormStateManager<T extends Record<string, any>> {
   resetState() {
     Object.keys(this.values).forEach(key => {
       this.errors[key] = []
+      this.warnings[key] = []
       this.touched[key] = false
       this.dirty[key] = false
       this.isValidating[key] = false
     })
     this.clearNestedState()
+    this.resetSubmitState()
+  }
+
+  /**
+   * Сбрасывает состояние жизненного цикла отправки
+   */
+  private resetSubmitState() {
+    this.submitCount.value = 0
+    this.submitSucceeded.value = false
+    this.lastSubmitError.value = null
   }
 
   /**
@@ -248,6 +276,9 @@ export class FormStateManager<T extends Record<string, any>> {
     for (const key of Object.keys(this.isValidating)) {
       if (key.includes('.')) delete this.isValidating[key]
     }
+    for (const key of Object.keys(this.warnings)) {
+      if (key.includes('.')) delete this.warnings[key]
+    }
   }
 
   /**
@@ -309,6 +340,18 @@ export class FormStateManager<T extends Record<string, any>> {
     return this.errors[key as string] ?? []
   }
 
+  hasWarning<K extends keyof T>(field: K): boolean
+  hasWarning<P extends NestedPaths<T>>(path: P): boolean
+  hasWarning(key: keyof T | NestedPaths<T>): boolean {
+    return (this.warnings[key as string]?.length ?? 0) > 0
+  }
+
+  warning<K extends keyof T>(field: K): string | null
+  warning<P extends NestedPaths<T>>(path: P): string | null
+  warning(key: keyof T | NestedPaths<T>): string | null {
+    return this.warnings[key as string]?.[0] ?? null
+  }
+
   validating<K extends keyof T>(field: K): boolean
   validating<P extends NestedPaths<T>>(path: P): boolean
   validating(key: keyof T | NestedPaths<T>): boolean {
@@ -340,6 +383,7 @@ export class FormStateManager<T extends Record<string, any>> {
       error: this.error(name),
       errors: this.allErrors(name),
       hasError: this.hasError(name),
+      warning: this.warning(name),
       value: this.values[name],
     } as const
   }
@@ -353,6 +397,7 @@ export class FormStateManager<T extends Record<string, any>> {
     return {
       values: toRef(() => this.values) as Ref<T>,
       errors: toRef(() => this.errors) as Ref<Record<string, string[]>>,
+      warnings: toRef(() => this.warnings) as Ref<Record<string, string[]>>,
       touched: toRef(() => this.touched) as Ref<Record<string, boolean>>,
       dirty: toRef(() => this.dirty) as Ref<Record<string, boolean>>,
       isValidating: toRef(() => this.isValidating) as Ref<